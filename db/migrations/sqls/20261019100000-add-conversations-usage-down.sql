@@ -0,0 +1,7 @@
+-- Remove token usage and estimated cost from conversations
+ALTER TABLE conversations
+  DROP COLUMN IF EXISTS prompt_tokens,
+  DROP COLUMN IF EXISTS completion_tokens,
+  DROP COLUMN IF EXISTS cached_tokens,
+  DROP COLUMN IF EXISTS total_tokens,
+  DROP COLUMN IF EXISTS cost;
\ No newline at end of file
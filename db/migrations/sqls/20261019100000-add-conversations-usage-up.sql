@@ -0,0 +1,7 @@
+-- Add token usage and estimated cost to conversations
+ALTER TABLE conversations
+  ADD COLUMN prompt_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN completion_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN cached_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN total_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN cost NUMERIC(14, 6) NOT NULL DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Drop artifacts table
+DROP TABLE IF EXISTS artifacts;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Create artifacts table, storing the tool results too large for the conversations
+CREATE TABLE artifacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_call_id VARCHAR(255) NOT NULL,
+  tool_name VARCHAR(255) NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Remove the location of each chunk in its source
+ALTER TABLE memory_chunks
+  DROP COLUMN IF EXISTS metadata;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Add the location of each chunk in its source (page, heading path, offsets, lines)
+ALTER TABLE memory_chunks
+  ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Remove the full-text index of the chunks
+DROP INDEX IF EXISTS memory_chunks_content_tsv_idx;
+
+ALTER TABLE memory_chunks
+  DROP COLUMN IF EXISTS content_tsv;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Full-text index of the chunks for hybrid search. The "simple" configuration keeps
+-- the words as written (no stemming nor stop words) to match identifiers and codes
+ALTER TABLE memory_chunks
+  ADD COLUMN content_tsv TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS memory_chunks_content_tsv_idx
+  ON memory_chunks USING GIN (content_tsv);
@@ -0,0 +1,15 @@
+-- Remove the namespaces and tags, the paths must be unique again
+DROP INDEX IF EXISTS memory_tags_idx;
+DROP INDEX IF EXISTS files_tags_idx;
+DROP INDEX IF EXISTS memory_namespace_idx;
+
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_namespace_path_key;
+ALTER TABLE files ADD CONSTRAINT files_path_key UNIQUE (path);
+
+ALTER TABLE memory
+  DROP COLUMN IF EXISTS tags,
+  DROP COLUMN IF EXISTS namespace;
+
+ALTER TABLE files
+  DROP COLUMN IF EXISTS tags,
+  DROP COLUMN IF EXISTS namespace;
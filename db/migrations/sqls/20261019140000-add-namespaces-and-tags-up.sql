@@ -0,0 +1,17 @@
+-- Namespaces isolate the files and memories of the projects or users sharing the
+-- database, tags label them to filter the retrieval
+ALTER TABLE files
+  ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default',
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE memory
+  ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default',
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- The same path can be indexed in several namespaces
+ALTER TABLE files DROP CONSTRAINT IF EXISTS files_path_key;
+ALTER TABLE files ADD CONSTRAINT files_namespace_path_key UNIQUE (namespace, path);
+
+CREATE INDEX IF NOT EXISTS memory_namespace_idx ON memory (namespace);
+CREATE INDEX IF NOT EXISTS files_tags_idx ON files USING GIN (tags);
+CREATE INDEX IF NOT EXISTS memory_tags_idx ON memory USING GIN (tags);
@@ -0,0 +1,153 @@
+import { randomUUID } from "crypto";
+import { Pool } from "pg";
+import { type Env } from "./conversationsStorage.js";
+
+/**
+ * A tool result too large to be put in the conversation as is.
+ */
+export type Artifact = {
+  id: string;
+  toolCallId: string;
+  toolName: string;
+  // The serialized tool result, as it would have been sent to the LLM
+  content: string;
+  created_at: Date;
+};
+
+export type NewArtifact = Pick<Artifact, "toolCallId" | "toolName" | "content">;
+
+export interface ArtifactsConfig {
+  // Serialized tool results longer than this are stored as artifacts (0 disables)
+  maxToolResultChars?: number;
+  // Characters of the result kept in the conversation as a preview
+  previewChars?: number;
+  // Maximum characters returned by each read_artifact call
+  pageChars?: number;
+}
+
+/**
+ * A page of an artifact, returned by the read_artifact tool.
+ */
+export type ArtifactPage = {
+  artifactId: string;
+  offset: number;
+  content: string;
+  totalChars: number;
+  // Offset of the next page, null once the end of the artifact is reached
+  nextOffset: number | null;
+};
+
+/**
+ * What the LLM receives instead of a tool result stored as an artifact.
+ */
+export const getArtifactPreview = (
+  artifact: Artifact,
+  previewChars: number
+) => ({
+  artifactId: artifact.id,
+  totalChars: artifact.content.length,
+  preview: artifact.content.slice(0, previewChars),
+  note: `The result of ${artifact.toolName} is too large to be included in full, only its first ${previewChars} characters are shown. Call read_artifact with this artifactId and offset ${previewChars} to read the rest.`,
+});
+
+export const readArtifactPage = (
+  artifact: Artifact,
+  offset: number,
+  length: number
+): ArtifactPage => {
+  const start = Math.max(0, Math.floor(offset));
+  const end = Math.min(artifact.content.length, start + Math.max(1, length));
+  return {
+    artifactId: artifact.id,
+    offset: start,
+    content: artifact.content.slice(start, end),
+    totalChars: artifact.content.length,
+    nextOffset: end < artifact.content.length ? end : null,
+  };
+};
+
+/**
+ * Storage of the large tool results, read back by the read_artifact tool and the clients.
+ */
+export interface ArtifactStore {
+  saveArtifact(artifact: NewArtifact): Promise<Artifact>;
+  getArtifact(id: string): Promise<Artifact | null>;
+}
+
+/**
+ * Keeps the artifacts in memory, they are lost when the process exits.
+ */
+export class InMemoryArtifactStore implements ArtifactStore {
+  private readonly artifacts = new Map<string, Artifact>();
+
+  async saveArtifact(artifact: NewArtifact): Promise<Artifact> {
+    const saved = { ...artifact, id: randomUUID(), created_at: new Date() };
+    this.artifacts.set(saved.id, saved);
+    return saved;
+  }
+
+  async getArtifact(id: string): Promise<Artifact | null> {
+    return this.artifacts.get(id) ?? null;
+  }
+}
+
+/**
+ * Keeps the artifacts in the artifacts table, so that the stored conversations
+ * referencing them can still be read after a restart.
+ */
+export class PostgresArtifactStore implements ArtifactStore {
+  private pool: Pool;
+
+  constructor(env: Env = process.env as Env) {
+    this.pool = new Pool({
+      host: env.PGHOST ?? "localhost",
+      port: Number(env.PGPORT ?? 5432),
+      user: env.PGUSER ?? "postgres",
+      password: env.PGPASSWORD ?? "password",
+      database: env.PGDATABASE ?? "ragdb",
+    });
+  }
+
+  async saveArtifact(artifact: NewArtifact): Promise<Artifact> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO artifacts (tool_call_id, tool_name, content) VALUES ($1, $2, $3) RETURNING *`,
+        [artifact.toolCallId, artifact.toolName, artifact.content]
+      );
+      return this.mapDbRowToArtifact(result.rows[0]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async getArtifact(id: string): Promise<Artifact | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM artifacts WHERE id = $1`,
+        [id]
+      );
+      if (result.rows.length === 0) {
+        return null;
+      }
+      return this.mapDbRowToArtifact(result.rows[0]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private mapDbRowToArtifact(row: any): Artifact {
+    return {
+      id: row.id,
+      toolCallId: row.tool_call_id,
+      toolName: row.tool_name,
+      content: row.content,
+      created_at: new Date(row.created_at),
+    };
+  }
+}
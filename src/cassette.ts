@@ -0,0 +1,483 @@
+import { promises as fs } from "fs";
+import type { OpenAI } from "openai";
+import type { z } from "zod";
+import type { AvailableTool } from "./clientsRegistry.js";
+import {
+  LLMProviderError,
+  type ChatCompletionRequest,
+  type LLMProvider,
+  type LLMRequestOptions,
+} from "./providers/index.js";
+
+/**
+ * Error an interaction failed with, thrown again when it is replayed.
+ */
+export type RecordedError = {
+  message: string;
+  // Set for the errors of the LLM providers, replayed as LLMProviderError
+  provider?: string;
+  status?: number;
+  retryAfterMs?: number;
+};
+
+export type LLMInteraction = {
+  type: "llm";
+  method: "create" | "stream" | "parse";
+  // Provider forced by the request options (fallback models)
+  provider?: string;
+  request: ChatCompletionRequest & { schemaName?: string };
+  // The completion for "create", its chunks for "stream", the parsed object for "parse"
+  response?: unknown;
+  error?: RecordedError;
+};
+
+export type ToolInteraction = {
+  type: "tool";
+  // Name of the tool as exposed to the LLM
+  toolName: string;
+  arguments: unknown;
+  result?: unknown;
+  error?: RecordedError;
+};
+
+export type CassetteInteraction = LLMInteraction | ToolInteraction;
+
+export interface CassetteData {
+  version: 1;
+  // MCP tools listed while recording, exposed again on replay
+  tools: AvailableTool[];
+  interactions: CassetteInteraction[];
+}
+
+export type CassetteMode = "record" | "replay";
+
+/**
+ * Thrown on replay when the agent sends a request that was not recorded, or sends fewer
+ * requests than recorded: the prompts or the behaviour of the agent have drifted.
+ */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+// Drops the undefined fields, as they are once saved to the cassette file
+const normalize = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+/**
+ * Finds the first difference between two JSON values.
+ * @returns the path of the difference and both values there, undefined if they are equal
+ */
+const findDifference = (
+  recorded: unknown,
+  actual: unknown,
+  path = ""
+): { path: string; recorded: unknown; actual: unknown } | undefined => {
+  if (
+    typeof recorded !== "object" ||
+    typeof actual !== "object" ||
+    recorded === null ||
+    actual === null ||
+    Array.isArray(recorded) !== Array.isArray(actual)
+  ) {
+    return recorded === actual ? undefined : { path, recorded, actual };
+  }
+  if (Array.isArray(recorded) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.max(recorded.length, actual.length); i++) {
+      const difference = findDifference(
+        recorded[i],
+        actual[i],
+        `${path}[${i}]`
+      );
+      if (difference) return difference;
+    }
+    return undefined;
+  }
+  const recordedObject = recorded as Record<string, unknown>;
+  const actualObject = actual as Record<string, unknown>;
+  const keys = new Set([
+    ...Object.keys(recordedObject),
+    ...Object.keys(actualObject),
+  ]);
+  for (const key of keys) {
+    const difference = findDifference(
+      recordedObject[key],
+      actualObject[key],
+      path ? `${path}.${key}` : key
+    );
+    if (difference) return difference;
+  }
+  return undefined;
+};
+
+const toRecordedError = (error: unknown): RecordedError =>
+  error instanceof LLMProviderError
+    ? {
+        message: error.message,
+        provider: error.provider,
+        status: error.status,
+        retryAfterMs: error.retryAfterMs,
+      }
+    : { message: (error as Error)?.message ?? String(error) };
+
+const fromRecordedError = (error: RecordedError): Error =>
+  error.provider
+    ? new LLMProviderError(
+        error.message,
+        error.provider,
+        error.status,
+        error.retryAfterMs
+      )
+    : new Error(error.message);
+
+const describeValue = (value: unknown) =>
+  value === undefined ? "nothing" : JSON.stringify(value).slice(0, 200);
+
+/**
+ * The LLM requests and MCP tool calls of agent runs, with their responses.
+ *
+ * In "record" mode every interaction going through a CassetteProvider or the
+ * ClientsRegistry of the agent is added to the cassette, to be saved to a file.
+ * In "replay" mode the recorded responses are returned instead, without any network
+ * access, and any request that was not recorded throws a CassetteMismatchError.
+ *
+ * Interactions are matched by content rather than by order, since tool calls and
+ * sub-agents run concurrently.
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  private readonly data: CassetteData;
+  // Indexes of the interactions already replayed
+  private readonly replayed = new Set<number>();
+
+  constructor(
+    mode: CassetteMode,
+    data: CassetteData = { version: 1, tools: [], interactions: [] }
+  ) {
+    this.mode = mode;
+    this.data = data;
+  }
+
+  /**
+   * Loads a recorded cassette, ready to be replayed.
+   */
+  static async load(path: string): Promise<Cassette> {
+    const data = JSON.parse(await fs.readFile(path, "utf8")) as CassetteData;
+    if (data.version !== 1) {
+      throw new Error(`Unsupported cassette version ${data.version}.`);
+    }
+    return new Cassette("replay", data);
+  }
+
+  async save(path: string): Promise<void> {
+    await fs.writeFile(path, JSON.stringify(this.data, null, 2) + "\n");
+  }
+
+  toJSON(): CassetteData {
+    return this.data;
+  }
+
+  getTools(): AvailableTool[] {
+    return this.data.tools;
+  }
+
+  recordTools(tools: AvailableTool[]) {
+    this.data.tools = normalize(tools);
+  }
+
+  recordLLMInteraction(
+    interaction: Omit<LLMInteraction, "type" | "error"> & { error?: unknown }
+  ) {
+    this.data.interactions.push(
+      normalize({
+        type: "llm",
+        ...interaction,
+        error:
+          interaction.error === undefined
+            ? undefined
+            : toRecordedError(interaction.error),
+      })
+    );
+  }
+
+  recordToolCall(
+    toolName: string,
+    args: unknown,
+    outcome: { result: unknown } | { error: unknown }
+  ) {
+    this.data.interactions.push(
+      normalize({
+        type: "tool",
+        toolName,
+        arguments: args,
+        ...("error" in outcome
+          ? { error: toRecordedError(outcome.error) }
+          : { result: outcome.result }),
+      })
+    );
+  }
+
+  /**
+   * @returns the recorded response of the LLM request, and the error to throw if the
+   *          request failed while recording (after some chunks, for streams)
+   */
+  replayLLMInteraction(
+    method: LLMInteraction["method"],
+    request: LLMInteraction["request"],
+    provider?: string
+  ): { response: unknown; error?: Error } {
+    const interaction = this.take<LLMInteraction>({
+      type: "llm",
+      method,
+      provider,
+      request,
+    });
+    return {
+      response: interaction.response,
+      error: interaction.error && fromRecordedError(interaction.error),
+    };
+  }
+
+  /**
+   * @returns the recorded result of the tool call
+   * @throws the recorded error if the call failed while recording
+   */
+  replayToolCall(toolName: string, args: unknown): unknown {
+    const interaction = this.take<ToolInteraction>({
+      type: "tool",
+      toolName,
+      arguments: args,
+    });
+    if (interaction.error) throw fromRecordedError(interaction.error);
+    return interaction.result;
+  }
+
+  /**
+   * Checks that every recorded interaction has been replayed.
+   * @throws CassetteMismatchError listing the interactions the agent did not replay
+   */
+  assertFullyReplayed() {
+    const missing = this.data.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ index }) => !this.replayed.has(index));
+    if (missing.length > 0) {
+      throw new CassetteMismatchError(
+        `${missing.length} recorded interaction(s) were not replayed: ${missing
+          .map(({ interaction }) =>
+            interaction.type === "llm"
+              ? `LLM ${interaction.method} request to ${interaction.request.model}`
+              : `call to the tool "${interaction.toolName}"`
+          )
+          .join(", ")}.`
+      );
+    }
+  }
+
+  private take<T extends CassetteInteraction>(
+    key: Omit<T, "response" | "result" | "error">
+  ): T {
+    const normalizedKey = normalize(key) as Record<string, unknown>;
+    const keyOf = (interaction: CassetteInteraction) =>
+      Object.fromEntries(
+        // The fields of the key, undefined ones included (e.g. no forced provider)
+        Object.keys(key).map((field) => [
+          field,
+          (interaction as Record<string, unknown>)[field],
+        ])
+      );
+
+    const candidates = this.data.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(
+        ({ interaction, index }) =>
+          interaction.type === key.type && !this.replayed.has(index)
+      );
+    const match = candidates.find(
+      ({ interaction }) => !findDifference(keyOf(interaction), normalizedKey)
+    );
+    if (match) {
+      this.replayed.add(match.index);
+      return match.interaction as T;
+    }
+
+    const what =
+      key.type === "llm"
+        ? `LLM request to ${(key as Partial<LLMInteraction>).request?.model}`
+        : `call to the tool "${(key as Partial<ToolInteraction>).toolName}"`;
+    if (candidates.length === 0) {
+      throw new CassetteMismatchError(
+        `Cassette mismatch: unexpected ${what}, every recorded one has been replayed.`
+      );
+    }
+    // The next recorded one is the most likely to have been expected
+    const difference = findDifference(
+      keyOf(candidates[0].interaction),
+      normalizedKey
+    )!;
+    throw new CassetteMismatchError(
+      `Cassette mismatch: the ${what} was not recorded. It differs from the next recorded one at "${
+        difference.path
+      }": recorded ${describeValue(difference.recorded)}, got ${describeValue(
+        difference.actual
+      )}.`
+    );
+  }
+}
+
+export interface CassetteProviderConfig {
+  cassette: Cassette;
+  // Provider the requests are sent to while recording, unused on replay
+  provider?: LLMProvider;
+}
+
+/**
+ * LLM provider recording the requests sent to another provider in a cassette,
+ * or answering them from the cassette on replay.
+ */
+export class CassetteProvider implements LLMProvider {
+  private readonly cassette: Cassette;
+  private readonly provider?: LLMProvider;
+
+  constructor(config: CassetteProviderConfig) {
+    if (config.cassette.mode === "record" && !config.provider) {
+      throw new Error("A provider is needed to record a cassette.");
+    }
+    this.cassette = config.cassette;
+    this.provider = config.provider;
+  }
+
+  async createChatCompletion(
+    request: ChatCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    if (this.cassette.mode === "replay") {
+      const { response, error } = this.cassette.replayLLMInteraction(
+        "create",
+        request,
+        options.provider
+      );
+      if (error) throw error;
+      return response as OpenAI.Chat.Completions.ChatCompletion;
+    }
+    // Recorded before the conversation is modified by the agent
+    const recorded = normalize(request);
+    return this.record("create", recorded, options, () =>
+      this.provider!.createChatCompletion(request, options)
+    );
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>> {
+    if (this.cassette.mode === "replay") {
+      const { response, error } = this.cassette.replayLLMInteraction(
+        "stream",
+        request,
+        options.provider
+      );
+      // A stream failing after some chunks while recording fails the same way
+      const chunks = (response ??
+        []) as OpenAI.Chat.Completions.ChatCompletionChunk[];
+      if (error && chunks.length === 0) throw error;
+      return (async function* () {
+        yield* chunks;
+        if (error) throw error;
+      })();
+    }
+
+    const recorded = normalize(request);
+    const stream = await this.record("stream", recorded, options, () =>
+      this.provider!.streamChatCompletion(request, options)
+    );
+    const cassette = this.cassette;
+    return (async function* () {
+      const chunks: OpenAI.Chat.Completions.ChatCompletionChunk[] = [];
+      try {
+        for await (const chunk of stream) {
+          chunks.push(chunk);
+          yield chunk;
+        }
+      } catch (error) {
+        if (!options.signal?.aborted) {
+          cassette.recordLLMInteraction({
+            method: "stream",
+            provider: options.provider,
+            request: recorded,
+            response: chunks,
+            error,
+          });
+        }
+        throw error;
+      }
+      cassette.recordLLMInteraction({
+        method: "stream",
+        provider: options.provider,
+        request: recorded,
+        response: chunks,
+      });
+    })();
+  }
+
+  async parseChatCompletion<T>(
+    request: Omit<
+      ChatCompletionRequest,
+      "tools" | "tool_choice" | "response_format"
+    >,
+    schema: z.ZodType<T>,
+    schemaName: string,
+    options: LLMRequestOptions = {}
+  ): Promise<T | null> {
+    const recorded = normalize({ ...request, schemaName });
+    if (this.cassette.mode === "replay") {
+      const { response, error } = this.cassette.replayLLMInteraction(
+        "parse",
+        recorded,
+        options.provider
+      );
+      if (error) throw error;
+      return response === null || response === undefined
+        ? null
+        : schema.parse(response);
+    }
+    return this.record("parse", recorded, options, () =>
+      this.provider!.parseChatCompletion(request, schema, schemaName, options)
+    );
+  }
+
+  /**
+   * Sends the request, recording its response, or its error unless it was aborted.
+   * Streams are recorded once they have been read, failed requests right away.
+   */
+  private async record<T>(
+    method: LLMInteraction["method"],
+    request: LLMInteraction["request"],
+    options: LLMRequestOptions,
+    send: () => Promise<T>
+  ): Promise<T> {
+    try {
+      const response = await send();
+      if (method !== "stream") {
+        this.cassette.recordLLMInteraction({
+          method,
+          provider: options.provider,
+          request,
+          response,
+        });
+      }
+      return response;
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        this.cassette.recordLLMInteraction({
+          method,
+          provider: options.provider,
+          request,
+          error,
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { styleText } from "node:util";
 import readline from "readline";
+import type { Socket } from "socket.io-client";
+import type {
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+} from "./toolApproval.ts";
 
 // Built with https://patorjk.com/software/taag/ using the "ANSI Shadow" font
 export const logo = `
@@ -64,6 +69,86 @@ export async function promptUser(
   });
 }
 
+/**
+ * Calls the handler when the user presses Ctrl+C, until the returned function is called.
+ */
+export const onInterrupt = (handler: () => void) => {
+  rl.on("SIGINT", handler);
+  return () => {
+    rl.off("SIGINT", handler);
+  };
+};
+
+const promptToolApproval = async (
+  request: ToolApprovalRequest
+): Promise<ToolApprovalDecision> => {
+  printMcpMessage(
+    `The agent wants to call ${request.toolName} (${
+      request.clientName
+    }) with:\n${JSON.stringify(request.params, null, 2)}`
+  );
+  const { input: answer } = await promptUser(
+    "Approve this tool call? (y)es / (n)o / (e)dit arguments",
+    ">> "
+  );
+  if (answer === "y" || answer === "yes") {
+    return { action: "approve" };
+  }
+  if (answer === "e" || answer === "edit") {
+    const { input: editedArguments } = await promptUser(
+      "New arguments (JSON):",
+      ">> "
+    );
+    try {
+      return { action: "edit", arguments: JSON.parse(editedArguments) };
+    } catch {
+      printSystemMessage("Invalid JSON, the tool call is rejected.");
+      return { action: "reject", reason: "Invalid arguments provided." };
+    }
+  }
+  const { input: reason } = await promptUser(
+    "Why are you rejecting it? (optional)",
+    ">> "
+  );
+  return { action: "reject", reason: reason || undefined };
+};
+
+/**
+ * Answers the prompts of the agent during a run (tool approvals and ask_user questions)
+ * by asking the user in the terminal.
+ */
+export const handleAgentPrompts = (socket: Socket) => {
+  // Parallel tool calls can ask for input at the same time, prompt one at a time
+  let pendingPrompts: Promise<unknown> = Promise.resolve();
+  socket.on(
+    "tool-approval-request",
+    (
+      request: ToolApprovalRequest,
+      callback: (decision: ToolApprovalDecision) => void
+    ) => {
+      pendingPrompts = pendingPrompts.then(async () =>
+        callback(await promptToolApproval(request))
+      );
+    }
+  );
+
+  socket.on(
+    "ask-user",
+    (
+      request: { question: string },
+      callback: (answer: { input: string }) => void
+    ) => {
+      pendingPrompts = pendingPrompts.then(async () => {
+        const { input } = await promptUser(
+          `The agent is asking: ${request.question}`,
+          ">> "
+        );
+        callback({ input });
+      });
+    }
+  );
+};
+
 export const commands = [
   {
     name: "exit",
@@ -1,5 +1,7 @@
 import {
   getAvailableCommandsString,
+  handleAgentPrompts,
+  onInterrupt,
   printAgentMessage,
   printLogo,
   printMcpMessage,
@@ -9,13 +11,19 @@ import {
 import { io, Socket } from "socket.io-client";
 import { agentConfig } from "./config.ts";
 import { getContextString } from "./utils.ts";
-import { type ToolCall } from "./clientsRegistry.ts";
-import type { ConversationMessage, ToolCallResult } from "./tinyAgents.ts";
+import { type ClientStatus, type ToolCall } from "./clientsRegistry.ts";
+import type {
+  ConversationMessage,
+  TaskCompletion,
+  ToolCallResult,
+} from "./tinyAgents.ts";
+import { formatUsage, type UsageWithCost } from "./usage.ts";
 import { spawn } from "child_process";
 
 type SocketEventResult<T> = {
   status: string;
   result: T;
+  error?: string;
 };
 
 printLogo();
@@ -96,6 +104,16 @@ try {
     );
   });
 
+  handleAgentPrompts(socket);
+
+  socket.on("mcp-client-status", (status: ClientStatus) => {
+    printMcpMessage(
+      `[MCP]: ${status.name} is ${status.state}${
+        status.lastError ? ` (${status.lastError})` : ""
+      }`
+    );
+  });
+
   socket.on("tool-call-result", (toolCallResult: ToolCallResult) => {
     baseMessages.push({
       role: "tool",
@@ -104,9 +122,9 @@ try {
       type: "function_call_output",
     });
     printMcpMessage(
-      `${toolCallResult.toolName} completed in ${(
-        toolCallResult.durationMs / 1000
-      ).toFixed(2)}s\n`
+      `${toolCallResult.toolName} ${
+        toolCallResult.isError ? "failed" : "completed"
+      } in ${(toolCallResult.durationMs / 1000).toFixed(2)}s\n`
     );
   });
 
@@ -154,12 +172,18 @@ try {
           continue;
         }
         printSystemMessage("Generating recipe...");
-        const { result: recipe } = await socketEmitPromisified<string>(
+        const response = await socketEmitPromisified<string>(
           "generate-recipe",
           baseMessages
         );
+        if (response.status === "error") {
+          printSystemMessage(
+            `The recipe could not be generated: ${response.error}`
+          );
+          continue;
+        }
         printSystemMessage("Recipe generated:");
-        printAgentMessage(recipe);
+        printAgentMessage(response.result);
         continue;
       }
       if (command === "get_full_conversation") {
@@ -191,22 +215,52 @@ try {
         printSystemMessage("RAG queries generated. Building your answer...");
       }
 
-      const { result: answer } = await socketEmitPromisified<{
+      // Ctrl+C stops the answer being generated instead of closing the client
+      const removeInterruptHandler = onInterrupt(() => {
+        printSystemMessage("\nCancelling...");
+        socket?.emit("cancel-generation", {}, () => {});
+      });
+      const response = await socketEmitPromisified<{
         content: string;
         streamed: boolean;
+        cancelled: boolean;
+        completion?: TaskCompletion;
+        usage: UsageWithCost;
       }>("generate-answer", {
         messages: baseMessages,
         ragQueries,
       });
+      removeInterruptHandler();
+
+      if (response.status === "error") {
+        printSystemMessage(
+          `\nThe answer could not be generated: ${response.error}`
+        );
+        continue;
+      }
+      const answer = response.result;
 
       const elapsedTime = (Date.now() - start) / 1000;
+      if (answer.cancelled) {
+        printSystemMessage(
+          `Generation cancelled after ${elapsedTime.toFixed(2)}s`
+        );
+        continue;
+      }
       if (!answer.streamed) {
         printAgentMessage(answer.content);
-        printSystemMessage(`Answer generated in ${elapsedTime.toFixed(2)}s`);
       } else {
         console.log("\n"); //Empty new line
-        printSystemMessage(`Answer generated in ${elapsedTime.toFixed(2)}s`);
       }
+      // Set when the agent ended its work with task_complete
+      const taskStatus = answer.completion
+        ? ` · task ${answer.completion.status}`
+        : "";
+      printSystemMessage(
+        `Answer generated in ${elapsedTime.toFixed(2)}s · ${formatUsage(
+          answer.usage
+        )}${taskStatus}`
+      );
       baseMessages.push({ role: "assistant", content: answer.content });
     }
   }
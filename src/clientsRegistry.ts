@@ -1,8 +1,20 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  McpError,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Cassette } from "./cassette.js";
 
 export const INTERACTION_SERVER = "interaction-server";
 
+// Separator between a namespace and the tool name, e.g. "filesystem__read_file"
+export const TOOL_NAMESPACE_SEPARATOR = "__";
+
 /**
  * Shape of a tool as returned by clients
  * (each client’s listTools() returns an array of tools with at least
@@ -19,6 +31,8 @@ export interface ClientTool {
  */
 export interface AvailableTool {
   clientName: string;
+  // Name of the tool on its MCP server, when different from function.name (namespaced tools)
+  originalName?: string;
   type: "function";
   function: {
     name: string;
@@ -39,8 +53,151 @@ export interface ToolCall {
   };
 }
 
+/**
+ * Transports used to reach MCP servers exposed over HTTP.
+ * "sse" is the legacy HTTP+SSE transport, kept for older servers.
+ */
+export type RemoteTransportType = "streamable-http" | "sse";
+
+/**
+ * How tool names are exposed to the LLM when multiple clients are registered:
+ * - "collisions": only tools whose name clashes with another tool are prefixed
+ *   with their client name (e.g. "filesystem__read_file").
+ * - "always": every tool coming from a client is prefixed with its client name.
+ * - "none": names are never prefixed; on a collision the first tool wins.
+ */
+export type ToolNamespacing = "collisions" | "always" | "none";
+
+/**
+ * Connection status of a registered client:
+ * - "connected": the client is up and its tools are available.
+ * - "restarting": the client crashed (or failed a health check) and is being reconnected.
+ * - "failed": every reconnection attempt failed, the client won't be restarted anymore.
+ */
+export interface ClientStatus {
+  name: string;
+  state: "connected" | "restarting" | "failed";
+  lastError?: string;
+  restartAttempts: number;
+  updatedAt: number;
+}
+
+/**
+ * Health monitoring and automatic restart of the registered clients.
+ */
+export interface ClientsHealthConfig {
+  // Interval between MCP pings to each connected client, 0 disables the health checks
+  healthCheckIntervalMs?: number;
+  healthCheckTimeoutMs?: number;
+  // Reconnection attempts before giving up on a client, with exponential backoff
+  maxRestartAttempts?: number;
+  restartInitialDelayMs?: number;
+  restartMaxDelayMs?: number;
+  onStatusChange?: (status: ClientStatus) => void;
+}
+
+export interface ClientsRegistryConfig {
+  toolNamespacing?: ToolNamespacing;
+  health?: ClientsHealthConfig;
+  // Timeout applied to tool calls of servers without a more specific setting (default 60s)
+  defaultToolTimeoutMs?: number;
+  // Records the tools and tool calls of the clients, or replays them without any client
+  cassette?: Cassette;
+}
+
+/**
+ * Options shared by every transport.
+ */
+export interface RegisterOptions {
+  // Prefix always applied to the tools of this server, e.g. "fs" => "fs__read_file"
+  toolPrefix?: string;
+  // Timeout of every tool call to this server
+  timeoutMs?: number;
+  // Per-tool timeouts (keyed by the tool name on the server), override timeoutMs
+  toolTimeouts?: Record<string, number>;
+}
+
+/**
+ * Options for a single tool call.
+ */
+export interface CallToolOptions {
+  // Aborts the call, e.g. when the user cancels the generation
+  signal?: AbortSignal;
+  // Cassette of the run making the call, used instead of the registry's one
+  cassette?: Cassette;
+}
+
+/**
+ * Options for MCP servers reached over HTTP.
+ */
+export interface RemoteTransportOptions extends RegisterOptions {
+  // Custom headers sent with every request (e.g. API keys, tenant ids)
+  headers?: Record<string, string>;
+  // Sent as "Authorization: Bearer <token>"
+  bearerToken?: string;
+}
+
+/**
+ * Everything needed to (re)connect a client.
+ */
+interface ClientRegistration {
+  transportType: string;
+  commandOrUrl: string;
+  args: string[];
+  env?: Record<string, string>;
+  remoteOptions: RemoteTransportOptions;
+}
+
+/**
+ * Builds a namespaced tool name, replacing the characters not allowed in
+ * OpenAI function names.
+ */
+const namespaceToolName = (namespace: string, toolName: string) =>
+  `${namespace}${TOOL_NAMESPACE_SEPARATOR}${toolName}`.replace(
+    /[^a-zA-Z0-9_-]/g,
+    "_"
+  );
+
 export class ClientsRegistry {
   private clients: Record<string, Client> = {};
+  private clientOptions: Record<string, RegisterOptions> = {};
+  // Cached listTools() result of each client, invalidated on
+  // notifications/tools/list_changed, register, closeClient and refreshTools()
+  private toolsCache: Record<string, Promise<ClientTool[]>> = {};
+  private registrations: Record<string, ClientRegistration> = {};
+  private statuses: Record<string, ClientStatus> = {};
+  private restartTimers: Record<string, NodeJS.Timeout> = {};
+  private healthCheckTimer?: NodeJS.Timeout;
+  private readonly toolNamespacing: ToolNamespacing;
+  private readonly defaultToolTimeoutMs: number;
+  private readonly cassette?: Cassette;
+  private readonly health: Required<
+    Omit<ClientsHealthConfig, "onStatusChange">
+  > &
+    Pick<ClientsHealthConfig, "onStatusChange">;
+
+  constructor(config: ClientsRegistryConfig = {}) {
+    this.toolNamespacing = config.toolNamespacing ?? "collisions";
+    this.defaultToolTimeoutMs = config.defaultToolTimeoutMs ?? 60000;
+    this.cassette = config.cassette;
+    this.health = {
+      healthCheckIntervalMs: config.health?.healthCheckIntervalMs ?? 0,
+      healthCheckTimeoutMs: config.health?.healthCheckTimeoutMs ?? 5000,
+      maxRestartAttempts: config.health?.maxRestartAttempts ?? 5,
+      restartInitialDelayMs: config.health?.restartInitialDelayMs ?? 1000,
+      restartMaxDelayMs: config.health?.restartMaxDelayMs ?? 30000,
+      onStatusChange: config.health?.onStatusChange,
+    };
+
+    if (this.health.healthCheckIntervalMs > 0) {
+      this.healthCheckTimer = setInterval(
+        () => this.checkHealth(),
+        this.health.healthCheckIntervalMs
+      );
+      // Health checks alone must not keep the process alive
+      this.healthCheckTimer.unref();
+    }
+  }
 
   // Default tools that always exist, pointing at the INTERACTION_SERVER client
   private readonly defaultTools: AvailableTool[] = [
@@ -50,10 +207,100 @@ export class ClientsRegistry {
       function: {
         name: "task_complete",
         description:
-          "Call this tool when the task given by the user is complete",
+          "Call this tool when you are done with the task given by the user, it ends your work. The summary is given to the user as your final answer",
         parameters: {
           type: "object",
-          properties: {},
+          properties: {
+            summary: {
+              type: "string",
+              description:
+                "Final answer to the user: what was done and the results",
+            },
+            status: {
+              type: "string",
+              enum: ["success", "partial", "failed"],
+              description:
+                "Whether the task was fully completed, only partly, or could not be done (default success)",
+            },
+          },
+          required: ["summary"],
+        },
+      },
+    },
+    {
+      clientName: INTERACTION_SERVER,
+      type: "function",
+      function: {
+        name: "ask_user",
+        description:
+          "Ask the user a question and wait for the answer, e.g. to clarify an ambiguous request, choose between options or get missing information. The answer of the user is returned as the result of this tool",
+        parameters: {
+          type: "object",
+          properties: {
+            question: {
+              type: "string",
+              description: "The question to ask the user",
+            },
+          },
+          required: ["question"],
+        },
+      },
+    },
+    {
+      clientName: INTERACTION_SERVER,
+      type: "function",
+      function: {
+        name: "read_artifact",
+        description:
+          "Read a page of a tool result that was too large to be included in the conversation, using the artifactId given with its preview. Returns the content with the offset of the next page, if any",
+        parameters: {
+          type: "object",
+          properties: {
+            artifact_id: {
+              type: "string",
+              description: "The artifactId of the truncated tool result",
+            },
+            offset: {
+              type: "number",
+              description:
+                "Character offset to start reading from (default 0, or the nextOffset of the previous page)",
+            },
+            length: {
+              type: "number",
+              description: "Maximum number of characters to read",
+            },
+          },
+          required: ["artifact_id"],
+        },
+      },
+    },
+    {
+      clientName: INTERACTION_SERVER,
+      type: "function",
+      function: {
+        name: "spawn_subagent",
+        description:
+          "Spawn a sub-agent to accomplish a self-contained goal on its own (e.g. a research task or a multi-step operation). The sub-agent can use tools and returns its final answer as the result of this tool",
+        parameters: {
+          type: "object",
+          properties: {
+            goal: {
+              type: "string",
+              description:
+                "The goal the sub-agent has to accomplish, with all the context it needs",
+            },
+            system_prompt: {
+              type: "string",
+              description: "Optional system prompt for the sub-agent",
+            },
+            tools: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Optional allow-list of tool names the sub-agent can use. If omitted, the sub-agent can use all the available tools",
+            },
+          },
+          required: ["goal"],
         },
       },
     },
@@ -61,86 +308,209 @@ export class ClientsRegistry {
 
   /**
    * Register a new MCP‐based server under the given name, using the specified transport.
+   * - "stdio": spawns `command` with `args` and `env`.
+   * - "streamable-http" / "sse": connects to the server listening at `url`.
+   * A client already registered under the name is closed first.
    */
   public async register(
-    transportType: string, //TODO: Support StreamableHTTPClientTransport
+    transportType: RemoteTransportType,
+    name: string,
+    url: string,
+    options?: RemoteTransportOptions
+  ): Promise<{
+    client: Client;
+    name: string;
+  }>;
+  public async register(
+    transportType: string,
     name: string,
     command: string,
     args: string[],
-    env: Record<string, string>
+    env: Record<string, string>,
+    options?: RegisterOptions
+  ): Promise<{
+    client: Client;
+    name: string;
+  }>;
+  public async register(
+    transportType: string,
+    name: string,
+    commandOrUrl: string,
+    argsOrOptions?: string[] | RemoteTransportOptions,
+    env?: Record<string, string>,
+    stdioOptions?: RegisterOptions
   ): Promise<{
     client: Client;
     name: string;
   }> {
-    let transport;
-    if (transportType === "stdio") {
-      transport = new StdioClientTransport({
-        command,
-        args,
-        env,
-        stderr: "pipe",
-      });
+    const registerOptions = Array.isArray(argsOrOptions)
+      ? stdioOptions
+      : argsOrOptions;
 
-      if (transport.stderr) {
-        transport.stderr.on("data", () => {
-          // no-op: silently discard logs
-        });
-      }
-    } else {
-      throw new Error(`Unsupported transport type: ${transportType}`);
+    const registration: ClientRegistration = {
+      transportType,
+      commandOrUrl,
+      args: Array.isArray(argsOrOptions) ? argsOrOptions : [],
+      env,
+      remoteOptions: Array.isArray(argsOrOptions) ? {} : argsOrOptions ?? {},
+    };
+
+    // Don't leak the previous client nor let its pending restart replace the new one
+    if (this.registrations[name]) {
+      await this.closeClient(name);
     }
 
-    const client = new Client({ name, version: "1.0.0" });
-    await client.connect(transport);
+    const client = await this.connect(name, registration);
     this.clients[name] = client;
+    this.registrations[name] = registration;
+    this.clientOptions[name] = registerOptions ?? {};
+    this.setStatus(name, { state: "connected", restartAttempts: 0 });
     return { client, name };
   }
 
   /**
-   * Returns the full list of available tools: the two default interaction‐server tools
+   * Returns the connection status of every registered client.
+   */
+  public getClientsStatus(): ClientStatus[] {
+    return Object.values(this.statuses);
+  }
+
+  /**
+   * Pings every connected client, restarting the ones that don't answer in time.
+   */
+  public async checkHealth(): Promise<void> {
+    await Promise.all(
+      Object.entries(this.clients).map(async ([name, client]) => {
+        try {
+          await client.ping({ timeout: this.health.healthCheckTimeoutMs });
+        } catch (error) {
+          this.handleClientFailure(name, client, error);
+          // Make sure the unhealthy process/connection is gone
+          client.close().catch(() => {});
+        }
+      })
+    );
+  }
+
+  /**
+   * Returns the full list of available tools: the default interaction‐server tools
    * plus every tool exposed by each registered client.
+   *
+   * Tool names are namespaced according to the toolNamespacing mode and the per-server
+   * toolPrefix, so that two clients exposing the same tool name don't shadow each other.
+   *
+   * Listings are cached per client, so only clients whose tools changed are queried again.
+   * When replaying a cassette, the tools of the clients are the recorded ones.
+   *
+   * @param options.cassette Cassette of the run, used instead of the registry's one
    */
-  public async getTools(): Promise<AvailableTool[]> {
+  public async getTools(
+    options: { cassette?: Cassette } = {}
+  ): Promise<AvailableTool[]> {
+    const cassette = options.cassette ?? this.cassette;
+    if (cassette?.mode === "replay") {
+      return [...this.defaultTools, ...cassette.getTools()];
+    }
+
     const toolsByClient = await Promise.all(
-      Object.entries(this.clients).map(async ([clientName, client]) => {
-        const { tools }: { tools: ClientTool[] } = await client.listTools();
-        return { clientName, tools };
-      })
+      Object.keys(this.clients).map(async (clientName) => ({
+        clientName,
+        tools: await this.listClientTools(clientName),
+      }))
     );
 
-    const availableToolsFromClients: AvailableTool[] = toolsByClient.flatMap(
-      ({ clientName, tools }) =>
-        tools.map((tool) => ({
+    // Names exposed before resolving collisions (explicit prefixes are always applied)
+    const candidates = toolsByClient.flatMap(({ clientName, tools }) =>
+      tools.map((tool) => {
+        const prefix = this.clientOptions[clientName]?.toolPrefix;
+        return {
           clientName,
-          type: "function" as const,
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.inputSchema,
-          },
-        }))
+          tool,
+          name: prefix ? namespaceToolName(prefix, tool.name) : tool.name,
+          hasPrefix: Boolean(prefix),
+        };
+      })
     );
 
+    const occurrences = new Map<string, number>();
+    for (const name of [
+      ...this.defaultTools.map((t) => t.function.name),
+      ...candidates.map((c) => c.name),
+    ]) {
+      occurrences.set(name, (occurrences.get(name) ?? 0) + 1);
+    }
+
+    const seenNames = new Set(this.defaultTools.map((t) => t.function.name));
+    const availableToolsFromClients: AvailableTool[] = [];
+    for (const { clientName, tool, name, hasPrefix } of candidates) {
+      const shouldNamespace =
+        !hasPrefix &&
+        (this.toolNamespacing === "always" ||
+          (this.toolNamespacing === "collisions" &&
+            (occurrences.get(name) ?? 0) > 1));
+      const exposedName = shouldNamespace
+        ? namespaceToolName(clientName, tool.name)
+        : name;
+
+      if (seenNames.has(exposedName)) {
+        console.warn(
+          `[ClientsRegistry]: tool "${exposedName}" from "${clientName}" collides with another tool and will be ignored`
+        );
+        continue;
+      }
+      seenNames.add(exposedName);
+
+      availableToolsFromClients.push({
+        clientName,
+        ...(exposedName !== tool.name && { originalName: tool.name }),
+        type: "function",
+        function: {
+          name: exposedName,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        },
+      });
+    }
+
+    cassette?.recordTools(availableToolsFromClients);
     return [...this.defaultTools, ...availableToolsFromClients];
   }
 
+  /**
+   * Drops the cached tool listings and queries every client again.
+   */
+  public async refreshTools(): Promise<AvailableTool[]> {
+    this.toolsCache = {};
+    return this.getTools();
+  }
+
   public async getClientsNames(): Promise<string[]> {
     return Object.keys(this.clients);
   }
 
   /**
-   * Invokes a tool call. It finds which registered client exposes the given function name,
-   * parses the JSON arguments, and calls client.callTool().
+   * Invokes a tool call. It finds which registered client exposes the given function name
+   * (resolving namespaced names back to the name on the server), parses the JSON arguments,
+   * and calls client.callTool().
+   *
+   * Calls are bounded by the per-tool / per-server / default timeout: a timed-out call
+   * resolves to an MCP error result (isError: true) describing the timeout, so that it
+   * can be reported back to the LLM instead of blocking the agent loop.
    *
    * @param toolCall  - an object of shape { function: { name, arguments } }
+   * @param options   - optional AbortSignal to cancel the call
    * @returns         - whatever the underlying client.callTool(...) returns
    */
-  public async callTool(toolCall: ToolCall): Promise<any> {
+  public async callTool(
+    toolCall: ToolCall,
+    options: CallToolOptions = {}
+  ): Promise<any> {
     const functionName = toolCall.function.name;
     const argsObject = JSON.parse(toolCall.function.arguments ?? "{}");
+    const cassette = options.cassette ?? this.cassette;
 
-    // Re‐query the available tools to find which clientName owns this function
-    const allTools = await this.getTools();
+    // Look up the (cached) available tools to find which clientName owns this function
+    const allTools = await this.getTools({ cassette });
     const matching = allTools.find((t) => t.function.name === functionName);
     if (!matching) {
       throw new Error(
@@ -153,28 +523,239 @@ export class ClientsRegistry {
       return;
     }
 
+    if (cassette?.mode === "replay") {
+      return cassette.replayToolCall(functionName, argsObject);
+    }
+
     const client = this.clients[matching.clientName];
     if (!client) {
       throw new Error(`Client "${matching.clientName}" is not registered.`);
     }
 
-    return client.callTool({
-      name: functionName,
-      arguments: argsObject,
-    });
+    const toolName = matching.originalName ?? functionName;
+    const timeoutMs = this.getToolTimeout(matching.clientName, toolName);
+    try {
+      const result = await client.callTool(
+        {
+          name: toolName,
+          arguments: argsObject,
+        },
+        undefined,
+        { signal: options.signal, timeout: timeoutMs }
+      );
+      cassette?.recordToolCall(functionName, argsObject, { result });
+      return result;
+    } catch (error) {
+      if (
+        error instanceof McpError &&
+        error.code === ErrorCode.RequestTimeout
+      ) {
+        const result = {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Tool "${functionName}" timed out after ${timeoutMs}ms.`,
+            },
+          ],
+          error: {
+            type: "timeout",
+            tool: functionName,
+            timeoutMs,
+          },
+        };
+        cassette?.recordToolCall(functionName, argsObject, { result });
+        return result;
+      }
+      if (!options.signal?.aborted) {
+        cassette?.recordToolCall(functionName, argsObject, { error });
+      }
+      throw error;
+    }
+  }
+
+  private getToolTimeout(clientName: string, toolName: string): number {
+    const clientOptions = this.clientOptions[clientName];
+    return (
+      clientOptions?.toolTimeouts?.[toolName] ??
+      clientOptions?.timeoutMs ??
+      this.defaultToolTimeoutMs
+    );
   }
 
   public async closeClient(name: string): Promise<void> {
-    const client = this.clients[name];
-    if (!client) {
+    if (!this.registrations[name]) {
       throw new Error(`Client "${name}" is not registered.`);
     }
-    await client.close();
+    const client = this.clients[name];
+    // Remove the client before closing it, so that onclose isn't treated as a crash
+    delete this.clients[name];
+    delete this.registrations[name];
+    delete this.clientOptions[name];
+    delete this.statuses[name];
+    clearTimeout(this.restartTimers[name]);
+    delete this.restartTimers[name];
+    this.invalidateTools(name);
+    await client?.close();
   }
 
   public async cleanup(): Promise<void> {
+    clearInterval(this.healthCheckTimer);
     await Promise.all(
-      Object.keys(this.clients).map((key) => this.closeClient(key))
+      Object.keys(this.registrations).map((key) => this.closeClient(key))
+    );
+  }
+
+  private listClientTools(clientName: string): Promise<ClientTool[]> {
+    if (!this.toolsCache[clientName]) {
+      const listing = this.clients[clientName]
+        .listTools()
+        .then(({ tools }) => tools as ClientTool[]);
+      this.toolsCache[clientName] = listing;
+      // Don't keep failed listings around, the next call will try again
+      listing.catch(() => {
+        if (this.toolsCache[clientName] === listing) {
+          this.invalidateTools(clientName);
+        }
+      });
+    }
+    return this.toolsCache[clientName];
+  }
+
+  private invalidateTools(clientName: string) {
+    delete this.toolsCache[clientName];
+  }
+
+  private createTransport(registration: ClientRegistration): Transport {
+    const { transportType, commandOrUrl, args, env, remoteOptions } =
+      registration;
+
+    if (transportType === "stdio") {
+      const transport = new StdioClientTransport({
+        command: commandOrUrl,
+        args,
+        env,
+        stderr: "pipe",
+      });
+
+      if (transport.stderr) {
+        transport.stderr.on("data", () => {
+          // no-op: silently discard logs
+        });
+      }
+      return transport;
+    }
+
+    if (transportType === "streamable-http" || transportType === "sse") {
+      const headers: Record<string, string> = { ...remoteOptions.headers };
+      if (remoteOptions.bearerToken) {
+        headers["Authorization"] = `Bearer ${remoteOptions.bearerToken}`;
+      }
+      const url = new URL(commandOrUrl);
+      return transportType === "streamable-http"
+        ? new StreamableHTTPClientTransport(url, { requestInit: { headers } })
+        : new SSEClientTransport(url, { requestInit: { headers } });
+    }
+
+    throw new Error(`Unsupported transport type: ${transportType}`);
+  }
+
+  private async connect(
+    name: string,
+    registration: ClientRegistration
+  ): Promise<Client> {
+    const transport = this.createTransport(registration);
+    const client = new Client({ name, version: "1.0.0" });
+    await client.connect(transport);
+
+    // Added to the clients by the caller, once it knows the registration is still current
+    this.invalidateTools(name);
+    client.setNotificationHandler(
+      ToolListChangedNotificationSchema,
+      async () => {
+        this.invalidateTools(name);
+      }
     );
+    // The transport closes when the server process exits or the connection drops
+    client.onclose = () => {
+      this.handleClientFailure(
+        name,
+        client,
+        new Error("Connection closed unexpectedly")
+      );
+    };
+    return client;
+  }
+
+  /**
+   * Removes a crashed client and schedules its reconnection.
+   * No-op if the client was closed on purpose or already replaced.
+   */
+  private handleClientFailure(name: string, client: Client, error: unknown) {
+    if (this.clients[name] !== client) return;
+
+    delete this.clients[name];
+    this.invalidateTools(name);
+    this.setStatus(name, {
+      state: "restarting",
+      lastError: (error as Error)?.message ?? String(error),
+      restartAttempts: 0,
+    });
+    this.scheduleRestart(name, 0);
+  }
+
+  private scheduleRestart(name: string, attempt: number) {
+    if (attempt >= this.health.maxRestartAttempts) {
+      this.setStatus(name, {
+        ...this.statuses[name],
+        state: "failed",
+        restartAttempts: attempt,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      this.health.restartInitialDelayMs * 2 ** attempt,
+      this.health.restartMaxDelayMs
+    );
+    this.restartTimers[name] = setTimeout(async () => {
+      delete this.restartTimers[name];
+      const registration = this.registrations[name];
+      // The client has been closed while waiting
+      if (!registration) return;
+
+      try {
+        const client = await this.connect(name, registration);
+        if (this.registrations[name] !== registration) {
+          // Closed (and maybe registered again) while reconnecting, the entry of
+          // the new client is left as is
+          if (this.clients[name] === client) delete this.clients[name];
+          await client.close();
+          return;
+        }
+        this.clients[name] = client;
+        this.setStatus(name, {
+          ...this.statuses[name],
+          state: "connected",
+          restartAttempts: attempt + 1,
+        });
+      } catch (error) {
+        this.setStatus(name, {
+          ...this.statuses[name],
+          state: "restarting",
+          lastError: (error as Error)?.message ?? String(error),
+          restartAttempts: attempt + 1,
+        });
+        this.scheduleRestart(name, attempt + 1);
+      }
+    }, delay);
+  }
+
+  private setStatus(
+    name: string,
+    status: Omit<ClientStatus, "name" | "updatedAt">
+  ) {
+    this.statuses[name] = { ...status, name, updatedAt: Date.now() };
+    this.health.onStatusChange?.(this.statuses[name]);
   }
 }
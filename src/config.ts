@@ -1,16 +1,252 @@
 import { z } from "zod";
 import fs from "fs";
 
+const toolApprovalPolicySchema = z.enum(["auto", "confirm", "deny"]);
+
+const isValidRegExp = (pattern: string) => {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A policy, or a policy applied only when the JSON arguments of the call match
+// argumentsPattern (case-insensitive regular expression)
+const toolApprovalRuleSchema = z.union([
+  toolApprovalPolicySchema,
+  z.object({
+    policy: toolApprovalPolicySchema,
+    // Checked when the config is loaded rather than in the middle of a run
+    argumentsPattern: z
+      .string()
+      .refine(isValidRegExp, {
+        message: "argumentsPattern must be a valid regular expression",
+      })
+      .optional(),
+  }),
+]);
+
+const chunkSizeOptionsSchema = z.object({
+  chunkSize: z.number().int().positive(),
+  chunkOverlapPercentage: z.number().min(0).max(100),
+});
+
+// How the indexed files and the memories are split into chunks
+export const textSplitterSchema = z.discriminatedUnion("strategy", [
+  // Paragraphs, then lines, words and characters (chunkSize in characters)
+  z.object({
+    strategy: z.literal("recursive-character-chunker"),
+    options: chunkSizeOptionsSchema,
+  }),
+  // Word boundaries (chunkSize in estimated tokens)
+  z.object({
+    strategy: z.literal("token-chunker"),
+    options: chunkSizeOptionsSchema,
+  }),
+  // Markdown sections, each chunk starting with the path of its section
+  z.object({
+    strategy: z.literal("markdown-heading-chunker"),
+    options: chunkSizeOptionsSchema,
+  }),
+  // Windows of whole sentences, overlapping by overlapSentences sentences
+  z.object({
+    strategy: z.literal("sentence-window-chunker"),
+    options: z.object({
+      chunkSize: z.number().int().positive(),
+      overlapSentences: z.number().int().min(0).optional().default(1),
+    }),
+  }),
+  // Top-level functions and classes of source files, other files as recursive-character-chunker
+  z.object({
+    strategy: z.literal("code-chunker"),
+    options: chunkSizeOptionsSchema,
+  }),
+]);
+
+// "vector" ranks the chunks by embedding similarity, "hybrid" fuses this ranking
+// with a full-text one (reciprocal rank fusion) to find exact identifiers and codes
+export const ragSearchSchema = z
+  .object({
+    mode: z.enum(["vector", "hybrid"]).optional().default("vector"),
+    // Weights of the vector and full-text rankings in hybrid mode
+    vectorWeight: z.number().min(0).optional().default(1),
+    fullTextWeight: z.number().min(0).optional().default(1),
+    // Constant of reciprocal rank fusion, higher values flatten the rank differences
+    rrfK: z.number().positive().optional().default(60),
+  })
+  .optional()
+  .default({});
+
 const configSchema = z.object({
   systemPrompt: z.string(),
   maxToolcallsPerInteraction: z.number(),
+  // How many tool calls requested in the same LLM turn can run concurrently
+  maxParallelToolCalls: z.number().int().positive().optional().default(4),
+  // Sub-agents spawned through the built-in spawn_subagent tool
+  subagents: z
+    .object({
+      maxInteractions: z.number().int().positive().optional().default(5),
+      // How many levels of sub-agents can be nested (0 disables the tool)
+      maxDepth: z.number().int().min(0).optional().default(1),
+    })
+    .optional()
+    .default({}),
   model: z.string(),
   // Useful if you need to use a reasoning or powerful model as the main one
   // But you want to keep a smaller model for things like chat title generation or
   // other non-critical tasks
   helperModel: z.string().optional(),
+  // Base URL of the default "openai" provider
   baseURL: z.string().optional(),
+  // LLM providers by name. An "openai" provider (OPENAI_API_KEY and baseURL) is always
+  // available, "openai-compatible" covers Gemini, Ollama, vLLM... API keys are read from
+  // the environment variable named by apiKeyEnv
+  providers: z
+    .record(
+      z.string(),
+      z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("openai"),
+          apiKeyEnv: z.string().optional(),
+          baseURL: z.string().optional(),
+        }),
+        z.object({
+          type: z.literal("openai-compatible"),
+          baseURL: z.string(),
+          apiKeyEnv: z.string().optional(),
+          // Whether the endpoint supports stream_options.include_usage
+          streamUsage: z.boolean().optional(),
+        }),
+        z.object({
+          type: z.literal("anthropic"),
+          apiKeyEnv: z.string().optional(),
+          baseURL: z.string().optional(),
+          maxTokens: z.number().int().positive().optional(),
+        }),
+      ])
+    )
+    .optional()
+    .default({}),
+  // Provider name of each model, e.g. { "gemini-2.5-flash": "gemini" }
+  modelProviders: z.record(z.string(), z.string()).optional().default({}),
+  // Provider of the models missing from modelProviders
+  defaultProvider: z.string().optional().default("openai"),
+  // Retries of the LLM requests failing with a rate limit (429), server (5xx) or network
+  // error, with exponential backoff and jitter. Retry-After delays are honoured
+  llmRetry: z
+    .object({
+      maxRetries: z.number().int().min(0).optional().default(3),
+      initialDelayMs: z.number().int().positive().optional().default(1000),
+      maxDelayMs: z.number().int().positive().optional().default(30000),
+    })
+    .optional()
+    .default({}),
+  // Models used in order when the requests to model keep failing, each one can be served
+  // by another provider, e.g. [{ "model": "gemini-2.5-flash", "provider": "gemini" }]
+  fallbackModels: z
+    .array(z.object({ model: z.string(), provider: z.string().optional() }))
+    .optional()
+    .default([]),
+  // Price of the models in USD per million tokens, used to estimate the cost of each
+  // answer and conversation. Models without a price only report their token usage
+  modelPrices: z
+    .record(
+      z.string(),
+      z.object({
+        input: z.number().min(0),
+        // Price of the prompt tokens served from the cache, defaults to the input price
+        cachedInput: z.number().min(0).optional(),
+        output: z.number().min(0),
+      })
+    )
+    .optional()
+    .default({}),
   enableStreaming: z.boolean().optional().default(false),
+  // How tools with the same name exposed by different MCP servers are exposed to the LLM:
+  // "collisions" prefixes only clashing tools with the server name (e.g. "filesystem__read_file"),
+  // "always" prefixes every MCP tool, "none" never prefixes (the first tool wins)
+  toolNamespacing: z
+    .enum(["collisions", "always", "none"])
+    .optional()
+    .default("collisions"),
+  // Health monitoring (MCP ping) and automatic restart of crashed MCP servers
+  mcpHealth: z
+    .object({
+      // 0 disables the periodic health checks
+      healthCheckIntervalMs: z.number().int().min(0).optional().default(30000),
+      healthCheckTimeoutMs: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(5000),
+      maxRestartAttempts: z.number().int().min(0).optional().default(5),
+      restartInitialDelayMs: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1000),
+      restartMaxDelayMs: z.number().int().positive().optional().default(30000),
+    })
+    .optional()
+    .default({}),
+  // Default timeout of MCP tool calls, can be overridden per server (timeoutMs)
+  // and per tool (toolTimeouts). A timed out call is reported to the LLM as a tool error
+  toolTimeoutMs: z.number().int().positive().optional().default(60000),
+  // "report" sends tool errors (malformed arguments, unknown tools, failing calls) back to
+  // the LLM as tool messages so that it can recover, "throw" stops the run with the error
+  toolErrors: z.enum(["report", "throw"]).optional().default("report"),
+  // Failed tool calls in a row after which the run is stopped
+  maxConsecutiveToolFailures: z.number().int().positive().optional().default(3),
+  // Human-in-the-loop approval of tool calls: "auto" runs the tool, "confirm" asks the user
+  // to approve, edit or reject the call first, "deny" never runs it.
+  // Tool rules (by exposed name or name on the server) take precedence over server rules
+  toolApproval: z
+    .object({
+      default: toolApprovalPolicySchema.optional().default("auto"),
+      servers: z.record(z.string(), toolApprovalRuleSchema).optional(),
+      tools: z.record(z.string(), toolApprovalRuleSchema).optional(),
+    })
+    .optional()
+    .default({}),
+  // Path of a cassette file recording the LLM requests and MCP tool calls of every answer,
+  // to be replayed offline (e.g. in tests) with Cassette.load
+  recordCassette: z.string().optional(),
+  // Context window management: once the estimated tokens of the conversation go over
+  // maxContextTokens (0 disables), the oldest tool outputs are summarized with the helper
+  // model or truncated. The system prompt and the last keepRecentTurns turns are kept as is
+  contextManagement: z
+    .object({
+      maxContextTokens: z.number().int().min(0).optional().default(100000),
+      keepRecentTurns: z.number().int().min(0).optional().default(2),
+      strategy: z
+        .enum(["summarize", "truncate"])
+        .optional()
+        .default("summarize"),
+      // Tokens kept at the beginning of a truncated tool output
+      truncatedOutputTokens: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(200),
+    })
+    .optional()
+    .default({}),
+  // Tool results longer than maxToolResultChars once serialized (0 disables) are stored as
+  // artifacts: the LLM gets a preview of previewChars and reads the rest with read_artifact
+  artifacts: z
+    .object({
+      maxToolResultChars: z.number().int().min(0).optional().default(20000),
+      previewChars: z.number().int().positive().optional().default(2000),
+      // Maximum characters returned by each read_artifact call
+      pageChars: z.number().int().positive().optional().default(10000),
+    })
+    .optional()
+    .default({}),
   // Whether to perform RAG queries at each interaction
   performRAGQueries: z.boolean().optional().default(false),
 
@@ -19,23 +255,60 @@ const configSchema = z.object({
     filesystemIndexing: z
       .object({
         workspaceDir: z.string(),
+        // Tags given to the indexed files, to filter the retrieval by
+        tags: z.array(z.string()).optional(),
       })
       .optional(),
-    textSplitter: z.object({
-      strategy: z.string(),
-      options: z.object({
-        chunkSize: z.number(),
-        chunkOverlapPercentage: z.number(),
-      }),
-    }),
+    // Collection of the files and memories of the agent: agents sharing the database
+    // with another namespace don't see them
+    namespace: z.string().min(1).optional().default("default"),
+    textSplitter: textSplitterSchema,
+    search: ragSearchSchema,
+    // Reranks more candidates than needed with helperModel, then keeps the best ones
+    rerank: z
+      .object({
+        enabled: z.boolean().optional().default(false),
+        // Candidates fetched from the search and reranked for each query
+        candidates: z.number().int().positive().optional().default(20),
+      })
+      .optional()
+      .default({}),
   }),
   mcpServers: z
     .record(
-      z.object({
-        command: z.string(),
-        args: z.array(z.string()),
-        env: z.record(z.string(), z.string()).optional(),
-      })
+      z.union([
+        // Local server spawned as a child process (stdio transport)
+        z.object({
+          command: z.string(),
+          args: z.array(z.string()),
+          env: z.record(z.string(), z.string()).optional(),
+          // Prefix always applied to the tools of this server, e.g. "fs" => "fs__read_file"
+          toolPrefix: z.string().optional(),
+          timeoutMs: z.number().int().positive().optional(),
+          // Timeouts of specific tools, keyed by the tool name on the server
+          toolTimeouts: z
+            .record(z.string(), z.number().int().positive())
+            .optional(),
+        }),
+        // Remote server reached over HTTP
+        z.object({
+          url: z.string().url(),
+          transport: z
+            .enum(["streamable-http", "sse"])
+            .optional()
+            .default("streamable-http"),
+          headers: z.record(z.string(), z.string()).optional(),
+          bearerToken: z.string().optional(),
+          // Name of the environment variable holding the bearer token,
+          // so that secrets don't need to be stored in agent.json
+          bearerTokenEnv: z.string().optional(),
+          toolPrefix: z.string().optional(),
+          timeoutMs: z.number().int().positive().optional(),
+          toolTimeouts: z
+            .record(z.string(), z.number().int().positive())
+            .optional(),
+        }),
+      ])
     )
     .optional(),
 });
@@ -49,3 +322,37 @@ export const agentConfig = {
   // Helper model defaults to the same model as the main model if not specified
   helperModel: partialAgentConfig.helperModel ?? partialAgentConfig.model,
 };
+
+type RAGServerConfig = Pick<
+  typeof agentConfig.rag,
+  "namespace" | "textSplitter" | "search"
+>;
+
+/**
+ * Environment of the RAG MCP server process, so that its tools split and search the
+ * memories of the namespace as configured in agent.json.
+ */
+export const getRAGServerEnv = (rag: RAGServerConfig) => ({
+  RAG_NAMESPACE: rag.namespace,
+  RAG_TEXT_SPLITTER: JSON.stringify(rag.textSplitter),
+  RAG_SEARCH: JSON.stringify(rag.search),
+});
+
+/**
+ * Reads the RAG configuration given by the server to the RAG MCP server process.
+ * @throws when the text splitter or the search configuration is invalid
+ */
+export const parseRAGServerEnv = (
+  env: Record<string, string | undefined>
+): RAGServerConfig => ({
+  namespace: env.RAG_NAMESPACE ?? "default",
+  textSplitter: env.RAG_TEXT_SPLITTER
+    ? textSplitterSchema.parse(JSON.parse(env.RAG_TEXT_SPLITTER))
+    : {
+        strategy: "recursive-character-chunker",
+        options: { chunkSize: 500, chunkOverlapPercentage: 10 },
+      },
+  search: ragSearchSchema.parse(
+    env.RAG_SEARCH ? JSON.parse(env.RAG_SEARCH) : undefined
+  ),
+});
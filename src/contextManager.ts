@@ -0,0 +1,213 @@
+import type { ConversationMessage } from "./tinyAgents.js";
+import type { TokenUsage } from "./usage.js";
+
+/**
+ * How old tool outputs are compacted once the conversation goes over its budget:
+ * - "summarize": the helper model rewrites the output into a short summary
+ * - "truncate": only the beginning of the output is kept
+ */
+export type ContextCompactionStrategy = "summarize" | "truncate";
+
+export interface ContextManagerConfig {
+  // Estimated tokens of the conversation above which old tool outputs are compacted (0 disables)
+  maxContextTokens?: number;
+  // Turns (an assistant message and its tool results) at the end of the conversation
+  // that are always kept as they are
+  keepRecentTurns?: number;
+  strategy?: ContextCompactionStrategy;
+  // Tokens kept at the beginning of a truncated tool output
+  truncatedOutputTokens?: number;
+}
+
+/**
+ * Telemetry for a tool output replaced by a summary or a truncated version.
+ */
+export interface ContextCompaction {
+  toolCallId: string;
+  toolName: string;
+  // "truncated" is also used when the summary could not be generated
+  method: "summarized" | "truncated";
+  tokensBefore: number;
+  tokensAfter: number;
+  // Estimated tokens of the whole conversation when the compaction was triggered
+  contextTokens: number;
+  // Tokens and estimated cost of the summary, if any
+  usage?: TokenUsage;
+  cost?: number;
+  timestamp: number;
+}
+
+export type ToolOutputSummarizer = (
+  content: string,
+  toolName: string
+) => Promise<{ summary: string; usage?: TokenUsage; cost?: number }>;
+
+// Rough average for English text and JSON with the OpenAI tokenizers
+const CHARS_PER_TOKEN = 4;
+// Role, separators and other tokens added by the chat format to each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Compacted outputs start with this marker, so that they are not compacted again
+const COMPACTED_MARKER = "[Tool output ";
+
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Estimates the tokens of a message: its text (or serialized parts) and tool calls.
+ */
+export const countMessageTokens = (message: ConversationMessage): number => {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  if (typeof message.content === "string") {
+    tokens += estimateTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      tokens += estimateTokens(
+        part.type === "text" ? part.text : JSON.stringify(part)
+      );
+    }
+  }
+  if ("tool_calls" in message && message.tool_calls) {
+    for (const toolCall of message.tool_calls) {
+      tokens += estimateTokens(JSON.stringify(toolCall));
+    }
+  }
+  return tokens;
+};
+
+export const countConversationTokens = (
+  conversation: ConversationMessage[]
+): number =>
+  conversation.reduce(
+    (total, message) => total + countMessageTokens(message),
+    0
+  );
+
+const getToolNames = (conversation: ConversationMessage[]) => {
+  const toolNames = new Map<string, string>();
+  for (const message of conversation) {
+    if (message.role !== "assistant" || !message.tool_calls) continue;
+    for (const toolCall of message.tool_calls) {
+      if (toolCall.type === "function") {
+        toolNames.set(toolCall.id, toolCall.function.name);
+      }
+    }
+  }
+  return toolNames;
+};
+
+/**
+ * Index of the first message of the recent turns, which are never compacted.
+ */
+const getRecentTurnsStart = (
+  conversation: ConversationMessage[],
+  keepRecentTurns: number
+): number => {
+  if (keepRecentTurns <= 0) return conversation.length;
+  let turns = 0;
+  for (let i = conversation.length - 1; i >= 0; i--) {
+    if (conversation[i].role === "assistant" && ++turns === keepRecentTurns) {
+      return i;
+    }
+  }
+  return 0;
+};
+
+const truncateOutput = (
+  content: string,
+  tokensBefore: number,
+  truncatedOutputTokens: number
+): string =>
+  `${COMPACTED_MARKER}truncated, ~${tokensBefore} tokens originally]\n${content.slice(
+    0,
+    truncatedOutputTokens * CHARS_PER_TOKEN
+  )}…`;
+
+/**
+ * Keeps the conversation under maxContextTokens by compacting the oldest tool outputs
+ * first, until the estimate fits the budget. The system prompt, the other messages and
+ * the recent turns are kept as they are, and every tool message keeps its tool_call_id,
+ * so the conversation stays valid for the API.
+ *
+ * The conversation is updated in place.
+ * @returns the compactions that were applied, empty when the conversation fits.
+ */
+export const compactConversation = async (
+  conversation: ConversationMessage[],
+  options: {
+    config: Required<ContextManagerConfig>;
+    // Used with the "summarize" strategy, outputs are truncated without it
+    summarize?: ToolOutputSummarizer;
+  }
+): Promise<ContextCompaction[]> => {
+  const { config, summarize } = options;
+  if (config.maxContextTokens <= 0) return [];
+
+  let contextTokens = countConversationTokens(conversation);
+  if (contextTokens <= config.maxContextTokens) return [];
+
+  const toolNames = getToolNames(conversation);
+  const recentTurnsStart = getRecentTurnsStart(
+    conversation,
+    config.keepRecentTurns
+  );
+  const compactions: ContextCompaction[] = [];
+
+  for (let i = 0; i < recentTurnsStart; i++) {
+    if (contextTokens <= config.maxContextTokens) break;
+
+    const message = conversation[i];
+    if (
+      message.role !== "tool" ||
+      typeof message.content !== "string" ||
+      message.content.startsWith(COMPACTED_MARKER)
+    ) {
+      continue;
+    }
+    const tokensBefore = countMessageTokens(message);
+    // Nothing to gain on outputs that are already small
+    if (tokensBefore <= config.truncatedOutputTokens) continue;
+
+    const toolName = toolNames.get(message.tool_call_id) ?? "unknown";
+    let content = truncateOutput(
+      message.content,
+      tokensBefore,
+      config.truncatedOutputTokens
+    );
+    let method: ContextCompaction["method"] = "truncated";
+    let usage: TokenUsage | undefined;
+    let cost: number | undefined;
+
+    if (config.strategy === "summarize" && summarize) {
+      try {
+        const summarized = await summarize(message.content, toolName);
+        usage = summarized.usage;
+        cost = summarized.cost;
+        const summary = `${COMPACTED_MARKER}summarized, ~${tokensBefore} tokens originally]\n${summarized.summary}`;
+        // A summary longer than the output would not help
+        if (estimateTokens(summary) < tokensBefore) {
+          content = summary;
+          method = "summarized";
+        }
+      } catch (error) {
+        console.error(`Error summarizing the output of ${toolName}:`, error);
+      }
+    }
+
+    conversation[i] = { ...message, content };
+    const tokensAfter = countMessageTokens(conversation[i]);
+    compactions.push({
+      toolCallId: message.tool_call_id,
+      toolName,
+      method,
+      tokensBefore,
+      tokensAfter,
+      contextTokens,
+      usage,
+      cost,
+      timestamp: Date.now(),
+    });
+    contextTokens -= tokensBefore - tokensAfter;
+  }
+
+  return compactions;
+};
@@ -1,10 +1,13 @@
 import { Pool } from "pg";
 import { type ConversationMessage } from "./tinyAgents.js";
+import { type UsageWithCost } from "./usage.js";
 
 export type Conversation = {
   id: string;
   name: string;
   messages: ConversationMessage[];
+  // Tokens and estimated cost of all the answers generated in the conversation
+  usage: UsageWithCost;
   created_at: Date;
   updated_at: Date;
 };
@@ -106,6 +109,37 @@ export class ConversationsStorage {
     }
   }
 
+  /**
+   * Add the usage of a new answer to the totals of the conversation
+   */
+  async addConversationUsage(
+    conversationId: string,
+    usage: UsageWithCost
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE conversations SET
+          prompt_tokens = prompt_tokens + $1,
+          completion_tokens = completion_tokens + $2,
+          cached_tokens = cached_tokens + $3,
+          total_tokens = total_tokens + $4,
+          cost = cost + $5
+        WHERE id = $6`,
+        [
+          usage.promptTokens,
+          usage.completionTokens,
+          usage.cachedTokens,
+          usage.totalTokens,
+          usage.cost,
+          conversationId,
+        ]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Delete a conversation
    */
@@ -174,6 +208,14 @@ export class ConversationsStorage {
       id: row.id,
       name: row.name,
       messages,
+      // BIGINT and NUMERIC columns are returned as strings
+      usage: {
+        promptTokens: Number(row.prompt_tokens ?? 0),
+        completionTokens: Number(row.completion_tokens ?? 0),
+        cachedTokens: Number(row.cached_tokens ?? 0),
+        totalTokens: Number(row.total_tokens ?? 0),
+        cost: Number(row.cost ?? 0),
+      },
       created_at: new Date(row.created_at),
       updated_at: new Date(row.updated_at),
     };
@@ -0,0 +1,187 @@
+import type { OpenAI } from "openai";
+import type { ConversationMessage, TinyAgentRunResult } from "./tinyAgents.js";
+import type { TokenUsage } from "./usage.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * State of the run given to every hook.
+ */
+export interface MiddlewareContext {
+  // Model answering the run (a fallback one after a switch)
+  model: string;
+  // Nesting level of the run, 0 for the top-level agent
+  depth: number;
+  // Number of the current LLM turn, starting at 1
+  interaction: number;
+  // Ends the run once the current step is done, the reason is returned in endReason
+  endRun: (reason: string) => void;
+}
+
+export type ToolCallMiddlewareDecision =
+  // Runs the tool with other arguments
+  | { action: "edit"; arguments: Record<string, unknown> }
+  // Answers the LLM with an error instead of running the tool
+  | { action: "block"; reason: string };
+
+export interface ToolCallInfo {
+  toolCallId: string;
+  toolName: string;
+  params: Record<string, unknown>;
+}
+
+export interface ToolCallOutcome extends ToolCallInfo {
+  result: unknown;
+  isError: boolean;
+}
+
+/**
+ * Hooks called by TinyAgent during its runs, sub-agent runs included. Each hook is
+ * optional and can return a value replacing what the agent was about to use; returning
+ * nothing keeps it as is.
+ */
+export interface AgentMiddleware {
+  name: string;
+  /**
+   * Called before each LLM request with the messages about to be sent.
+   * @returns the messages to send instead, the conversation of the run is left as is
+   */
+  beforeLLMCall?(
+    context: MiddlewareContext,
+    request: { messages: ConversationMessage[] }
+  ): MaybePromise<{ messages: ConversationMessage[] } | void>;
+  /**
+   * Called with the answer of the LLM before it is added to the conversation. When
+   * streaming, its text has already been sent to the client. Its tool calls are only
+   * reported to onToolCall once the hooks returned, as they may change them.
+   * @returns the message to add to the conversation instead
+   */
+  afterLLMCall?(
+    context: MiddlewareContext,
+    response: {
+      message: OpenAI.Chat.Completions.ChatCompletionMessage;
+      usage?: TokenUsage;
+    }
+  ): MaybePromise<{
+    message: OpenAI.Chat.Completions.ChatCompletionMessage;
+  } | void>;
+  /**
+   * Called before a tool runs, and before the user is asked to approve it.
+   */
+  beforeToolCall?(
+    context: MiddlewareContext,
+    call: ToolCallInfo
+  ): MaybePromise<ToolCallMiddlewareDecision | void>;
+  /**
+   * Called with the result of a tool before it is sent to the client and the LLM.
+   * @returns the result to use instead, e.g. with secrets redacted
+   */
+  afterToolCall?(
+    context: MiddlewareContext,
+    outcome: ToolCallOutcome
+  ): MaybePromise<{ result: unknown } | void>;
+  /**
+   * Called once the run is over, unless it threw.
+   */
+  onRunEnd?(
+    context: MiddlewareContext,
+    result: TinyAgentRunResult
+  ): MaybePromise<void>;
+}
+
+/**
+ * Runs the hooks of the middlewares in order, each one receiving what the previous
+ * ones returned.
+ */
+export class MiddlewarePipeline {
+  private readonly middlewares: AgentMiddleware[];
+
+  constructor(middlewares: AgentMiddleware[] = []) {
+    this.middlewares = middlewares;
+  }
+
+  /**
+   * Whether an afterLLMCall hook may change the answer of the LLM, tool calls included.
+   */
+  get rewritesAnswers(): boolean {
+    return this.middlewares.some((middleware) => middleware.afterLLMCall);
+  }
+
+  async beforeLLMCall(
+    context: MiddlewareContext,
+    messages: ConversationMessage[]
+  ): Promise<ConversationMessage[]> {
+    for (const middleware of this.middlewares) {
+      const rewritten = await middleware.beforeLLMCall?.(context, {
+        messages,
+      });
+      if (rewritten) messages = rewritten.messages;
+    }
+    return messages;
+  }
+
+  async afterLLMCall(
+    context: MiddlewareContext,
+    message: OpenAI.Chat.Completions.ChatCompletionMessage,
+    usage?: TokenUsage
+  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessage> {
+    for (const middleware of this.middlewares) {
+      const rewritten = await middleware.afterLLMCall?.(context, {
+        message,
+        usage,
+      });
+      if (rewritten) message = rewritten.message;
+    }
+    return message;
+  }
+
+  /**
+   * @returns the arguments to run the tool with, or the reason of the first middleware
+   *          blocking the call
+   */
+  async beforeToolCall(
+    context: MiddlewareContext,
+    call: ToolCallInfo
+  ): Promise<
+    | { action: "run"; params: Record<string, unknown> }
+    | { action: "block"; reason: string; middleware: string }
+  > {
+    let params = call.params;
+    for (const middleware of this.middlewares) {
+      const decision = await middleware.beforeToolCall?.(context, {
+        ...call,
+        params,
+      });
+      if (decision?.action === "block") {
+        return {
+          action: "block",
+          reason: decision.reason,
+          middleware: middleware.name,
+        };
+      }
+      if (decision?.action === "edit") params = decision.arguments;
+    }
+    return { action: "run", params };
+  }
+
+  async afterToolCall(
+    context: MiddlewareContext,
+    outcome: ToolCallOutcome
+  ): Promise<unknown> {
+    let result = outcome.result;
+    for (const middleware of this.middlewares) {
+      const rewritten = await middleware.afterToolCall?.(context, {
+        ...outcome,
+        result,
+      });
+      if (rewritten) result = rewritten.result;
+    }
+    return result;
+  }
+
+  async onRunEnd(context: MiddlewareContext, result: TinyAgentRunResult) {
+    for (const middleware of this.middlewares) {
+      await middleware.onRunEnd?.(context, result);
+    }
+  }
+}
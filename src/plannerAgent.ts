@@ -1,5 +1,6 @@
 import {
   getAvailableCommandsString,
+  handleAgentPrompts,
   printAgentMessage,
   printLogo,
   printMcpMessage,
@@ -103,6 +104,8 @@ try {
     );
   });
 
+  handleAgentPrompts(socket);
+
   socket.on("tool-call-result", (toolCallResult: ToolCallResult) => {
     baseMessages.push({
       role: "tool",
@@ -111,9 +114,9 @@ try {
       type: "function_call_output",
     });
     printMcpMessage(
-      `${toolCallResult.toolName} completed in ${(
-        toolCallResult.durationMs / 1000
-      ).toFixed(2)}s\n`
+      `${toolCallResult.toolName} ${
+        toolCallResult.isError ? "failed" : "completed"
+      } in ${(toolCallResult.durationMs / 1000).toFixed(2)}s\n`
     );
   });
 
@@ -218,6 +218,20 @@ No retrieval:
 []
 `;
 
+export const getRerankPrompt = () => `
+You are an expert at judging search results for RAG systems.
+
+Given a query and numbered passages retrieved for it, score how useful each passage is to answer the query:
+- 1: answers the query or contains the exact identifiers, names or codes asked for.
+- 0.5: related to the query, gives useful context.
+- 0: unrelated, or only shares a few words with the query.
+
+Rules:
+1. Score every passage, with its number as "index" and a score between 0 and 1.
+2. Judge each passage on its content only, not on its position in the list.
+3. Output only the scores.
+`;
+
 export const getPlanPrompt = () => `
 You are an expert AI workflow designer.  
 Your task is to take a high-level goal and break it into a sequence of concrete, manageable steps.  
@@ -245,3 +259,22 @@ Output Format:
   ]
 }
 `;
+
+export const getSubagentSystemPrompt = () => `
+You are a focused sub-agent spawned by another agent to accomplish a single, well-defined goal.
+
+Rules:
+1. Work only on the goal you have been given, using the tools available to you when needed.
+2. Do not ask the user questions: you are not talking to the user but to the agent that spawned you.
+3. When you are done, reply with a concise and self-contained final answer: it will be returned as-is to the parent agent.
+`;
+
+export const getToolOutputSummaryPrompt = (toolName: string) => `
+You compress the output of the tool "${toolName}" so that an agent can keep working with a smaller context.
+
+Rules:
+1. Keep every fact the agent may still need: identifiers, names, numbers, paths, URLs, errors and conclusions.
+2. Drop boilerplate, markup, repeated content and navigation elements.
+3. Do not add comments or information that is not in the output.
+4. Reply with the summary only, in plain text.
+`;
@@ -0,0 +1,493 @@
+import type { OpenAI } from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import type { z } from "zod";
+import {
+  LLMProviderError,
+  parseRetryAfter,
+  type ChatCompletionRequest,
+  type LLMProvider,
+  type LLMRequestOptions,
+} from "./LLMProvider.ts";
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  // Maximum tokens of each response, required by the Messages API (default 4096)
+  maxTokens?: number;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+};
+
+type AnthropicUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+};
+
+type AnthropicResponse = {
+  id: string;
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: AnthropicUsage;
+};
+
+type ChatCompletionChunk = OpenAI.Chat.Completions.ChatCompletionChunk;
+type FinishReason =
+  OpenAI.Chat.Completions.ChatCompletion.Choice["finish_reason"];
+
+const getTextContent = (
+  content: OpenAI.Chat.Completions.ChatCompletionMessageParam["content"]
+): string => {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+};
+
+const parseToolArguments = (args: string): unknown => {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    // The Messages API only accepts objects as tool inputs
+    return {};
+  }
+};
+
+/**
+ * Converts OpenAI messages to the Messages API: system messages become the system
+ * prompt, tool calls become tool_use blocks and tool messages tool_result blocks sent
+ * by the user. Consecutive messages of the same role are merged.
+ */
+const toAnthropicMessages = (
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+): { system: string; messages: AnthropicMessage[] } => {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const append = (
+    role: AnthropicMessage["role"],
+    blocks: AnthropicContentBlock[]
+  ) => {
+    if (blocks.length === 0) return;
+    const last = converted[converted.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    const text = getTextContent(message.content);
+    switch (message.role) {
+      case "system":
+      case "developer":
+        if (text) system.push(text);
+        break;
+      case "user":
+        append("user", text ? [{ type: "text", text }] : []);
+        break;
+      case "assistant": {
+        const blocks: AnthropicContentBlock[] = text
+          ? [{ type: "text", text }]
+          : [];
+        for (const toolCall of message.tool_calls ?? []) {
+          if (toolCall.type !== "function") continue;
+          blocks.push({
+            type: "tool_use",
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseToolArguments(toolCall.function.arguments),
+          });
+        }
+        append("assistant", blocks);
+        break;
+      }
+      case "tool":
+        append("user", [
+          {
+            type: "tool_result",
+            tool_use_id: message.tool_call_id,
+            content: text,
+          },
+        ]);
+        break;
+    }
+  }
+
+  return { system: system.join("\n\n"), messages: converted };
+};
+
+const toToolChoice = (toolChoice: ChatCompletionRequest["tool_choice"]) => {
+  if (toolChoice === "required") return { type: "any" };
+  if (toolChoice === "none") return { type: "none" };
+  return { type: "auto" };
+};
+
+const toFinishReason = (
+  stopReason: string | null,
+  hasToolCalls = true
+): FinishReason => {
+  // A call to the output tool of a response format is the answer, not a tool call
+  if (stopReason === "tool_use") return hasToolCalls ? "tool_calls" : "stop";
+  if (stopReason === "max_tokens") return "length";
+  return "stop";
+};
+
+const toCompletionUsage = (
+  usage: AnthropicUsage
+): OpenAI.Completions.CompletionUsage => {
+  // input_tokens only counts the tokens after the last cache breakpoint
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  const promptTokens =
+    usage.input_tokens +
+    cachedTokens +
+    (usage.cache_creation_input_tokens ?? 0);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: usage.output_tokens,
+    total_tokens: promptTokens + usage.output_tokens,
+    prompt_tokens_details: { cached_tokens: cachedTokens },
+  };
+};
+
+/**
+ * Provider of the Anthropic Messages API. Requests and responses are converted
+ * from and to the format of the OpenAI Chat Completions API.
+ */
+export class AnthropicProvider implements LLMProvider {
+  private readonly apiKey: string;
+  private readonly baseURL: string;
+  private readonly maxTokens: number;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.baseURL = (config.baseURL ?? "https://api.anthropic.com").replace(
+      /\/+$/,
+      ""
+    );
+    this.maxTokens = config.maxTokens ?? 4096;
+  }
+
+  async createChatCompletion(
+    request: ChatCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    const response = await this.sendRequest(
+      this.getRequestBody(request),
+      options.signal
+    );
+    const message: AnthropicResponse = await response.json();
+    const outputToolName = request.response_format?.json_schema.name;
+
+    let text = message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall[] =
+      [];
+    for (const block of message.content) {
+      if (block.type !== "tool_use") continue;
+      if (block.name === outputToolName) {
+        // The input of the output tool is the JSON answer
+        text = JSON.stringify(block.input);
+        continue;
+      }
+      toolCalls.push({
+        id: block.id,
+        type: "function",
+        function: { name: block.name, arguments: JSON.stringify(block.input) },
+      });
+    }
+
+    return {
+      id: message.id,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: message.model,
+      choices: [
+        {
+          index: 0,
+          finish_reason: toFinishReason(
+            message.stop_reason,
+            toolCalls.length > 0
+          ),
+          logprobs: null,
+          message: {
+            role: "assistant",
+            content: text || null,
+            refusal: null,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+        },
+      ],
+      usage: toCompletionUsage(message.usage),
+    };
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const response = await this.sendRequest(
+      { ...this.getRequestBody(request), stream: true },
+      options.signal
+    );
+    return this.readStream(
+      response,
+      request.model,
+      request.response_format?.json_schema.name,
+      options.signal
+    );
+  }
+
+  async parseChatCompletion<T>(
+    request: Omit<
+      ChatCompletionRequest,
+      "tools" | "tool_choice" | "response_format"
+    >,
+    schema: z.ZodType<T>,
+    schemaName: string,
+    options: LLMRequestOptions = {}
+  ): Promise<T | null> {
+    const { json_schema } = zodResponseFormat(schema, schemaName);
+    const completion = await this.createChatCompletion(
+      { ...request, response_format: { type: "json_schema", json_schema } },
+      options
+    );
+    const { content } = completion.choices[0].message;
+    if (!content) {
+      return null;
+    }
+    return schema.parse(JSON.parse(content));
+  }
+
+  /**
+   * The Messages API has no response format: the expected object is the input of an
+   * output tool. Without other tools the model is forced to call it, with tools it
+   * must call one of them, the output tool ending the turn.
+   */
+  private getRequestBody(request: ChatCompletionRequest) {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const tools = (request.tools ?? [])
+      .filter((tool) => tool.type === "function")
+      .map((tool) => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters ?? { type: "object" },
+      }));
+    let toolChoice: object = toToolChoice(request.tool_choice);
+    const outputSchema = request.response_format?.json_schema;
+    if (outputSchema) {
+      if (request.tool_choice === "none") tools.length = 0;
+      toolChoice =
+        tools.length > 0
+          ? { type: "any" }
+          : { type: "tool", name: outputSchema.name };
+      tools.push({
+        name: outputSchema.name,
+        description:
+          outputSchema.description ??
+          `Reply with the ${outputSchema.name} object, this is your final answer`,
+        input_schema: outputSchema.schema ?? { type: "object" },
+      });
+    }
+    return {
+      model: request.model,
+      max_tokens: this.maxTokens,
+      ...(system ? { system } : {}),
+      messages,
+      ...(tools.length > 0 ? { tools, tool_choice: toolChoice } : {}),
+    };
+  }
+
+  private async sendRequest(
+    body: object,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": this.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LLMProviderError(
+        `Could not reach the Anthropic API: ${(error as Error).message}`,
+        "anthropic"
+      );
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        message = JSON.parse(text).error?.message ?? text;
+      } catch {
+        // Not a JSON error, keep the raw body
+      }
+      throw new LLMProviderError(
+        `Anthropic API error ${response.status}: ${message}`,
+        "anthropic",
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Converts the server-sent events of the Messages API to chat completion chunks.
+   */
+  private async *readStream(
+    response: Response,
+    model: string,
+    outputToolName?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionChunk> {
+    let id = "";
+    let inputUsage: AnthropicUsage | undefined;
+    let outputTokens = 0;
+    let finishReason: FinishReason = "stop";
+    // Index of each tool_use block among the tool calls of the message
+    const toolCallIndexes = new Map<number, number>();
+    // tool_use block of the output tool, streamed as the text of the answer
+    let outputBlockIndex: number | undefined;
+
+    const chunk = (
+      delta: ChatCompletionChunk["choices"][number]["delta"],
+      finish_reason: FinishReason | null = null
+    ): ChatCompletionChunk => ({
+      id,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, delta, finish_reason, logprobs: null }],
+    });
+
+    for await (const event of readServerSentEvents(response, signal)) {
+      switch (event.type) {
+        case "message_start":
+          id = event.message.id;
+          inputUsage = event.message.usage;
+          break;
+        case "content_block_start": {
+          const block = event.content_block;
+          if (block.type === "tool_use" && block.name === outputToolName) {
+            outputBlockIndex = event.index;
+          } else if (block.type === "tool_use") {
+            const index = toolCallIndexes.size;
+            toolCallIndexes.set(event.index, index);
+            yield chunk({
+              tool_calls: [
+                {
+                  index,
+                  id: block.id,
+                  type: "function",
+                  function: { name: block.name, arguments: "" },
+                },
+              ],
+            });
+          } else if (block.type === "text" && block.text) {
+            yield chunk({ content: block.text });
+          }
+          break;
+        }
+        case "content_block_delta":
+          if (event.delta.type === "text_delta") {
+            yield chunk({ content: event.delta.text });
+          } else if (
+            event.delta.type === "input_json_delta" &&
+            event.index === outputBlockIndex
+          ) {
+            yield chunk({ content: event.delta.partial_json });
+          } else if (event.delta.type === "input_json_delta") {
+            yield chunk({
+              tool_calls: [
+                {
+                  index: toolCallIndexes.get(event.index) ?? 0,
+                  function: { arguments: event.delta.partial_json },
+                },
+              ],
+            });
+          }
+          break;
+        case "message_delta":
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          finishReason = toFinishReason(
+            event.delta?.stop_reason ?? null,
+            toolCallIndexes.size > 0
+          );
+          break;
+        case "error":
+          throw new LLMProviderError(
+            `Anthropic API error: ${event.error?.message}`,
+            "anthropic"
+          );
+      }
+    }
+
+    yield chunk({}, finishReason);
+    if (inputUsage) {
+      yield {
+        ...chunk({}),
+        choices: [],
+        usage: toCompletionUsage({
+          ...inputUsage,
+          output_tokens: outputTokens,
+        }),
+      };
+    }
+  }
+}
+
+/**
+ * Reads the JSON data of the server-sent events of a response.
+ */
+async function* readServerSentEvents(response: Response, signal?: AbortSignal) {
+  if (!response.body) return;
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for await (const bytes of response.body as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true }).replace(/\r\n/g, "\n");
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = rawEvent
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (data) yield JSON.parse(data);
+      }
+    }
+  } catch (error) {
+    // Handled as the errors of the request, so that the agent can retry or fall back
+    if (signal?.aborted) throw error;
+    throw new LLMProviderError(
+      `The Anthropic stream was interrupted: ${(error as Error).message}`,
+      "anthropic"
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import type { OpenAI } from "openai";
+import type { z } from "zod";
+
+/**
+ * Chat completion request, in the format of the OpenAI Chat Completions API.
+ * Providers with another API convert it to their own format.
+ */
+export type ChatCompletionRequest = {
+  model: string;
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  tools?: OpenAI.Chat.ChatCompletionTool[];
+  tool_choice?: "auto" | "none" | "required";
+  // Asks for a JSON answer matching the schema (structured output). With tools, the
+  // model can still call them before answering
+  response_format?: OpenAI.ResponseFormatJSONSchema;
+};
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal;
+  // Name of the provider to send the request to, for routers serving a model through
+  // several providers (e.g. a fallback to the same model on another provider)
+  provider?: string;
+}
+
+export interface LLMProvider {
+  /**
+   * Sends a chat completion request and waits for the whole response
+   * @returns the response in the format of the OpenAI Chat Completions API
+   */
+  createChatCompletion(
+    request: ChatCompletionRequest,
+    options?: LLMRequestOptions
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion>;
+
+  /**
+   * Streams the response of a chat completion request
+   * @returns the chunks in the format of the OpenAI Chat Completions API, the last
+   *          one carrying the token usage when the provider reports it
+   */
+  streamChatCompletion(
+    request: ChatCompletionRequest,
+    options?: LLMRequestOptions
+  ): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>>;
+
+  /**
+   * Asks for a JSON object matching the schema (structured output)
+   * @returns the validated object, or null if the model refused to answer
+   */
+  parseChatCompletion<T>(
+    request: Omit<
+      ChatCompletionRequest,
+      "tools" | "tool_choice" | "response_format"
+    >,
+    schema: z.ZodType<T>,
+    schemaName: string,
+    options?: LLMRequestOptions
+  ): Promise<T | null>;
+}
+
+/**
+ * Error returned by the API of a provider.
+ */
+export class LLMProviderError extends Error {
+  readonly provider: string;
+  // HTTP status of the response, undefined when the provider could not be reached
+  readonly status?: number;
+  // Delay requested by the provider (Retry-After header), in milliseconds
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parses a Retry-After header, in seconds or as an HTTP date.
+ * @returns the delay in milliseconds, undefined if the header is missing or invalid
+ */
+export const parseRetryAfter = (
+  header: string | null | undefined
+): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+};
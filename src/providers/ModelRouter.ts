@@ -0,0 +1,79 @@
+import type { OpenAI } from "openai";
+import type { z } from "zod";
+import type {
+  ChatCompletionRequest,
+  LLMProvider,
+  LLMRequestOptions,
+} from "./LLMProvider.ts";
+
+export interface ModelRouterConfig {
+  providers: Record<string, LLMProvider>;
+  // Name of the provider of each model
+  modelProviders?: Record<string, string>;
+  // Provider of the models without an entry in modelProviders
+  defaultProvider: string;
+}
+
+/**
+ * Sends each request to the provider of its model, so that an agent can mix models
+ * from different providers (e.g. a helper model served locally).
+ */
+export class ModelRouter implements LLMProvider {
+  private readonly providers: Record<string, LLMProvider>;
+  private readonly modelProviders: Record<string, string>;
+  private readonly defaultProvider: string;
+
+  constructor(config: ModelRouterConfig) {
+    this.providers = config.providers;
+    this.modelProviders = config.modelProviders ?? {};
+    this.defaultProvider = config.defaultProvider;
+  }
+
+  /**
+   * @param providerName overrides the provider the model is routed to
+   */
+  getProvider(model: string, providerName?: string): LLMProvider {
+    const name =
+      providerName ?? this.modelProviders[model] ?? this.defaultProvider;
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new Error(`Unknown provider "${name}" for model "${model}".`);
+    }
+    return provider;
+  }
+
+  createChatCompletion(
+    request: ChatCompletionRequest,
+    options?: LLMRequestOptions
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    return this.getProvider(
+      request.model,
+      options?.provider
+    ).createChatCompletion(request, options);
+  }
+
+  streamChatCompletion(
+    request: ChatCompletionRequest,
+    options?: LLMRequestOptions
+  ): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>> {
+    return this.getProvider(
+      request.model,
+      options?.provider
+    ).streamChatCompletion(request, options);
+  }
+
+  parseChatCompletion<T>(
+    request: Omit<
+      ChatCompletionRequest,
+      "tools" | "tool_choice" | "response_format"
+    >,
+    schema: z.ZodType<T>,
+    schemaName: string,
+    options?: LLMRequestOptions
+  ): Promise<T | null> {
+    return this.getProvider(
+      request.model,
+      options?.provider
+    ).parseChatCompletion(request, schema, schemaName, options);
+  }
+}
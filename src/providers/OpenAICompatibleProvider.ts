@@ -0,0 +1,35 @@
+import { OpenAI } from "openai";
+import { OpenAIProvider } from "./OpenAIProvider.ts";
+
+export interface OpenAICompatibleProviderConfig {
+  // e.g. "https://generativelanguage.googleapis.com/v1beta/openai/" or "http://localhost:11434/v1"
+  baseURL: string;
+  // Local servers (Ollama, vLLM) usually do not need one
+  apiKey?: string;
+  // Whether the endpoint supports stream_options.include_usage (default true)
+  streamUsage?: boolean;
+}
+
+/**
+ * Provider of the endpoints implementing the OpenAI Chat Completions API,
+ * such as Gemini, Ollama or vLLM.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  private readonly streamUsage: boolean;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    super({
+      client: new OpenAI({
+        // The OpenAI client refuses to be created without a key
+        apiKey: config.apiKey || "not-needed",
+        baseURL: config.baseURL,
+        maxRetries: 0,
+      }),
+    });
+    this.streamUsage = config.streamUsage ?? true;
+  }
+
+  protected getStreamOptions() {
+    return this.streamUsage ? super.getStreamOptions() : {};
+  }
+}
@@ -0,0 +1,132 @@
+import { OpenAI } from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import type { z } from "zod";
+import {
+  LLMProviderError,
+  parseRetryAfter,
+  type ChatCompletionRequest,
+  type LLMProvider,
+  type LLMRequestOptions,
+} from "./LLMProvider.ts";
+
+export interface OpenAIProviderConfig {
+  apiKey?: string;
+  baseURL?: string;
+  // Already configured client, e.g. to share it with other parts of the application
+  client?: OpenAI;
+}
+
+/**
+ * Converts the errors of the OpenAI client to LLMProviderError, so that they can be
+ * retried like the errors of the other providers. Aborted requests are left as is.
+ */
+const toProviderError = (error: unknown): unknown => {
+  if (
+    !(error instanceof OpenAI.APIError) ||
+    error instanceof OpenAI.APIUserAbortError
+  ) {
+    return error;
+  }
+  return new LLMProviderError(
+    error.message,
+    "openai",
+    error.status,
+    parseRetryAfter(error.headers?.get("retry-after"))
+  );
+};
+
+async function* convertStreamErrors<T>(
+  stream: AsyncIterable<T>
+): AsyncIterable<T> {
+  try {
+    yield* stream;
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
+
+/**
+ * Provider of the OpenAI Chat Completions API.
+ */
+export class OpenAIProvider implements LLMProvider {
+  protected readonly client: OpenAI;
+
+  constructor(config: OpenAIProviderConfig = {}) {
+    this.client =
+      config.client ??
+      new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        // Retries are handled by the agent, which can also fall back to other models
+        maxRetries: 0,
+      });
+  }
+
+  async createChatCompletion(
+    request: ChatCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    return this.client.chat.completions
+      .create({ ...request, stream: false }, { signal: options.signal })
+      .catch((error) => {
+        throw toProviderError(error);
+      });
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>> {
+    const stream = await this.client.chat.completions
+      .create(
+        {
+          ...request,
+          stream: true,
+          ...this.getStreamOptions(),
+        },
+        { signal: options.signal }
+      )
+      .catch((error) => {
+        throw toProviderError(error);
+      });
+    return convertStreamErrors(stream);
+  }
+
+  async parseChatCompletion<T>(
+    request: Omit<
+      ChatCompletionRequest,
+      "tools" | "tool_choice" | "response_format"
+    >,
+    schema: z.ZodType<T>,
+    schemaName: string,
+    options: LLMRequestOptions = {}
+  ): Promise<T | null> {
+    const response = await this.client.chat.completions
+      .create(
+        {
+          ...request,
+          stream: false,
+          response_format: zodResponseFormat(schema, schemaName),
+        },
+        { signal: options.signal }
+      )
+      .catch((error) => {
+        throw toProviderError(error);
+      });
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      return null;
+    }
+    return schema.parse(JSON.parse(content));
+  }
+
+  /**
+   * Asks for the token usage in the last chunk of the streams.
+   */
+  protected getStreamOptions(): Pick<
+    OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming,
+    "stream_options"
+  > {
+    return { stream_options: { include_usage: true } };
+  }
+}
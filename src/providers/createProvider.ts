@@ -0,0 +1,96 @@
+import { AnthropicProvider } from "./AnthropicProvider.ts";
+import type { LLMProvider } from "./LLMProvider.ts";
+import { ModelRouter } from "./ModelRouter.ts";
+import type { FallbackModel } from "./retry.ts";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.ts";
+import { OpenAIProvider } from "./OpenAIProvider.ts";
+
+export type ProviderConfig =
+  | { type: "openai"; apiKeyEnv?: string; baseURL?: string }
+  | {
+      type: "openai-compatible";
+      baseURL: string;
+      apiKeyEnv?: string;
+      streamUsage?: boolean;
+    }
+  | {
+      type: "anthropic";
+      apiKeyEnv?: string;
+      baseURL?: string;
+      maxTokens?: number;
+    };
+
+export const createProvider = (
+  config: ProviderConfig,
+  env: Record<string, string | undefined> = process.env
+): LLMProvider => {
+  switch (config.type) {
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: env[config.apiKeyEnv ?? "OPENAI_API_KEY"],
+        baseURL: config.baseURL,
+      });
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        baseURL: config.baseURL,
+        apiKey: config.apiKeyEnv ? env[config.apiKeyEnv] : undefined,
+        streamUsage: config.streamUsage,
+      });
+    case "anthropic":
+      return new AnthropicProvider({
+        apiKey: env[config.apiKeyEnv ?? "ANTHROPIC_API_KEY"] ?? "",
+        baseURL: config.baseURL,
+        maxTokens: config.maxTokens,
+      });
+  }
+};
+
+/**
+ * Creates the providers declared in the configuration and routes each model to its
+ * provider. An "openai" provider is always available, using OPENAI_API_KEY and baseURL
+ * (GEMINI_API_KEY when baseURL is a Google endpoint, as in the configurations written
+ * before the providers existed).
+ */
+export const createModelRouter = (
+  config: {
+    providers: Record<string, ProviderConfig>;
+    modelProviders: Record<string, string>;
+    defaultProvider: string;
+    baseURL?: string;
+    fallbackModels?: FallbackModel[];
+  },
+  env: Record<string, string | undefined> = process.env
+): ModelRouter => {
+  const providers: Record<string, LLMProvider> = {
+    openai: createProvider(
+      {
+        type: "openai",
+        apiKeyEnv: config.baseURL?.includes("google")
+          ? "GEMINI_API_KEY"
+          : undefined,
+        baseURL: config.baseURL,
+      },
+      env
+    ),
+  };
+  for (const [name, providerConfig] of Object.entries(config.providers)) {
+    providers[name] = createProvider(providerConfig, env);
+  }
+  // Fail at startup rather than on the first request to a misconfigured model
+  for (const [model, name] of [
+    ...Object.entries(config.modelProviders),
+    ["default", config.defaultProvider],
+    ...(config.fallbackModels ?? []).flatMap(({ model, provider }) =>
+      provider ? [[model, provider]] : []
+    ),
+  ]) {
+    if (!providers[name]) {
+      throw new Error(`Unknown provider "${name}" for model "${model}".`);
+    }
+  }
+  return new ModelRouter({
+    providers,
+    modelProviders: config.modelProviders,
+    defaultProvider: config.defaultProvider,
+  });
+};
@@ -0,0 +1,7 @@
+export * from "./LLMProvider.ts";
+export * from "./OpenAIProvider.ts";
+export * from "./OpenAICompatibleProvider.ts";
+export * from "./AnthropicProvider.ts";
+export * from "./ModelRouter.ts";
+export * from "./createProvider.ts";
+export * from "./retry.ts";
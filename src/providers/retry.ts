@@ -0,0 +1,57 @@
+import { LLMProviderError } from "./LLMProvider.ts";
+
+export interface RetryConfig {
+  // Retries of a failing request before giving up on the model (0 disables them)
+  maxRetries?: number;
+  // Delay before the first retry, doubled for each of the following ones
+  initialDelayMs?: number;
+  // Longest delay between two attempts. A provider asking to wait longer (Retry-After)
+  // is not retried
+  maxDelayMs?: number;
+}
+
+/**
+ * Model to switch to when the requests to the previous one keep failing.
+ */
+export interface FallbackModel {
+  model: string;
+  // Provider serving the model, defaults to the provider the model is routed to
+  provider?: string;
+}
+
+/**
+ * Whether the request may succeed if sent again: rate limits, server errors,
+ * timeouts and providers that could not be reached.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (!(error instanceof LLMProviderError)) return false;
+  const { status } = error;
+  return (
+    status === undefined || status === 408 || status === 429 || status >= 500
+  );
+};
+
+/**
+ * Delay before the given retry (1 for the first one): the Retry-After delay of the
+ * provider when there is one, exponential backoff with jitter otherwise.
+ * @returns the delay in milliseconds, undefined when the provider asks to wait longer
+ *          than maxDelayMs
+ */
+export const getRetryDelay = (
+  retry: number,
+  error: unknown,
+  config: Required<RetryConfig>,
+  random: () => number = Math.random
+): number | undefined => {
+  if (error instanceof LLMProviderError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= config.maxDelayMs
+      ? error.retryAfterMs
+      : undefined;
+  }
+  const delay = Math.min(
+    config.initialDelayMs * 2 ** (retry - 1),
+    config.maxDelayMs
+  );
+  // Half fixed, half random so that clients failing together do not retry together
+  return Math.round(delay / 2 + (random() * delay) / 2);
+};
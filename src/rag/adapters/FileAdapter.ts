@@ -1,4 +1,8 @@
 export interface FileAdapter {
   supports(filePath: string): boolean;
+  /**
+   * @returns the text of the file, its pages separated by form feeds (PAGE_SEPARATOR)
+   *          for documents with pages
+   */
   load(filePath: string): Promise<string>;
 }
@@ -2,6 +2,25 @@ import fs from "fs";
 import path from "path";
 import pdfParse from "pdf-parse";
 import type { FileAdapter } from "./FileAdapter.ts";
+import { PAGE_SEPARATOR } from "../chunkers/Chunker.ts";
+
+/**
+ * Same text as the default renderer of pdf-parse, each page ending with a form feed
+ * so that the chunks know their page.
+ */
+const renderPage = async (pageData: any): Promise<string> => {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of textContent.items) {
+    text += lastY === item.transform[5] || !lastY ? item.str : "\n" + item.str;
+    lastY = item.transform[5];
+  }
+  return text + PAGE_SEPARATOR;
+};
 
 export class PdfAdapter implements FileAdapter {
   supports(filePath: string): boolean {
@@ -10,7 +29,7 @@ export class PdfAdapter implements FileAdapter {
 
   async load(filePath: string): Promise<string> {
     const buffer = fs.readFileSync(filePath);
-    const data = await pdfParse(buffer);
+    const data = await pdfParse(buffer, { pagerender: renderPage });
     return data.text;
   }
 }
@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
 import type { FileAdapter } from "./FileAdapter.ts";
+import { CODE_EXTENSIONS } from "../chunkers/CodeChunker.ts";
 
 const SUPPORTED_EXTENSIONS = [
   ".txt",
@@ -14,7 +15,12 @@ const SUPPORTED_EXTENSIONS = [
 
 export class TextAdapter implements FileAdapter {
   supports(filePath: string): boolean {
-    return SUPPORTED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+    const extension = path.extname(filePath).toLowerCase();
+    // Source files are indexed too, split by function or class with code-chunker
+    return (
+      SUPPORTED_EXTENSIONS.includes(extension) ||
+      CODE_EXTENSIONS.includes(extension)
+    );
   }
 
   async load(filePath: string): Promise<string> {
@@ -0,0 +1,157 @@
+/**
+ * Where a chunk comes from in its source, stored with the chunk and returned by the
+ * queries to cite it.
+ */
+export interface ChunkMetadata {
+  // Page of the chunk start, for sources with pages (PDFs)
+  page?: number;
+  // Headings of the section the chunk comes from, outermost first
+  headingPath?: string[];
+  // Offsets of the chunk in the source text, end excluded
+  startChar?: number;
+  endChar?: number;
+  // Lines of the chunk in the source text, starting at 1
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface TextChunk {
+  content: string;
+  metadata: ChunkMetadata;
+}
+
+export interface ChunkSource {
+  // Path of the indexed file, undefined for memories
+  path?: string;
+}
+
+export interface ChunkerOptions {
+  // Maximum size of a chunk, in characters (estimated tokens for token-chunker)
+  chunkSize: number;
+  // Share of each chunk repeated at the start of the next one
+  chunkOverlapPercentage?: number;
+  // Sentences repeated at the start of the next window (sentence-window-chunker)
+  overlapSentences?: number;
+}
+
+export interface Chunker {
+  /**
+   * Splits a text into chunks to embed
+   * @param source where the text comes from, e.g. to detect the language of a file
+   */
+  chunk(text: string, source?: ChunkSource): TextChunk[];
+}
+
+// Adapters separate the pages of a document with form feeds
+export const PAGE_SEPARATOR = "\f";
+
+// Length of the first and last lines of a chunk searched when it is not an exact
+// substring of the source, e.g. sentences joined with single spaces
+const PROBE_LENGTH = 64;
+
+/**
+ * Finds the position of the chunks in their source text. Chunks are searched in
+ * order, each one from the start of the previous one since they may overlap.
+ */
+export class ChunkLocator {
+  private readonly source: string;
+  private readonly lineStarts: number[] = [0];
+  private readonly pageStarts: number[] = [0];
+  private cursor = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") this.lineStarts.push(i + 1);
+      else if (source[i] === PAGE_SEPARATOR) this.pageStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * @param from offset to search from, defaults to the start of the previous chunk
+   * @returns the offsets, lines and page of the chunk, empty if it was not found
+   */
+  locate(chunk: string, from = this.cursor): ChunkMetadata {
+    let start = this.source.indexOf(chunk, from);
+    let end = start + chunk.length;
+    if (start < 0) {
+      const lines = chunk.split("\n");
+      start = this.source.indexOf(lines[0].slice(0, PROBE_LENGTH), from);
+      const tail = lines[lines.length - 1].slice(-PROBE_LENGTH);
+      const tailStart = start < 0 ? -1 : this.source.indexOf(tail, start);
+      if (tailStart < 0) return {};
+      end = tailStart + tail.length;
+    }
+    this.cursor = start + 1;
+
+    return {
+      ...(this.pageStarts.length > 1
+        ? { page: findIndex(this.pageStarts, start) + 1 }
+        : {}),
+      startChar: start,
+      endChar: end,
+      startLine: findIndex(this.lineStarts, start) + 1,
+      endLine: findIndex(this.lineStarts, Math.max(start, end - 1)) + 1,
+    };
+  }
+}
+
+/**
+ * Index of the last start lower or equal to the offset (binary search).
+ */
+const findIndex = (starts: number[], offset: number): number => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+/**
+ * Overlap in characters (or tokens) from the chunk size and the overlap percentage,
+ * kept under a third of the chunk size.
+ */
+export const getOverlapSize = (options: ChunkerOptions): number => {
+  const overlap = Math.floor(
+    (options.chunkSize * (options.chunkOverlapPercentage ?? 0)) / 100
+  );
+  if (!Number.isFinite(overlap) || overlap < 0) return 0;
+  if (overlap >= options.chunkSize) {
+    return Math.max(0, Math.floor(options.chunkSize / 3));
+  }
+  return overlap;
+};
+
+/**
+ * Merges consecutive pieces into chunks of at most maxSize characters, pieces over
+ * maxSize being split with fallback.
+ */
+export const packPieces = (
+  pieces: string[],
+  maxSize: number,
+  separator: string,
+  fallback: (piece: string) => string[]
+): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (!piece.trim()) continue;
+    if (piece.length > maxSize) {
+      if (current) chunks.push(current);
+      current = "";
+      chunks.push(...fallback(piece));
+    } else if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxSize) {
+      current += separator + piece;
+    } else {
+      chunks.push(current);
+      current = piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
@@ -0,0 +1,83 @@
+import path from "path";
+import {
+  ChunkLocator,
+  packPieces,
+  type Chunker,
+  type ChunkerOptions,
+  type ChunkSource,
+  type TextChunk,
+} from "./Chunker.ts";
+import { RecursiveCharacterChunker } from "./RecursiveCharacterChunker.ts";
+
+export const CODE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".py",
+  ".go",
+  ".rs",
+  ".java",
+  ".kt",
+  ".cs",
+  ".php",
+  ".rb",
+  ".swift",
+  ".c",
+  ".h",
+  ".cpp",
+  ".hpp",
+];
+
+// Top-level declarations starting a new block, in the common languages
+const DECLARATION =
+  /^(export\s+)?(default\s+)?(public\s+|private\s+|protected\s+|internal\s+)?(static\s+)?(abstract\s+)?(async\s+)?(function\*?|class|interface|type|enum|const|let|var|def|func|fn|pub|impl|struct|trait|module|namespace|object|fun)\b/;
+// Comments and decorators kept with the declaration they precede
+const ATTACHED = /^(\/\/|\/\*|\*|#|@)/;
+
+/**
+ * Splits source files on their top-level functions, classes and other declarations,
+ * with the comments and decorators preceding them. Small declarations are grouped up
+ * to chunkSize characters, larger ones are split on lines. Other files are split by
+ * the recursive character chunker.
+ */
+export class CodeChunker implements Chunker {
+  private readonly fallback: RecursiveCharacterChunker;
+  private readonly options: ChunkerOptions;
+
+  constructor(options: ChunkerOptions) {
+    this.options = options;
+    this.fallback = new RecursiveCharacterChunker(options);
+  }
+
+  chunk(text: string, source?: ChunkSource): TextChunk[] {
+    const extension = source?.path
+      ? path.extname(source.path).toLowerCase()
+      : "";
+    if (!CODE_EXTENSIONS.includes(extension)) {
+      return this.fallback.chunk(text);
+    }
+
+    const lines = text.split("\n");
+    const blockStarts = [0];
+    lines.forEach((line, index) => {
+      if (!DECLARATION.test(line)) return;
+      let start = index;
+      while (start > 0 && ATTACHED.test(lines[start - 1].trim())) start--;
+      if (start > blockStarts[blockStarts.length - 1]) blockStarts.push(start);
+    });
+
+    const blocks = blockStarts.map((start, i) =>
+      lines
+        .slice(start, blockStarts[i + 1])
+        .join("\n")
+        .trimEnd()
+    );
+    const locator = new ChunkLocator(text);
+    return packPieces(blocks, this.options.chunkSize, "\n\n", (block) =>
+      this.fallback.split(block)
+    ).map((content) => ({ content, metadata: locator.locate(content) }));
+  }
+}
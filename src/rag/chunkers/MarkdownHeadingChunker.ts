@@ -0,0 +1,83 @@
+import {
+  ChunkLocator,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+} from "./Chunker.ts";
+import { RecursiveCharacterChunker } from "./RecursiveCharacterChunker.ts";
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Splits markdown on its headings: each section is chunked on its own, every chunk
+ * starting with the path of the section (e.g. "Setup > Database") so that its
+ * context is embedded with it.
+ */
+export class MarkdownHeadingChunker implements Chunker {
+  private readonly options: ChunkerOptions;
+
+  constructor(options: ChunkerOptions) {
+    this.options = options;
+  }
+
+  chunk(text: string): TextChunk[] {
+    // start: offset of the first line of the section body in the text
+    const sections: {
+      headingPath: string[];
+      lines: string[];
+      start: number;
+    }[] = [{ headingPath: [], lines: [], start: 0 }];
+    // Headings of the current section by level, e.g. [ "Setup", undefined, "Database" ]
+    const headings: (string | undefined)[] = [];
+    let inCodeBlock = false;
+    let offset = 0;
+
+    for (const line of text.split("\n")) {
+      offset += line.length + 1;
+      if (FENCE.test(line)) inCodeBlock = !inCodeBlock;
+      const heading = inCodeBlock ? null : HEADING.exec(line);
+      if (!heading) {
+        sections[sections.length - 1].lines.push(line);
+        continue;
+      }
+      const level = heading[1].length;
+      headings.length = level;
+      headings[level - 1] = heading[2];
+      sections.push({
+        headingPath: headings.filter((h): h is string => h !== undefined),
+        lines: [],
+        start: offset,
+      });
+    }
+
+    const locator = new ChunkLocator(text);
+    const chunks: TextChunk[] = [];
+    for (const { headingPath, lines, start } of sections) {
+      const body = lines.join("\n").trim();
+      if (!body) continue;
+      const prefix =
+        headingPath.length > 0 ? headingPath.join(" > ") + "\n\n" : "";
+      // The path counts in the size of the chunks
+      const splitter = new RecursiveCharacterChunker({
+        ...this.options,
+        chunkSize: Math.max(
+          this.options.chunkSize - prefix.length,
+          Math.ceil(this.options.chunkSize / 2)
+        ),
+      });
+      splitter.split(body).forEach((piece, index) => {
+        // Located without the path, which is not in the text
+        const metadata = locator.locate(piece, index === 0 ? start : undefined);
+        chunks.push({
+          content: prefix + piece,
+          metadata: {
+            ...(headingPath.length > 0 ? { headingPath } : {}),
+            ...metadata,
+          },
+        });
+      });
+    }
+    return chunks;
+  }
+}
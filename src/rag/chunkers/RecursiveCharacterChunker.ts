@@ -0,0 +1,127 @@
+import {
+  ChunkLocator,
+  getOverlapSize,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+} from "./Chunker.ts";
+
+const SEPARATORS = ["\n\n", "\n", " ", ""]; // paragraphs -> lines -> words -> chars
+
+/**
+ * Splits on paragraphs, then lines, words and characters until the pieces fit in
+ * chunkSize characters, each chunk starting with the end of the previous one.
+ */
+export class RecursiveCharacterChunker implements Chunker {
+  private readonly options: ChunkerOptions;
+
+  constructor(options: ChunkerOptions) {
+    this.options = options;
+  }
+
+  chunk(text: string): TextChunk[] {
+    const locator = new ChunkLocator(text);
+    return this.split(text).map((content) => ({
+      content,
+      metadata: locator.locate(content),
+    }));
+  }
+
+  /**
+   * Same splitting, for the chunkers falling back to it on pieces too large for them.
+   */
+  split(text: string): string[] {
+    if (typeof text !== "string") return [];
+    const size = this.options.chunkSize;
+    if (!Number.isFinite(size) || size <= 0) return [text];
+    const overlap = getOverlapSize(this.options);
+
+    const splitRecursive = (
+      input: string,
+      max: number,
+      seps: string[]
+    ): string[] => {
+      const t = input;
+      if (t.length <= max) return [t];
+
+      for (let i = 0; i < seps.length; i++) {
+        const sep = seps[i];
+
+        if (sep === "") {
+          const out: string[] = [];
+          for (let j = 0; j < t.length; j += max) out.push(t.slice(j, j + max));
+          return out;
+        }
+
+        if (t.includes(sep)) {
+          const rawParts = t.split(sep);
+          const parts: string[] = [];
+          for (const part of rawParts) {
+            if (!part) continue;
+            if (part.length <= max) {
+              parts.push(part);
+            } else {
+              parts.push(...splitRecursive(part, max, seps.slice(i + 1)));
+            }
+          }
+
+          // Merge with max size constraint
+          const baseChunks: string[] = [];
+          let current = "";
+          for (const p of parts) {
+            if (!p) continue;
+            if (current.length === 0) {
+              current = p;
+            } else if (current.length + sep.length + p.length <= max) {
+              current += sep + p;
+            } else {
+              baseChunks.push(current);
+              current = p;
+            }
+          }
+          if (current) baseChunks.push(current);
+
+          // Apply overlap: start each subsequent chunk with a suffix of the previous one.
+          if (overlap <= 0 || baseChunks.length <= 1) return baseChunks;
+
+          const overlapped: string[] = [];
+          overlapped.push(baseChunks[0]); // first chunk unchanged
+
+          for (let k = 1; k < baseChunks.length; k++) {
+            const prev = overlapped[overlapped.length - 1];
+            const seed = prev.slice(Math.max(0, prev.length - overlap)); // suffix
+
+            let next = baseChunks[k];
+
+            // If adding the seed exceeds max, trim the front of `next` just enough.
+            const available = size - seed.length;
+            if (available <= 0) {
+              // Seed alone fills (or exceeds) the budget; fall back to cropping seed.
+              const croppedSeed = seed.slice(-Math.max(0, size - 1));
+              overlapped.push(croppedSeed);
+              // Re-insert the remainder of `next` as further chunks respecting size
+              let rest = next;
+              while (rest.length > 0) {
+                overlapped.push(rest.slice(0, size));
+                rest = rest.slice(size);
+              }
+              continue;
+            }
+            if (next.length > available) {
+              next = next.slice(0, available);
+            }
+            overlapped.push(seed + next);
+          }
+          return overlapped;
+        }
+      }
+
+      // Safety fallback
+      const out: string[] = [];
+      for (let i = 0; i < t.length; i += max) out.push(t.slice(i, i + max));
+      return out;
+    };
+
+    return splitRecursive(text, size, SEPARATORS);
+  }
+}
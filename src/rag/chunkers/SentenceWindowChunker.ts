@@ -0,0 +1,58 @@
+import {
+  ChunkLocator,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+} from "./Chunker.ts";
+import { RecursiveCharacterChunker } from "./RecursiveCharacterChunker.ts";
+
+/**
+ * Groups whole sentences into windows of at most chunkSize characters, each window
+ * starting with the last overlapSentences sentences of the previous one (default 1).
+ * Sentences are found with Intl.Segmenter, so abbreviations like "e.g." do not end them.
+ */
+export class SentenceWindowChunker implements Chunker {
+  private readonly options: ChunkerOptions;
+  private readonly segmenter = new Intl.Segmenter("en", {
+    granularity: "sentence",
+  });
+
+  constructor(options: ChunkerOptions) {
+    this.options = options;
+  }
+
+  chunk(text: string): TextChunk[] {
+    const { chunkSize } = this.options;
+    const overlapSentences = this.options.overlapSentences ?? 1;
+    const fallback = new RecursiveCharacterChunker({ chunkSize });
+    const locator = new ChunkLocator(text);
+
+    // Sentences longer than a chunk are split, their pieces acting as sentences
+    const sentences = [...this.segmenter.segment(text)]
+      .map(({ segment }) => segment.trim())
+      .filter(Boolean)
+      .flatMap((sentence) =>
+        sentence.length > chunkSize ? fallback.split(sentence) : [sentence]
+      );
+
+    const chunks: TextChunk[] = [];
+    let start = 0;
+    while (start < sentences.length) {
+      let end = start + 1;
+      let size = sentences[start].length;
+      while (
+        end < sentences.length &&
+        size + 1 + sentences[end].length <= chunkSize
+      ) {
+        size += 1 + sentences[end].length;
+        end++;
+      }
+      const content = sentences.slice(start, end).join(" ");
+      chunks.push({ content, metadata: locator.locate(content) });
+      if (end >= sentences.length) break;
+      // Always move forward, even when the window holds fewer sentences than the overlap
+      start = Math.max(start + 1, end - overlapSentences);
+    }
+    return chunks;
+  }
+}
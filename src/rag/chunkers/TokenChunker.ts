@@ -0,0 +1,56 @@
+import { estimateTokens } from "../../contextManager.ts";
+import {
+  ChunkLocator,
+  getOverlapSize,
+  type Chunker,
+  type ChunkerOptions,
+  type TextChunk,
+} from "./Chunker.ts";
+
+/**
+ * Splits on word boundaries into chunks of at most chunkSize tokens, estimated like
+ * the context manager does (no tokenizer), each chunk starting with the last words of
+ * the previous one.
+ */
+export class TokenChunker implements Chunker {
+  private readonly options: ChunkerOptions;
+
+  constructor(options: ChunkerOptions) {
+    this.options = options;
+  }
+
+  chunk(text: string): TextChunk[] {
+    const words = text.match(/\s*\S+/g) ?? [];
+    const tokens = words.map((word) => estimateTokens(word.trim()));
+    const overlap = getOverlapSize(this.options);
+    const locator = new ChunkLocator(text);
+
+    const chunks: TextChunk[] = [];
+    let start = 0;
+    while (start < words.length) {
+      // A word longer than the whole budget still makes a chunk on its own
+      let end = start + 1;
+      let size = tokens[start];
+      while (
+        end < words.length &&
+        size + tokens[end] <= this.options.chunkSize
+      ) {
+        size += tokens[end];
+        end++;
+      }
+      const content = words.slice(start, end).join("").trim();
+      chunks.push({ content, metadata: locator.locate(content) });
+      if (end >= words.length) break;
+
+      // Step back over the last words of the chunk, always moving forward
+      let next = end;
+      let overlapSize = 0;
+      while (next - 1 > start && overlapSize + tokens[next - 1] <= overlap) {
+        overlapSize += tokens[next - 1];
+        next--;
+      }
+      start = next;
+    }
+    return chunks;
+  }
+}
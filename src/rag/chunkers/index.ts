@@ -0,0 +1,63 @@
+import type { Chunker, ChunkerOptions } from "./Chunker.ts";
+import { CodeChunker } from "./CodeChunker.ts";
+import { MarkdownHeadingChunker } from "./MarkdownHeadingChunker.ts";
+import { RecursiveCharacterChunker } from "./RecursiveCharacterChunker.ts";
+import { SentenceWindowChunker } from "./SentenceWindowChunker.ts";
+import { TokenChunker } from "./TokenChunker.ts";
+
+export * from "./Chunker.ts";
+export * from "./CodeChunker.ts";
+export * from "./MarkdownHeadingChunker.ts";
+export * from "./RecursiveCharacterChunker.ts";
+export * from "./SentenceWindowChunker.ts";
+export * from "./TokenChunker.ts";
+
+export interface TextSplitterConfig {
+  // Name of a registered chunker, e.g. "recursive-character-chunker"
+  strategy: string;
+  options: ChunkerOptions;
+}
+
+export type ChunkerFactory = (options: ChunkerOptions) => Chunker;
+
+const chunkerFactories = new Map<string, ChunkerFactory>([
+  [
+    "recursive-character-chunker",
+    (options) => new RecursiveCharacterChunker(options),
+  ],
+  ["token-chunker", (options) => new TokenChunker(options)],
+  [
+    "markdown-heading-chunker",
+    (options) => new MarkdownHeadingChunker(options),
+  ],
+  ["sentence-window-chunker", (options) => new SentenceWindowChunker(options)],
+  ["code-chunker", (options) => new CodeChunker(options)],
+]);
+
+/**
+ * Makes a chunker available to textSplitter.strategy, replacing the one with the
+ * same name if any.
+ */
+export const registerChunker = (strategy: string, factory: ChunkerFactory) => {
+  chunkerFactories.set(strategy, factory);
+};
+
+export const getChunkerStrategies = (): string[] => [
+  ...chunkerFactories.keys(),
+];
+
+/**
+ * Creates the chunker of the strategy.
+ * @throws if no chunker is registered under that name
+ */
+export const createChunker = (config: TextSplitterConfig): Chunker => {
+  const factory = chunkerFactories.get(config.strategy);
+  if (!factory) {
+    throw new Error(
+      `Unknown textSplitter strategy "${
+        config.strategy
+      }", expected one of: ${getChunkerStrategies().join(", ")}`
+    );
+  }
+  return factory(config.options);
+};
@@ -0,0 +1,58 @@
+import type { RetrievedChunk } from "./storage/VectorStore.js";
+
+/**
+ * A retrieved chunk given to the LLM as [number], returned with the answer so
+ * clients can show where the cited text comes from.
+ */
+export interface Citation extends RetrievedChunk {
+  number: number;
+  // Human readable location, e.g. "docs/setup.md › Install, lines 12-30"
+  label: string;
+}
+
+/**
+ * Describes where a chunk comes from: its source followed by the page, section and
+ * lines known for it.
+ */
+export const formatCitationLabel = (
+  chunk: Pick<RetrievedChunk, "source" | "metadata">
+): string => {
+  const { page, headingPath, startLine, endLine } = chunk.metadata ?? {};
+  const location: string[] = [];
+  if (page !== undefined) location.push(`p. ${page}`);
+  if (startLine !== undefined) {
+    location.push(
+      endLine !== undefined && endLine !== startLine
+        ? `lines ${startLine}-${endLine}`
+        : `line ${startLine}`
+    );
+  }
+  const source = headingPath?.length
+    ? [chunk.source, ...headingPath].join(" › ")
+    : chunk.source;
+  return location.length > 0 ? `${source}, ${location.join(", ")}` : source;
+};
+
+/**
+ * Numbers the chunks in order, starting at 1.
+ */
+export const toCitations = (chunks: RetrievedChunk[]): Citation[] =>
+  chunks.map((chunk, index) => ({
+    ...chunk,
+    number: index + 1,
+    label: formatCitationLabel(chunk),
+  }));
+
+/**
+ * Formats the citations as the knowledge base context given to the LLM, asking it
+ * to cite the chunks it uses by their number.
+ */
+export const formatCitationsContext = (citations: Citation[]): string => {
+  const context = citations
+    .map(
+      (citation) =>
+        `[${citation.number}] ${citation.label}\n${citation.content}\n`
+    )
+    .join("\n");
+  return `\n--- RELEVANT CONTEXT FROM KNOWLEDGE BASE ---\n${context}\n--- END CONTEXT ---\n\nBased on the above context, please proceed with the user's request. When you use a piece of the context, cite it with its number in square brackets, e.g. [1].`;
+};
@@ -0,0 +1,78 @@
+import type { RetrievedChunk } from "./storage/VectorStore.js";
+
+// "vector" ranks the chunks by embedding similarity only, "hybrid" fuses this ranking
+// with a full-text one to also find exact identifiers, error codes and names
+export type SearchMode = "vector" | "hybrid";
+
+export interface SearchConfig {
+  // Mode of the queries not asking for one
+  mode: SearchMode;
+  // Weights of the vector and full-text rankings in hybrid mode
+  vectorWeight: number;
+  fullTextWeight: number;
+  // Constant of reciprocal rank fusion: higher values flatten the rank differences
+  rrfK: number;
+}
+
+export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  mode: "vector",
+  vectorWeight: 1,
+  fullTextWeight: 1,
+  rrfK: 60,
+};
+
+export interface WeightedRanking {
+  chunks: RetrievedChunk[];
+  weight: number;
+}
+
+/**
+ * Merges rankings with reciprocal rank fusion: each chunk scores the sum of
+ * weight / (rrfK + rank) over the rankings it appears in, ranks starting at 1. Only
+ * the ranks matter, so scores on different scales (distances, text ranks) can be
+ * fused.
+ * @returns the chunks of all the rankings once each, best fused score first
+ */
+export const reciprocalRankFusion = (
+  rankings: WeightedRanking[],
+  rrfK: number = DEFAULT_SEARCH_CONFIG.rrfK
+): RetrievedChunk[] => {
+  const fused = new Map<number, RetrievedChunk>();
+  for (const { chunks, weight } of rankings) {
+    chunks.forEach((chunk, index) => {
+      const score = weight / (rrfK + index + 1);
+      const existing = fused.get(chunk.id);
+      fused.set(
+        chunk.id,
+        existing
+          ? { ...existing, score: existing.score + score }
+          : { ...chunk, score }
+      );
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
+
+// Score chunks are ranked by: the reranker relevance when they were reranked
+const getRankingScore = (chunk: RetrievedChunk) =>
+  chunk.rerankScore ?? chunk.score;
+
+/**
+ * Keeps each chunk once, e.g. when merging the results of several queries, with its
+ * best score.
+ * @returns the unique chunks, best first
+ */
+export const mergeRetrievedChunks = (
+  chunks: RetrievedChunk[]
+): RetrievedChunk[] => {
+  const merged = new Map<number, RetrievedChunk>();
+  for (const chunk of chunks) {
+    const existing = merged.get(chunk.id);
+    if (!existing || getRankingScore(chunk) > getRankingScore(existing)) {
+      merged.set(chunk.id, chunk);
+    }
+  }
+  return [...merged.values()].sort(
+    (a, b) => getRankingScore(b) - getRankingScore(a)
+  );
+};
@@ -1 +1,5 @@
 export * from "./rag.ts";
+export * from "./chunkers/index.ts";
+export * from "./citations.ts";
+export * from "./hybridSearch.ts";
+export * from "./rerankers/index.ts";
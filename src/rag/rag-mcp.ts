@@ -2,11 +2,13 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { RAG } from "./rag.js";
+import { formatCitationLabel } from "./citations.js";
 import { OpenAIEmbedder } from "./embedders/OpenAIEmbedder.ts";
 import { PostgresVectorStore } from "./storage/PostgresVectorStore.ts";
 import { Pool } from "pg";
 import { TextAdapter } from "./adapters/TextAdapter.ts";
 import { PdfAdapter } from "./adapters/PdfAdapter.ts";
+import { parseRAGServerEnv } from "../config.ts";
 
 const server = new McpServer(
   {
@@ -36,13 +38,9 @@ const rag = new RAG({
       database: process.env.POSTGRES_DB ?? "ragdb",
     })
   ),
-  textSplitter: {
-    strategy: "recursive-character-chunker",
-    options: {
-      chunkSize: 500,
-      chunkOverlapPercentage: 10,
-    },
-  },
+  // Given by the server: the tools only see the memories and files of its namespace,
+  // split and searched as configured in agent.json
+  ...parseRAGServerEnv(process.env),
 });
 // Schemas for tool inputs
 export const retrieveMemorySchema = {
@@ -55,6 +53,42 @@ export const retrieveMemorySchema = {
     .number()
     .default(5)
     .describe("The maximum number of results to return"),
+  mode: z
+    .enum(["vector", "hybrid"])
+    .optional()
+    .describe(
+      "vector searches by meaning, hybrid also matches the exact words of the query (identifiers, error codes, names). Defaults to the mode configured for the agent"
+    ),
+  sourceType: z
+    .enum(["file", "memory"])
+    .optional()
+    .describe("Only search the indexed files, or only the stored memories"),
+  pathGlob: z
+    .string()
+    .optional()
+    .describe(
+      'Only search the files whose path ends with a match of this glob, e.g. "docs/**/*.md"'
+    ),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only search the files and memories having all these tags"),
+  createdAfter: z.coerce
+    .date()
+    .optional()
+    .describe("Only search what was created after this ISO 8601 date"),
+  createdBefore: z.coerce
+    .date()
+    .optional()
+    .describe("Only search what was created before this ISO 8601 date"),
+  modifiedAfter: z.coerce
+    .date()
+    .optional()
+    .describe("Only search what was modified after this ISO 8601 date"),
+  modifiedBefore: z.coerce
+    .date()
+    .optional()
+    .describe("Only search what was modified before this ISO 8601 date"),
 };
 
 export const storeMemorySchema = {
@@ -63,6 +97,10 @@ export const storeMemorySchema = {
     .describe(
       "The memory or text snippet to store in the knowledge base for future retrieval"
     ),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Labels to filter the memory by when retrieving it"),
 };
 
 // Configure server tools and resources
@@ -71,12 +109,12 @@ server.tool(
   "Search the knowledge base to retrieve stored memories relevant to a query",
   retrieveMemorySchema,
   async (params) => {
-    const { query, limit } = params;
-    const results = await rag.query(query, limit);
+    const { query, limit, mode, ...filter } = params;
+    const results = await rag.query(query, limit, { mode, filter });
     return {
       content: results.map((result) => ({
         type: "text",
-        text: result.content,
+        text: `[${formatCitationLabel(result)}]\n${result.content}`,
       })),
     };
   }
@@ -87,8 +125,8 @@ server.tool(
   "Store a new memory in the knowledge base so it can be retrieved later",
   storeMemorySchema,
   async (params) => {
-    const { memory } = params;
-    await rag.createMemory(memory);
+    const { memory, tags } = params;
+    await rag.createMemory(memory, { tags });
     return {
       content: [{ type: "text", text: "✅ Memory stored successfully." }],
     };
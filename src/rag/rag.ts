@@ -2,16 +2,29 @@ import fs from "fs";
 import path from "path";
 import type { FileAdapter } from "./adapters/FileAdapter.ts";
 import type { Embedder } from "./embedders/index.ts";
-import type { VectorStore } from "./storage/VectorStore.js";
-
-type TextSplitter = {
-  //TODO: Implement (or steal fromm the internet) more strategies
-  strategy: string;
-  options: {
-    chunkSize: number;
-    chunkOverlapPercentage: number;
-  };
-};
+import type { Reranker } from "./rerankers/index.ts";
+import type {
+  MemoryRecord,
+  QueryFilter,
+  RetrievedChunk,
+  VectorStore,
+} from "./storage/VectorStore.js";
+import {
+  createChunker,
+  type Chunker,
+  type TextSplitterConfig,
+} from "./chunkers/index.ts";
+import {
+  DEFAULT_SEARCH_CONFIG,
+  mergeRetrievedChunks,
+  reciprocalRankFusion,
+  type SearchConfig,
+  type SearchMode,
+} from "./hybridSearch.ts";
+
+// Candidates fetched from each ranking per result, before the fusion of hybrid mode
+const HYBRID_CANDIDATES_PER_RESULT = 4;
+
 export interface RAGConfig {
   logsAllowed?: boolean;
   embedder: Embedder;
@@ -19,29 +32,58 @@ export interface RAGConfig {
   filesystemIndexing?: {
     workspaceDir: string;
     adapters: FileAdapter[];
+    // Tags given to the indexed files
+    tags?: string[];
   };
 
+  // Collection of the files and memories, isolated from the other namespaces of the
+  // vector store (default "default")
+  namespace?: string;
+
   vectorStore: VectorStore;
 
-  textSplitter: TextSplitter;
+  // Chunking strategy, see chunkers/index.ts for the available ones
+  textSplitter: TextSplitterConfig;
+
+  // Search mode and fusion weights, vector search by default
+  search?: Partial<SearchConfig>;
+
+  // Reranks the candidates of the search before keeping the best ones, off if undefined
+  reranker?: Reranker;
+  // Candidates fetched from the search and reranked for each query (at least k)
+  rerankCandidates?: number;
 }
 
+const DEFAULT_RERANK_CANDIDATES = 20;
+
+const DEFAULT_NAMESPACE = "default";
+
 export class RAG {
   private vectorStore: VectorStore;
   private embedder: Embedder;
   private filesystemIndexing?: {
     workspaceDir: string;
     adapters: FileAdapter[];
+    tags?: string[];
   };
+  private namespace: string;
   private logsAllowed: boolean;
-  private textSplitter: TextSplitter;
+  private chunker: Chunker;
+  private search: SearchConfig;
+  private reranker?: Reranker;
+  private rerankCandidates: number;
 
   constructor(config: RAGConfig) {
     this.vectorStore = config.vectorStore;
     this.embedder = config.embedder;
     this.filesystemIndexing = config.filesystemIndexing;
+    this.namespace = config.namespace ?? DEFAULT_NAMESPACE;
     this.logsAllowed = config ? config.logsAllowed ?? false : false;
-    this.textSplitter = config.textSplitter;
+    this.chunker = createChunker(config.textSplitter);
+    this.search = { ...DEFAULT_SEARCH_CONFIG, ...config.search };
+    this.reranker = config.reranker;
+    this.rerankCandidates =
+      config.rerankCandidates ?? DEFAULT_RERANK_CANDIDATES;
   }
 
   public async sync() {
@@ -52,7 +94,9 @@ export class RAG {
     this.log(`Found ${files.length} files in ${dir}, indexing...`);
 
     // Get all existing files from database
-    const existingFiles = await this.vectorStore.getAllFileRecords();
+    const existingFiles = await this.vectorStore.getAllFileRecords(
+      this.namespace
+    );
 
     // Find deleted files (files in DB but not in filesystem)
     const deletedFiles = existingFiles.filter((dbFile) => {
@@ -82,13 +126,16 @@ export class RAG {
     const exists = fs.existsSync(filePath);
     if (!exists) {
       this.log(`🔄 File ${filePath} deleted, deleting from database...`);
-      await this.vectorStore.deleteFileByPath(filePath);
+      await this.vectorStore.deleteFileByPath(filePath, this.namespace);
       return;
     }
 
     const stat = fs.statSync(filePath);
     const lastModified = stat.mtime;
-    const existing = await this.vectorStore.getFileRecord(filePath);
+    const existing = await this.vectorStore.getFileRecord(
+      filePath,
+      this.namespace
+    );
     if (
       existing &&
       new Date(existing.last_modified).getTime() === lastModified.getTime()
@@ -109,12 +156,14 @@ export class RAG {
       console.warn(`File ${filePath} produced empty text, skipping...`);
       return;
     }
-    const chunks = this.chunkText(text, {
-      chunkSize: this.textSplitter.options.chunkSize,
-      chunkOverlapPercentage: this.textSplitter.options.chunkOverlapPercentage,
+    const chunks = this.chunker.chunk(text, { path: filePath });
+    const embeddings = await this.embedder.embed(
+      chunks.map((chunk) => chunk.content)
+    );
+    const fileId = await this.vectorStore.upsertFile(filePath, lastModified, {
+      namespace: this.namespace,
+      tags: this.filesystemIndexing.tags,
     });
-    const embeddings = await this.embedder.embed(chunks);
-    const fileId = await this.vectorStore.upsertFile(filePath, lastModified);
     await this.vectorStore.clearChunksForFile(fileId);
     await this.vectorStore.insertChunksForFile(fileId, chunks, embeddings);
     this.log(`✅ File ${filePath} indexed`);
@@ -137,43 +186,109 @@ export class RAG {
 
     // Delete all existing data
     this.log("🗑️  Clearing all existing indexed data...");
-    await this.vectorStore.deleteAllRecords();
+    await this.vectorStore.deleteAllRecords(this.namespace);
     this.log("✅ All existing data cleared");
 
     await this.sync();
   }
 
-  public async query(query: string, k: number = 5) {
+  /**
+   * @param options.mode search mode, defaults to the one of the config
+   * @param options.rerank whether to rerank the candidates, when a reranker is configured
+   * @param options.filter conditions the chunks must match, in the namespace of the RAG
+   *                       unless the filter gives another one
+   * @returns the k chunks most relevant to the query, with the metadata to cite them.
+   *          Their score is the vector similarity, or the fused score in hybrid mode,
+   *          and rerankScore the relevance given by the reranker
+   */
+  public async query(
+    query: string,
+    k: number = 5,
+    options: { mode?: SearchMode; rerank?: boolean; filter?: QueryFilter } = {}
+  ): Promise<RetrievedChunk[]> {
+    const mode = options.mode ?? this.search.mode;
+    // An undefined namespace in the filter must not disable the isolation
+    const filter = {
+      ...options.filter,
+      namespace: options.filter?.namespace ?? this.namespace,
+    };
+    if (!this.reranker || options.rerank === false) {
+      return this.searchChunks(query, k, mode, filter);
+    }
+
+    // Over-fetch, then keep the k chunks the reranker finds the most relevant
+    const candidates = mergeRetrievedChunks(
+      await this.searchChunks(
+        query,
+        Math.max(k, this.rerankCandidates),
+        mode,
+        filter
+      )
+    );
+    let scores: number[];
+    try {
+      scores = await this.reranker.rerank(query, candidates);
+    } catch (error) {
+      console.warn("[RAG] Reranking failed, keeping the search order:", error);
+      return candidates.slice(0, k);
+    }
+    return candidates
+      .map((chunk, index) => ({ ...chunk, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, k);
+  }
+
+  private async searchChunks(
+    query: string,
+    k: number,
+    mode: SearchMode,
+    filter: QueryFilter
+  ): Promise<RetrievedChunk[]> {
     // 1. Generate embedding
     const [embedding] = await this.embedder.embed([query]);
 
-    return this.vectorStore.query(embedding, k);
+    if (mode === "vector") {
+      return this.vectorStore.query(embedding, k, filter);
+    }
+
+    // 2. Fuse the vector and full-text rankings of more candidates than needed
+    const candidates = k * HYBRID_CANDIDATES_PER_RESULT;
+    const [vectorChunks, fullTextChunks] = await Promise.all([
+      this.vectorStore.query(embedding, candidates, filter),
+      this.vectorStore.queryFullText(query, candidates, filter),
+    ]);
+    return reciprocalRankFusion(
+      [
+        { chunks: vectorChunks, weight: this.search.vectorWeight },
+        { chunks: fullTextChunks, weight: this.search.fullTextWeight },
+      ],
+      this.search.rrfK
+    ).slice(0, k);
   }
 
   public async indexMemoryById(memoryId: number, data: string) {
     // Chunk the text and create embeddings
-    const chunks = this.chunkText(data, {
-      chunkSize: this.textSplitter.options.chunkSize,
-      chunkOverlapPercentage: this.textSplitter.options.chunkOverlapPercentage,
-    });
-    const embeddings = await this.embedder.embed(chunks);
+    const chunks = this.chunker.chunk(data);
+    const embeddings = await this.embedder.embed(
+      chunks.map((chunk) => chunk.content)
+    );
 
     // Insert chunks with memory_id instead of file_id
-    for (let i = 0; i < chunks.length; i++) {
-      await this.vectorStore.insertChunksForMemory(
-        memoryId,
-        chunks,
-        embeddings
-      );
-    }
+    await this.vectorStore.insertChunksForMemory(memoryId, chunks, embeddings);
 
     this.log(`Indexed text as memory with ${chunks.length} chunks`);
     return memoryId;
   }
 
   // Memory management methods
-  public async createMemory(content: string) {
-    const memoryId = await this.vectorStore.upsertMemory(content, new Date());
+  public async createMemory(
+    content: string,
+    options: { tags?: string[] } = {}
+  ) {
+    const memoryId = await this.vectorStore.upsertMemory(content, new Date(), {
+      namespace: this.namespace,
+      tags: options.tags,
+    });
 
     await this.indexMemoryById(memoryId, content);
 
@@ -185,15 +300,15 @@ export class RAG {
   }
 
   public async getMemory(id: number) {
-    return this.vectorStore.getMemoryRecord(id);
+    return this.getMemoryInNamespace(id);
   }
 
   public async listMemories() {
-    return this.vectorStore.getAllMemoryRecords();
+    return this.vectorStore.getAllMemoryRecords(this.namespace);
   }
 
   public async updateMemory(id: number, content: string) {
-    const existingMemory = await this.vectorStore.getMemoryRecord(id);
+    const existingMemory = await this.getMemoryInNamespace(id);
     if (!existingMemory) {
       return null;
     }
@@ -206,7 +321,7 @@ export class RAG {
   }
 
   public async deleteMemory(id: number) {
-    const existingMemory = await this.vectorStore.getMemoryRecord(id);
+    const existingMemory = await this.getMemoryInNamespace(id);
     if (!existingMemory) {
       return false;
     }
@@ -216,115 +331,10 @@ export class RAG {
 
   // ---------- PRIVATE HELPERS ----------
 
-  // Drop-in: same name + (optional) overlap parameter via a default.
-  private chunkText(
-    text: string,
-    options: {
-      chunkSize: number;
-      chunkOverlapPercentage: number;
-    }
-  ): string[] {
-    if (typeof text !== "string") return [];
-    let size = options.chunkSize;
-    let overlap = Math.floor(
-      (options.chunkSize * options.chunkOverlapPercentage) / 100
-    );
-
-    if (!Number.isFinite(options.chunkSize) || options.chunkSize <= 0)
-      return [text];
-    if (!Number.isFinite(overlap) || overlap < 0) overlap = 0;
-    if (overlap >= options.chunkSize)
-      overlap = Math.max(0, Math.floor(options.chunkSize / 3)); // keep sane
-
-    const SEPARATORS = ["\n\n", "\n", " ", ""]; // paragraphs -> lines -> words -> chars
-
-    const splitRecursive = (
-      input: string,
-      max: number,
-      seps: string[]
-    ): string[] => {
-      const t = input;
-      if (t.length <= max) return [t];
-
-      for (let i = 0; i < seps.length; i++) {
-        const sep = seps[i];
-
-        if (sep === "") {
-          const out: string[] = [];
-          for (let j = 0; j < t.length; j += max) out.push(t.slice(j, j + max));
-          return out;
-        }
-
-        if (t.includes(sep)) {
-          const rawParts = t.split(sep);
-          const parts: string[] = [];
-          for (const part of rawParts) {
-            if (!part) continue;
-            if (part.length <= max) {
-              parts.push(part);
-            } else {
-              parts.push(...splitRecursive(part, max, seps.slice(i + 1)));
-            }
-          }
-
-          // Merge with max size constraint
-          const baseChunks: string[] = [];
-          let current = "";
-          for (const p of parts) {
-            if (!p) continue;
-            if (current.length === 0) {
-              current = p;
-            } else if (current.length + sep.length + p.length <= max) {
-              current += sep + p;
-            } else {
-              baseChunks.push(current);
-              current = p;
-            }
-          }
-          if (current) baseChunks.push(current);
-
-          // Apply overlap: start each subsequent chunk with a suffix of the previous one.
-          if (overlap <= 0 || baseChunks.length <= 1) return baseChunks;
-
-          const overlapped: string[] = [];
-          overlapped.push(baseChunks[0]); // first chunk unchanged
-
-          for (let k = 1; k < baseChunks.length; k++) {
-            const prev = overlapped[overlapped.length - 1];
-            const seed = prev.slice(Math.max(0, prev.length - overlap)); // suffix
-
-            let next = baseChunks[k];
-
-            // If adding the seed exceeds max, trim the front of `next` just enough.
-            const available = size - seed.length;
-            if (available <= 0) {
-              // Seed alone fills (or exceeds) the budget; fall back to cropping seed.
-              const croppedSeed = seed.slice(-Math.max(0, size - 1));
-              overlapped.push(croppedSeed);
-              // Re-insert the remainder of `next` as further chunks respecting size
-              let rest = next;
-              while (rest.length > 0) {
-                overlapped.push(rest.slice(0, size));
-                rest = rest.slice(size);
-              }
-              continue;
-            }
-            if (next.length > available) {
-              next = next.slice(0, available);
-            }
-            overlapped.push(seed + next);
-          }
-          return overlapped;
-        }
-      }
-
-      // Safety fallback
-      const out: string[] = [];
-      for (let i = 0; i < t.length; i += max) out.push(t.slice(i, i + max));
-      return out;
-    };
-
-    return splitRecursive(text, size, SEPARATORS);
+  // The memories of the other namespaces are not found
+  private async getMemoryInNamespace(id: number): Promise<MemoryRecord | null> {
+    const memory = await this.vectorStore.getMemoryRecord(id);
+    return memory?.namespace === this.namespace ? memory : null;
   }
 
   private getFilesFromDir(dir: string): string[] {
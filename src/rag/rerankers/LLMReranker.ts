@@ -0,0 +1,67 @@
+import { z } from "zod";
+import type { Reranker } from "./Reranker.ts";
+import type { RetrievedChunk } from "../storage/VectorStore.ts";
+import type { LLMProvider } from "../../providers/index.ts";
+import { getRerankPrompt } from "../../prompts.ts";
+
+export interface LLMRerankerConfig {
+  llm: LLMProvider;
+  // Model scoring the chunks, usually the helperModel
+  model: string;
+}
+
+const RerankScoresSchema = z.object({
+  scores: z.array(
+    z.object({
+      index: z.number().int(),
+      score: z.number(),
+    })
+  ),
+});
+
+/**
+ * Asks an LLM to score the relevance of each chunk to the query, from 0 to 1.
+ */
+export class LLMReranker implements Reranker {
+  private llm: LLMProvider;
+  private model: string;
+
+  constructor(config: LLMRerankerConfig) {
+    this.llm = config.llm;
+    this.model = config.model;
+  }
+
+  async rerank(query: string, chunks: RetrievedChunk[]): Promise<number[]> {
+    if (chunks.length === 0) return [];
+
+    const passages = chunks
+      .map((chunk, index) => `[${index}] ${chunk.content}`)
+      .join("\n\n");
+    const result = await this.llm.parseChatCompletion(
+      {
+        model: this.model,
+        messages: [
+          { role: "system", content: getRerankPrompt() },
+          {
+            role: "user",
+            content: `Query: ${query}\n\nPassages:\n${passages}`,
+          },
+        ],
+      },
+      RerankScoresSchema,
+      "relevance_scores"
+    );
+    if (!result) {
+      throw new Error("The reranker model returned no scores");
+    }
+
+    // Passages the model did not score are considered irrelevant
+    const scores = chunks.map(() => 0);
+    for (const { index, score } of result.scores) {
+      if (index >= 0 && index < chunks.length) {
+        scores[index] = Math.min(Math.max(score, 0), 1);
+      }
+    }
+    return scores;
+  }
+}
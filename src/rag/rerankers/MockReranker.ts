@@ -0,0 +1,22 @@
+import type { Reranker } from "./Reranker.ts";
+import type { RetrievedChunk } from "../storage/VectorStore.ts";
+
+/**
+ * Deterministic reranker for tests: the score of a chunk is the share of the words of
+ * the query it contains.
+ */
+export class MockReranker implements Reranker {
+  async rerank(query: string, chunks: RetrievedChunk[]): Promise<number[]> {
+    const words = this.getWords(query);
+    return chunks.map((chunk) => {
+      if (words.size === 0) return 0;
+      const chunkWords = this.getWords(chunk.content);
+      const matches = [...words].filter((word) => chunkWords.has(word));
+      return matches.length / words.size;
+    });
+  }
+
+  private getWords(text: string): Set<string> {
+    return new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+  }
+}
@@ -0,0 +1,11 @@
+import type { RetrievedChunk } from "../storage/VectorStore.ts";
+
+export interface Reranker {
+  /**
+   * Scores how relevant each chunk is to the query
+   * @param query the text the chunks were retrieved for
+   * @param chunks candidates of the search
+   * @returns one score per chunk, in the order of the chunks, higher being more relevant
+   */
+  rerank(query: string, chunks: RetrievedChunk[]): Promise<number[]>;
+}
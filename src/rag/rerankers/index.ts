@@ -0,0 +1,3 @@
+export * from "./Reranker.ts";
+export * from "./LLMReranker.ts";
+export * from "./MockReranker.ts";
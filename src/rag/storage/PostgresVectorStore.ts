@@ -1,5 +1,46 @@
 import { Pool } from "pg";
-import type { VectorStore } from "./VectorStore.js";
+import type {
+  FileRecord,
+  MemoryRecord,
+  QueryFilter,
+  RecordOptions,
+  RetrievedChunk,
+  VectorStore,
+} from "./VectorStore.js";
+import type { TextChunk } from "../chunkers/Chunker.ts";
+
+/**
+ * Converts a glob to a POSIX regular expression matching the end of a path: "**"
+ * spans directories, "*" and "?" stay within one and "{a,b}" matches either.
+ */
+const globToRegExp = (glob: string): string => {
+  let regExp = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      const slash = glob[i + 2] === "/";
+      regExp += slash ? "(.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      regExp += "[^/]*";
+    } else if (char === "?") {
+      regExp += "[^/]";
+    } else if (char === "{") {
+      braces++;
+      regExp += "(";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      regExp += ")";
+    } else if (char === "," && braces > 0) {
+      regExp += "|";
+    } else {
+      regExp += char.replace(/[.+^$()|[\]{}\\]/g, "\\$&");
+    }
+  }
+  return `(^|/)${regExp}$`;
+};
 
 export class PostgresVectorStore implements VectorStore {
   private pool: Pool;
@@ -8,21 +49,32 @@ export class PostgresVectorStore implements VectorStore {
     this.pool = pool;
   }
 
-  async upsertFile(filePath: string, lastModified: Date): Promise<number> {
-    const res = await this.pool.query("SELECT id FROM files WHERE path = $1", [
-      filePath,
-    ]);
+  async upsertFile(
+    filePath: string,
+    lastModified: Date,
+    options: RecordOptions
+  ): Promise<number> {
+    const res = await this.pool.query(
+      "SELECT id FROM files WHERE path = $1 AND namespace = $2",
+      [filePath, options.namespace]
+    );
     if (res.rowCount) {
       await this.pool.query(
-        "UPDATE files SET last_modified = $1, last_indexed = $2 WHERE id = $3",
-        [lastModified, new Date(), res.rows[0].id]
+        "UPDATE files SET last_modified = $1, last_indexed = $2, tags = $3 WHERE id = $4",
+        [lastModified, new Date(), options.tags ?? [], res.rows[0].id]
       );
       return res.rows[0].id;
     }
     const insert = await this.pool.query(
-      `INSERT INTO files (path, last_modified, last_indexed, created_at)
-       VALUES ($1, $2, $3, CURRENT_TIMESTAMP) RETURNING id`,
-      [filePath, lastModified, new Date()]
+      `INSERT INTO files (path, namespace, tags, last_modified, last_indexed, created_at)
+       VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP) RETURNING id`,
+      [
+        filePath,
+        options.namespace,
+        options.tags ?? [],
+        lastModified,
+        new Date(),
+      ]
     );
     return insert.rows[0].id;
   }
@@ -31,10 +83,15 @@ export class PostgresVectorStore implements VectorStore {
     await this.pool.query("DELETE FROM files WHERE id = $1", [fileId]);
   }
 
-  async upsertMemory(text: string, lastModified: Date): Promise<number> {
+  async upsertMemory(
+    text: string,
+    lastModified: Date,
+    options: RecordOptions
+  ): Promise<number> {
     const res = await this.pool.query(
-      "INSERT INTO memory (text, last_modified, created_at) VALUES ($1, $2, $3) RETURNING id",
-      [text, lastModified, new Date()]
+      `INSERT INTO memory (text, namespace, tags, last_modified, created_at)
+       VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+      [text, options.namespace, options.tags ?? [], lastModified, new Date()]
     );
     return res.rows[0].id;
   }
@@ -57,15 +114,21 @@ export class PostgresVectorStore implements VectorStore {
 
   async insertChunksForFile(
     fileId: number,
-    chunks: string[],
+    chunks: TextChunk[],
     embeddings: number[][]
   ): Promise<void> {
     const promises = chunks.map((chunk, i) =>
       this.pool.query(
         `INSERT INTO memory_chunks
-         (file_id, chunk_index, content, embedding, created_at)
-         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
-        [fileId, i, chunk, `[${embeddings[i].join(",")}]`]
+         (file_id, chunk_index, content, metadata, embedding, created_at)
+         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)`,
+        [
+          fileId,
+          i,
+          chunk.content,
+          chunk.metadata,
+          `[${embeddings[i].join(",")}]`,
+        ]
       )
     );
     await Promise.all(promises);
@@ -73,15 +136,21 @@ export class PostgresVectorStore implements VectorStore {
 
   async insertChunksForMemory(
     memoryId: number,
-    chunks: string[],
+    chunks: TextChunk[],
     embeddings: number[][]
   ): Promise<void> {
     const promises = chunks.map((chunk, i) =>
       this.pool.query(
         `INSERT INTO memory_chunks
-         (memory_id, chunk_index, content, embedding, created_at)
-         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
-        [memoryId, i, chunk, `[${embeddings[i].join(",")}]`]
+         (memory_id, chunk_index, content, metadata, embedding, created_at)
+         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)`,
+        [
+          memoryId,
+          i,
+          chunk.content,
+          chunk.metadata,
+          `[${embeddings[i].join(",")}]`,
+        ]
       )
     );
     await Promise.all(promises);
@@ -89,75 +158,126 @@ export class PostgresVectorStore implements VectorStore {
 
   async query(
     embedding: number[],
-    k: number
-  ): Promise<{ id: number; source: string; content: string; score: number }[]> {
+    k: number,
+    filter: QueryFilter = {}
+  ): Promise<RetrievedChunk[]> {
+    const params: unknown[] = [`[${embedding.join(",")}]`, k];
+    const conditions = this.getFilterConditions(filter, params);
     const res = await this.pool.query(
       `
-        SELECT mc.id, mc.content,
-          COALESCE(f.path, m.text, 'unknown') AS source,
+        SELECT mc.id, mc.content, mc.metadata,
+          COALESCE(f.path, 'memory:' || m.id, 'unknown') AS source,
+          CASE WHEN mc.file_id IS NULL THEN 'memory' ELSE 'file' END AS source_type,
           mc.embedding <-> $1::vector AS distance
         FROM memory_chunks mc
         LEFT JOIN files f ON mc.file_id = f.id
         LEFT JOIN memory m ON mc.memory_id = m.id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
         ORDER BY distance
         LIMIT $2
       `,
-      [`[${embedding.join(",")}]`, k]
+      params
     );
     return res.rows.map((row: any) => ({
       id: row.id,
       source: row.source,
+      sourceType: row.source_type,
       content: row.content,
       score: 1 - row.distance,
+      metadata: row.metadata,
+    }));
+  }
+
+  async queryFullText(
+    text: string,
+    k: number,
+    filter: QueryFilter = {}
+  ): Promise<RetrievedChunk[]> {
+    const params: unknown[] = [text, k];
+    const conditions = [
+      "mc.content_tsv @@ q.query",
+      ...this.getFilterConditions(filter, params),
+    ];
+    // Any word of the text matches (OR instead of the AND of plainto_tsquery), the
+    // rank being normalized by the length of the chunk like BM25
+    const res = await this.pool.query(
+      `
+        SELECT mc.id, mc.content, mc.metadata,
+          COALESCE(f.path, 'memory:' || m.id, 'unknown') AS source,
+          CASE WHEN mc.file_id IS NULL THEN 'memory' ELSE 'file' END AS source_type,
+          ts_rank(mc.content_tsv, q.query, 1) AS rank
+        FROM memory_chunks mc
+        CROSS JOIN (
+          SELECT replace(plainto_tsquery('simple', $1)::text, ' & ', ' | ')::tsquery AS query
+        ) q
+        LEFT JOIN files f ON mc.file_id = f.id
+        LEFT JOIN memory m ON mc.memory_id = m.id
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY rank DESC
+        LIMIT $2
+      `,
+      params
+    );
+    return res.rows.map((row: any) => ({
+      id: row.id,
+      source: row.source,
+      sourceType: row.source_type,
+      content: row.content,
+      score: row.rank,
+      metadata: row.metadata,
     }));
   }
 
   async getFileRecord(
-    filePath: string
-  ): Promise<{ id: number; path: string; last_modified: Date } | null> {
+    filePath: string,
+    namespace: string
+  ): Promise<FileRecord | null> {
     const res = await this.pool.query(
-      "SELECT id, path, last_modified FROM files WHERE path = $1",
-      [filePath]
+      "SELECT id, path, last_modified FROM files WHERE path = $1 AND namespace = $2",
+      [filePath, namespace]
     );
     return res.rows[0] ?? null;
   }
 
-  async getMemoryRecord(
-    memoryId: number
-  ): Promise<{ id: number; text: string; last_modified: Date } | null> {
+  async getMemoryRecord(memoryId: number): Promise<MemoryRecord | null> {
     const res = await this.pool.query(
-      "SELECT id, text, last_modified FROM memory WHERE id = $1",
+      "SELECT id, text, namespace, tags, last_modified FROM memory WHERE id = $1",
       [memoryId]
     );
     return res.rows[0] ?? null;
   }
 
-  async getAllFileRecords(): Promise<
-    { id: number; path: string; last_modified: Date }[]
-  > {
+  async getAllFileRecords(namespace: string): Promise<FileRecord[]> {
     const res = await this.pool.query(
-      "SELECT id, path, last_modified FROM files"
+      "SELECT id, path, last_modified FROM files WHERE namespace = $1",
+      [namespace]
     );
     return res.rows;
   }
 
-  async getAllMemoryRecords(): Promise<
-    { id: number; text: string; last_modified: Date }[]
-  > {
+  async getAllMemoryRecords(namespace: string): Promise<MemoryRecord[]> {
     const res = await this.pool.query(
-      "SELECT id, text, last_modified FROM memory"
+      "SELECT id, text, namespace, tags, last_modified FROM memory WHERE namespace = $1",
+      [namespace]
     );
     return res.rows;
   }
 
-  async deleteAllRecords(): Promise<void> {
-    await this.pool.query("DELETE FROM memory_chunks");
-    await this.pool.query("DELETE FROM memory");
-    await this.pool.query("DELETE FROM files");
+  async deleteAllRecords(namespace: string): Promise<void> {
+    // The chunks are deleted with their file or memory (ON DELETE CASCADE)
+    await this.pool.query("DELETE FROM memory WHERE namespace = $1", [
+      namespace,
+    ]);
+    await this.pool.query("DELETE FROM files WHERE namespace = $1", [
+      namespace,
+    ]);
   }
 
-  async deleteFileByPath(filePath: string): Promise<void> {
-    await this.pool.query("DELETE FROM files WHERE path = $1", [filePath]);
+  async deleteFileByPath(filePath: string, namespace: string): Promise<void> {
+    await this.pool.query(
+      "DELETE FROM files WHERE path = $1 AND namespace = $2",
+      [filePath, namespace]
+    );
   }
 
   async updateMemory(memoryId: number, content: string): Promise<void> {
@@ -166,4 +286,45 @@ export class PostgresVectorStore implements VectorStore {
       [content, new Date(), memoryId]
     );
   }
+
+  /**
+   * SQL conditions of the filter on the chunks (mc), files (f) and memories (m) of a
+   * query. Their values are added to the parameters of the query.
+   */
+  private getFilterConditions(filter: QueryFilter, params: unknown[]) {
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const conditions: string[] = [];
+    if (filter.namespace !== undefined) {
+      conditions.push(
+        `COALESCE(f.namespace, m.namespace) = ${param(filter.namespace)}`
+      );
+    }
+    if (filter.sourceType === "file") conditions.push("mc.file_id IS NOT NULL");
+    if (filter.sourceType === "memory") {
+      conditions.push("mc.memory_id IS NOT NULL");
+    }
+    if (filter.pathGlob) {
+      conditions.push(`f.path ~ ${param(globToRegExp(filter.pathGlob))}`);
+    }
+    if (filter.tags && filter.tags.length > 0) {
+      conditions.push(`COALESCE(f.tags, m.tags) @> ${param(filter.tags)}`);
+    }
+    const dateRanges = [
+      ["created_at", ">=", filter.createdAfter],
+      ["created_at", "<=", filter.createdBefore],
+      ["last_modified", ">=", filter.modifiedAfter],
+      ["last_modified", "<=", filter.modifiedBefore],
+    ] as const;
+    for (const [column, operator, date] of dateRanges) {
+      if (date) {
+        conditions.push(
+          `COALESCE(f.${column}, m.${column}) ${operator} ${param(date)}`
+        );
+      }
+    }
+    return conditions;
+  }
 }
@@ -1,13 +1,74 @@
+import type { ChunkMetadata, TextChunk } from "../chunkers/Chunker.ts";
+
+export interface RetrievedChunk {
+  id: number;
+  // Path of the file, or "memory:<id>" for memories
+  source: string;
+  sourceType: "file" | "memory";
+  content: string;
+  // Vector similarity, or fused score in hybrid mode
+  score: number;
+  // Relevance given by the reranker, set when the chunk was reranked
+  rerankScore?: number;
+  metadata: ChunkMetadata;
+}
+
+/**
+ * Restricts the chunks a query can return, every condition given must match.
+ */
+export interface QueryFilter {
+  // Collection of the files and memories, e.g. one per project or user
+  namespace?: string;
+  sourceType?: "file" | "memory";
+  // Glob matched against the end of the file paths, e.g. "docs/**/*.md" (memories
+  // never match)
+  pathGlob?: string;
+  // Tags the file or memory must all have
+  tags?: string[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+}
+
+// Where a file or memory is stored and how it is labelled
+export interface RecordOptions {
+  namespace: string;
+  tags?: string[];
+}
+
+export interface FileRecord {
+  id: number;
+  path: string;
+  last_modified: Date;
+}
+
+export interface MemoryRecord {
+  id: number;
+  text: string;
+  namespace: string;
+  tags: string[];
+  last_modified: Date;
+}
+
 export interface VectorStore {
   // File-based operations
-  upsertFile(filePath: string, lastModified: Date): Promise<number>;
+  upsertFile(
+    filePath: string,
+    lastModified: Date,
+    options: RecordOptions
+  ): Promise<number>;
   deleteFile(fileId: number): Promise<void>;
 
   // Needed for filesystem sync
-  deleteFileByPath(filePath: string): Promise<void>;
+  deleteFileByPath(filePath: string, namespace: string): Promise<void>;
 
   // Memory-based operations
-  upsertMemory(text: string, lastModified: Date): Promise<number>;
+  upsertMemory(
+    text: string,
+    lastModified: Date,
+    options: RecordOptions
+  ): Promise<number>;
   deleteMemory(memoryId: number): Promise<void>;
 
   // Chunk operations
@@ -15,37 +76,40 @@ export interface VectorStore {
   clearChunksForMemory(memoryId: number): Promise<void>;
   insertChunksForFile(
     fileId: number,
-    chunks: string[],
+    chunks: TextChunk[],
     embeddings: number[][]
   ): Promise<void>;
   insertChunksForMemory(
     memoryId: number,
-    chunks: string[],
+    chunks: TextChunk[],
     embeddings: number[][]
   ): Promise<void>;
 
   // Query operation (shared for both types of chunks)
   query(
     embedding: number[],
-    k: number
-  ): Promise<{ id: number; source: string; content: string; score: number }[]>;
+    k: number,
+    filter?: QueryFilter
+  ): Promise<RetrievedChunk[]>;
+  // Full-text query, the chunks containing the most words of the text first
+  queryFullText(
+    text: string,
+    k: number,
+    filter?: QueryFilter
+  ): Promise<RetrievedChunk[]>;
 
   // Metadata retrieval
   getFileRecord(
-    filePath: string
-  ): Promise<{ id: number; path: string; last_modified: Date } | null>;
-  getMemoryRecord(
-    memoryId: number
-  ): Promise<{ id: number; text: string; last_modified: Date } | null>;
-
-  getAllFileRecords(): Promise<
-    { id: number; path: string; last_modified: Date }[]
-  >;
-  getAllMemoryRecords(): Promise<
-    { id: number; text: string; last_modified: Date }[]
-  >;
-
-  deleteAllRecords(): Promise<void>;
+    filePath: string,
+    namespace: string
+  ): Promise<FileRecord | null>;
+  getMemoryRecord(memoryId: number): Promise<MemoryRecord | null>;
+
+  getAllFileRecords(namespace: string): Promise<FileRecord[]>;
+  getAllMemoryRecords(namespace: string): Promise<MemoryRecord[]>;
+
+  // Deletes the files, memories and chunks of the namespace
+  deleteAllRecords(namespace: string): Promise<void>;
 
   updateMemory(memoryId: number, content: string): Promise<void>;
 }
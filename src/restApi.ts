@@ -80,12 +80,22 @@ export class RestApiServer {
     // POST /api/memories - Create new memory
     this.fastify.post("/api/memories", async (request: any, reply: any) => {
       try {
-        const { content } = request.body as { content: string };
+        const { content, tags } = request.body as {
+          content: string;
+          tags?: string[];
+        };
         if (!content || content.trim() === "") {
           reply.code(400);
           return { status: "error", error: "Content is required" };
         }
-        const memory = await this.rag.createMemory(content.trim());
+        if (
+          tags !== undefined &&
+          (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string"))
+        ) {
+          reply.code(400);
+          return { status: "error", error: "Tags must be an array of strings" };
+        }
+        const memory = await this.rag.createMemory(content.trim(), { tags });
         return { status: "ok", result: memory };
       } catch (error) {
         reply.code(500);
@@ -1,23 +1,34 @@
 import { Server } from "socket.io";
-import { TinyAgent } from "./tinyAgents.js";
-import { OpenAI } from "openai";
+import { TinyAgent, type TinyAgentRunResult } from "./tinyAgents.js";
+import type { OpenAI } from "openai";
+import { z } from "zod";
 import { getProfileDir, getWorkspaceDir } from "./utils.js";
 import { printLogo, printSystemMessage } from "./cli.ts";
-import { agentConfig } from "./config.js";
+import { agentConfig, getRAGServerEnv } from "./config.js";
 import { RAG } from "./rag/rag.ts";
 import { getRecipePrompt } from "./prompts.ts";
 import type { ToolCall } from "./clientsRegistry.ts";
+import type { ToolApprovalDecision } from "./toolApproval.ts";
 import { ConversationsStorage } from "./conversationsStorage.js";
+import { PostgresArtifactStore } from "./artifactStore.js";
 import { OpenAIEmbedder } from "./rag/embedders/OpenAIEmbedder.ts";
+import { LLMReranker } from "./rag/rerankers/LLMReranker.ts";
 import { TextAdapter } from "./rag/adapters/TextAdapter.ts";
 import { PdfAdapter } from "./rag/adapters/PdfAdapter.ts";
 import { PostgresVectorStore } from "./rag/storage/PostgresVectorStore.ts";
 import { Pool } from "pg";
 import { RestApiServer } from "./restApi.js";
+import { createModelRouter } from "./providers/index.ts";
+import { Cassette, CassetteProvider } from "./cassette.ts";
 
 const PORT = 3000;
 const REST_PORT = 3002;
 
+// Final answer of the generate-recipe runs
+const RecipeSchema = z.object({
+  recipe: z.string().describe("The recipe, in Markdown"),
+});
+
 const io = new Server(PORT, {
   cors: {
     origin: ["http://localhost:3001", "http://localhost:3000"],
@@ -26,15 +37,24 @@ const io = new Server(PORT, {
   },
 });
 
-//TODO: Fix this - load properly the API key
-const API_KEY = agentConfig.baseURL?.includes("google")
-  ? process.env.GEMINI_API_KEY!
-  : process.env.OPENAI_API_KEY!;
-
-const openai = new OpenAI({
-  apiKey: API_KEY,
-  baseURL: agentConfig.baseURL,
-});
+// Each model is sent to the provider named in modelProviders (defaultProvider otherwise)
+const llm = createModelRouter(agentConfig);
+
+/**
+ * Saves the cassette recorded while answering, a failure is only logged so that
+ * the client still gets its answer.
+ */
+const saveCassette = async (cassette: Cassette, path: string) => {
+  try {
+    await cassette.save(path);
+  } catch (error) {
+    console.error(
+      `[Cassette]: could not save the cassette to ${path}: ${
+        (error as Error).message
+      }`
+    );
+  }
+};
 
 const filesystemIndexingConfig = agentConfig.rag.filesystemIndexing;
 const defaultAdapters = [new TextAdapter(), new PdfAdapter()];
@@ -43,6 +63,7 @@ const filesystemIndexing = filesystemIndexingConfig
   ? {
       workspaceDir: filesystemIndexingConfig.workspaceDir,
       adapters: defaultAdapters,
+      tags: filesystemIndexingConfig.tags,
     }
   : undefined;
 
@@ -58,12 +79,46 @@ const rag = new RAG({
       database: process.env.POSTGRES_DB ?? "ragdb",
     })
   ),
+  namespace: agentConfig.rag.namespace,
   textSplitter: agentConfig.rag.textSplitter,
+  search: agentConfig.rag.search,
+  reranker: agentConfig.rag.rerank.enabled
+    ? new LLMReranker({ llm, model: agentConfig.helperModel })
+    : undefined,
+  rerankCandidates: agentConfig.rag.rerank.candidates,
   logsAllowed: true,
 });
 
 const agent = new TinyAgent({
   maxInteractions: agentConfig.maxToolcallsPerInteraction,
+  maxParallelToolCalls: agentConfig.maxParallelToolCalls,
+  subagentMaxInteractions: agentConfig.subagents.maxInteractions,
+  maxSubagentDepth: agentConfig.subagents.maxDepth,
+  toolNamespacing: agentConfig.toolNamespacing,
+  toolTimeoutMs: agentConfig.toolTimeoutMs,
+  toolErrors: agentConfig.toolErrors,
+  maxConsecutiveToolFailures: agentConfig.maxConsecutiveToolFailures,
+  toolApproval: agentConfig.toolApproval,
+  modelPrices: agentConfig.modelPrices,
+  contextManagement: agentConfig.contextManagement,
+  helperModel: agentConfig.helperModel,
+  artifacts: agentConfig.artifacts,
+  artifactStore: new PostgresArtifactStore(),
+  llmRetry: agentConfig.llmRetry,
+  fallbackModels: agentConfig.fallbackModels,
+  clientsHealth: {
+    ...agentConfig.mcpHealth,
+    onStatusChange: (status) => {
+      if (status.state !== "connected") {
+        console.log(
+          `[MCP]: ${status.name} is ${status.state}${
+            status.lastError ? ` (${status.lastError})` : ""
+          }`
+        );
+      }
+      io.emit("mcp-client-status", status);
+    },
+  },
   rag,
 });
 
@@ -83,12 +138,36 @@ const ua =
 
 const customMcpServers = Object.entries(agentConfig.mcpServers || {}).map(
   ([name, server]) => {
-    return agent
-      .getClientsRegistry()
-      .register("stdio", name, server.command, server.args, {
+    if ("url" in server) {
+      return agent
+        .getClientsRegistry()
+        .register(server.transport, name, server.url, {
+          headers: server.headers,
+          bearerToken:
+            server.bearerToken ??
+            (server.bearerTokenEnv
+              ? process.env[server.bearerTokenEnv]
+              : undefined),
+          toolPrefix: server.toolPrefix,
+          timeoutMs: server.timeoutMs,
+          toolTimeouts: server.toolTimeouts,
+        });
+    }
+    return agent.getClientsRegistry().register(
+      "stdio",
+      name,
+      server.command,
+      server.args,
+      {
         ...server.env,
         PATH: process.env.PATH!,
-      });
+      },
+      {
+        toolPrefix: server.toolPrefix,
+        timeoutMs: server.timeoutMs,
+        toolTimeouts: server.toolTimeouts,
+      }
+    );
   }
 );
 
@@ -152,6 +231,7 @@ const clients = [
     .getClientsRegistry()
     .register("stdio", "memory", "npm", ["run", "start-rag-mcp"], {
       PATH: process.env.PATH!,
+      ...getRAGServerEnv(agentConfig.rag),
     })
     .then(() => {
       console.log("[MCP]: RAG Memory client initialized");
@@ -201,11 +281,19 @@ await restApiServer.initialize({
 io.on("connection", (socket) => {
   console.log("Client connected:", socket.id);
 
+  // Aborts the answer being generated for this socket (cancel-generation or disconnect)
+  let generationController: AbortController | undefined;
+
   socket.on("list-tools", async (input, callback) => {
     const tools = await agent.getClientsRegistry().getTools();
     callback({ status: "ok", result: tools });
   });
 
+  socket.on("list-clients-status", async (input, callback) => {
+    const statuses = agent.getClientsRegistry().getClientsStatus();
+    callback({ status: "ok", result: statuses });
+  });
+
   // Conversation management events
   socket.on(
     "create-conversation",
@@ -243,6 +331,19 @@ io.on("connection", (socket) => {
     }
   });
 
+  socket.on("get-artifact", async (input: { id: string }, callback) => {
+    try {
+      const artifact = await agent.getArtifactStore().getArtifact(input.id);
+      if (!artifact) {
+        callback({ status: "error", error: "Artifact not found" });
+        return;
+      }
+      callback({ status: "ok", result: artifact });
+    } catch (error) {
+      callback({ status: "error", error: (error as Error).message });
+    }
+  });
+
   socket.on("delete-conversation", async (input: { id: string }, callback) => {
     try {
       await conversationsStorage.deleteConversation(input.id);
@@ -283,6 +384,22 @@ io.on("connection", (socket) => {
         );
       }
 
+      generationController?.abort();
+      const controller = new AbortController();
+      generationController = controller;
+
+      // Emits an event answered by the client through the acknowledgement callback
+      const askClient = <T>(event: string, payload: unknown) =>
+        new Promise<T>((resolve, reject) => {
+          // The client might never answer, stop waiting when the generation is cancelled
+          controller.signal.addEventListener(
+            "abort",
+            () => reject(new Error("Generation cancelled.")),
+            { once: true }
+          );
+          socket.emit(event, payload, (answer: T) => resolve(answer));
+        });
+
       let streamedContent = "";
       let onStreamAnswer = undefined;
 
@@ -293,19 +410,46 @@ io.on("connection", (socket) => {
         };
       }
 
-      const result = await agent.run({
-        openai,
-        baseMessages: input.messages,
-        ragQueries: input.ragQueries,
-        model: agentConfig.model,
-        onStreamAnswer,
-        onToolCall: (toolCall) => {
-          socket.emit("tool-call", toolCall);
-        },
-        onToolCallResult: (toolCallResult) => {
-          socket.emit("tool-call-result", toolCallResult);
-        },
-      });
+      // Each generation is recorded to its own cassette, overwriting the previous one
+      const cassette = agentConfig.recordCassette
+        ? new Cassette("record")
+        : undefined;
+
+      let result: TinyAgentRunResult;
+      try {
+        result = await agent.run({
+          llm: cassette
+            ? new CassetteProvider({ cassette, provider: llm })
+            : llm,
+          cassette,
+          baseMessages: input.messages,
+          ragQueries: input.ragQueries,
+          model: agentConfig.model,
+          onStreamAnswer,
+          onToolCall: (toolCall) => {
+            socket.emit("tool-call", toolCall);
+          },
+          onToolCallResult: (toolCallResult) => {
+            socket.emit("tool-call-result", toolCallResult);
+          },
+          requestInputFromUser: (question) =>
+            askClient<{ input: string }>("ask-user", { question }),
+          requestToolApproval: (request) =>
+            askClient<ToolApprovalDecision>("tool-approval-request", request),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        // e.g. every model kept failing, the client must not wait for an answer
+        callback({ status: "error", error: (error as Error).message });
+        return;
+      } finally {
+        if (generationController === controller) {
+          generationController = undefined;
+        }
+        if (cassette) {
+          await saveCassette(cassette, agentConfig.recordCassette!);
+        }
+      }
 
       const lastMessageContent =
         result.conversation[result.conversation.length - 1].content;
@@ -321,6 +465,10 @@ io.on("connection", (socket) => {
           input.conversationId,
           result.conversation
         );
+        await conversationsStorage.addConversationUsage(
+          input.conversationId,
+          result.usage
+        );
       }
 
       if (!streamedContent) {
@@ -329,6 +477,10 @@ io.on("connection", (socket) => {
           result: {
             content,
             streamed: false,
+            cancelled: result.cancelled,
+            completion: result.completion,
+            citations: result.citations,
+            usage: result.usage,
           },
         });
       } else {
@@ -337,6 +489,10 @@ io.on("connection", (socket) => {
           result: {
             content,
             streamed: true,
+            cancelled: result.cancelled,
+            completion: result.completion,
+            citations: result.citations,
+            usage: result.usage,
           },
         });
       }
@@ -351,27 +507,37 @@ io.on("connection", (socket) => {
       },
       callback
     ) => {
-      const recipe = await agent.run({
-        openai,
-        baseMessages: [
-          {
-            role: "system",
-            content: getRecipePrompt(),
-          },
-          {
-            role: "user",
-            content:
-              "Generate the recipe for the task given the full conversation with the agent so far: " +
-              JSON.stringify(input, null, 2),
-          },
-        ],
-        model: agentConfig.model,
-      });
-      const recipeContent = recipe.conversation[recipe.conversation.length - 1]
-        .content as string;
-      await rag.createMemory(recipeContent);
+      let recipe: TinyAgentRunResult<z.infer<typeof RecipeSchema>>;
+      try {
+        recipe = await agent.run({
+          llm,
+          baseMessages: [
+            {
+              role: "system",
+              content: getRecipePrompt(),
+            },
+            {
+              role: "user",
+              content:
+                "Generate the recipe for the task given the full conversation with the agent so far: " +
+                JSON.stringify(input, null, 2),
+            },
+          ],
+          model: agentConfig.model,
+          outputSchema: RecipeSchema,
+        });
+      } catch (error) {
+        callback({ status: "error", error: (error as Error).message });
+        return;
+      }
+      if (!recipe.output) {
+        // The agent ran out of interactions before answering
+        callback({ status: "error", error: "No recipe was generated." });
+        return;
+      }
+      await rag.createMemory(recipe.output.recipe);
 
-      callback({ status: "ok", result: recipeContent });
+      callback({ status: "ok", result: recipe.output.recipe });
     }
   );
 
@@ -382,7 +548,7 @@ io.on("connection", (socket) => {
       callback
     ) => {
       const queries = await agent.generateRAGQueries({
-        openai,
+        llm,
         messages: input,
         model: agentConfig.helperModel,
       });
@@ -398,7 +564,7 @@ io.on("connection", (socket) => {
       callback
     ) => {
       const plan = await agent.generatePlan({
-        openai,
+        llm,
         messages: input,
         model: agentConfig.model,
       });
@@ -411,7 +577,15 @@ io.on("connection", (socket) => {
     callback({ status: "ok", result });
   });
 
+  socket.on("cancel-generation", async (input, callback) => {
+    const cancelled = !!generationController;
+    generationController?.abort();
+    generationController = undefined;
+    callback({ status: "ok", result: { cancelled } });
+  });
+
   socket.on("disconnect", () => {
     console.log("Client disconnected:", socket.id);
+    generationController?.abort();
   });
 });
@@ -0,0 +1,223 @@
+import type { OpenAI } from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { z } from "zod";
+
+/**
+ * Plain JSON schema of the final answer, for callers without a zod schema.
+ */
+export interface JsonOutputSchema {
+  // Name given to the schema in the request (default "final_answer")
+  name?: string;
+  schema: Record<string, unknown>;
+  // Strict structured outputs: every property required and no additional ones
+  strict?: boolean;
+}
+
+export type OutputSchema<T> = z.ZodType<T> | JsonOutputSchema;
+
+export type OutputParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Error thrown when the final answer still does not match the output schema once
+ * the validation retries are exhausted.
+ */
+export class StructuredOutputError extends Error {
+  // Content of the last answer of the LLM
+  readonly content: string | null;
+
+  constructor(message: string, content: string | null) {
+    super(message);
+    this.name = "StructuredOutputError";
+    this.content = content;
+  }
+}
+
+const DEFAULT_SCHEMA_NAME = "final_answer";
+
+/**
+ * Response format asking the provider for a JSON answer matching the schema.
+ */
+export const getOutputResponseFormat = (
+  outputSchema: OutputSchema<unknown>
+): OpenAI.ResponseFormatJSONSchema => {
+  if (outputSchema instanceof z.ZodType) {
+    // Only keep the serializable fields, the request may be recorded to a cassette
+    const { json_schema } = zodResponseFormat(
+      outputSchema,
+      DEFAULT_SCHEMA_NAME
+    );
+    return { type: "json_schema", json_schema };
+  }
+  return {
+    type: "json_schema",
+    json_schema: {
+      name: outputSchema.name ?? DEFAULT_SCHEMA_NAME,
+      schema: outputSchema.schema,
+      strict: outputSchema.strict ?? false,
+    },
+  };
+};
+
+/**
+ * Parses the final answer of the LLM and validates it against the schema.
+ * @returns the parsed object, or a description of what is wrong to send back to the LLM
+ */
+export const parseOutput = <T>(
+  outputSchema: OutputSchema<T>,
+  message: Pick<
+    OpenAI.Chat.Completions.ChatCompletionMessage,
+    "content" | "refusal"
+  >
+): OutputParseResult<T> => {
+  if (!message.content) {
+    return {
+      success: false,
+      error: message.refusal
+        ? `The answer was refused: ${message.refusal}`
+        : "The answer is empty.",
+    };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(message.content);
+  } catch (error) {
+    return {
+      success: false,
+      error: `The answer is not valid JSON: ${(error as Error).message}`,
+    };
+  }
+
+  if (outputSchema instanceof z.ZodType) {
+    const parsed = outputSchema.safeParse(value);
+    if (parsed.success) return { success: true, data: parsed.data };
+    return {
+      success: false,
+      error: parsed.error.issues
+        .map((issue) => `${["$", ...issue.path].join(".")}: ${issue.message}`)
+        .join("\n"),
+    };
+  }
+
+  const errors = validateJsonSchema(outputSchema.schema, value);
+  if (errors.length === 0) return { success: true, data: value as T };
+  return { success: false, error: errors.join("\n") };
+};
+
+const getJsonType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+/**
+ * Validates a value against the subset of JSON Schema supported by structured
+ * outputs: type, enum, const, anyOf, properties, required, additionalProperties,
+ * items and local $ref.
+ * @returns the validation errors, empty when the value is valid
+ */
+export const validateJsonSchema = (
+  schema: Record<string, unknown>,
+  value: unknown,
+  path = "$",
+  root: Record<string, unknown> = schema
+): string[] => {
+  if (typeof schema.$ref === "string") {
+    const target = schema.$ref
+      .replace(/^#\/?/, "")
+      .split("/")
+      .filter(Boolean)
+      .reduce<unknown>(
+        (node, key) =>
+          (node as Record<string, unknown> | undefined)?.[
+            key.replace(/~1/g, "/").replace(/~0/g, "~")
+          ],
+        root
+      );
+    if (!target || typeof target !== "object") {
+      return [`${path}: unresolved schema reference ${schema.$ref}`];
+    }
+    return validateJsonSchema(
+      target as Record<string, unknown>,
+      value,
+      path,
+      root
+    );
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = (schema.anyOf as Record<string, unknown>[]).some(
+      (option) => validateJsonSchema(option, value, path, root).length === 0
+    );
+    if (!matches) return [`${path}: does not match any of the allowed schemas`];
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = getJsonType(value);
+    const matches = types.some(
+      (expected) =>
+        expected === type || (expected === "number" && type === "integer")
+    );
+    if (!matches) {
+      return [`${path}: expected ${types.join(" or ")}, got ${type}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return [
+      `${path}: expected one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}`,
+    ];
+  }
+  if ("const" in schema && schema.const !== value) {
+    return [`${path}: expected ${JSON.stringify(schema.const)}`];
+  }
+
+  const errors: string[] = [];
+  if (getJsonType(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<
+      string,
+      Record<string, unknown>
+    >;
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in object)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(
+          ...validateJsonSchema(
+            properties[key],
+            propertyValue,
+            `${path}.${key}`,
+            root
+          )
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unexpected property`);
+      }
+    }
+  }
+  if (
+    Array.isArray(value) &&
+    schema.items &&
+    typeof schema.items === "object"
+  ) {
+    value.forEach((item, index) =>
+      errors.push(
+        ...validateJsonSchema(
+          schema.items as Record<string, unknown>,
+          item,
+          `${path}[${index}]`,
+          root
+        )
+      )
+    );
+  }
+  return errors;
+};
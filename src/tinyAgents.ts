@@ -1,4 +1,10 @@
-import { ClientsRegistry, type ToolCall } from "./clientsRegistry.js";
+import {
+  ClientsRegistry,
+  type AvailableTool,
+  type ToolCall,
+  type ClientsHealthConfig,
+  type ToolNamespacing,
+} from "./clientsRegistry.js";
 import { OpenAI } from "openai";
 import {
   getSystemPromptDesigner,
@@ -6,16 +12,73 @@ import {
   getRAGQueriesPrompt,
   PROMPT_DESIGNER_SYSTEM_PROMPT,
   getPlanPrompt,
+  getSubagentSystemPrompt,
+  getToolOutputSummaryPrompt,
 } from "./prompts.ts";
-import { zodResponseFormat } from "openai/helpers/zod";
 import { z } from "zod";
-import { RAG } from "./rag/index.js";
+import { mergeRetrievedChunks, RAG } from "./rag/index.js";
+import {
+  formatCitationsContext,
+  toCitations,
+  type Citation,
+} from "./rag/citations.js";
+import { mapWithConcurrency, sleep } from "./utils.js";
+import {
+  getToolApprovalPolicy,
+  type ToolApprovalConfig,
+  type ToolApprovalDecision,
+  type ToolApprovalRequest,
+} from "./toolApproval.js";
+import {
+  getArtifactPreview,
+  InMemoryArtifactStore,
+  readArtifactPage,
+  type ArtifactsConfig,
+  type ArtifactStore,
+} from "./artifactStore.js";
+import {
+  getRetryDelay,
+  isRetryableError,
+  LLMProviderError,
+  type FallbackModel,
+  type LLMProvider,
+  type RetryConfig,
+} from "./providers/index.js";
+import { CassetteMismatchError, type Cassette } from "./cassette.js";
+import {
+  getOutputResponseFormat,
+  parseOutput,
+  StructuredOutputError,
+  type OutputSchema,
+} from "./structuredOutput.js";
+import {
+  MiddlewarePipeline,
+  type AgentMiddleware,
+  type MiddlewareContext,
+} from "./middleware.js";
+import {
+  compactConversation,
+  type ContextCompaction,
+  type ContextManagerConfig,
+} from "./contextManager.js";
+import {
+  addUsage,
+  EMPTY_USAGE,
+  estimateCost,
+  getTokenUsage,
+  type ModelPrice,
+  type TokenUsage,
+  type UsageWithCost,
+} from "./usage.js";
 
 export type ToolCallResult = {
   toolCallId: string;
   toolName: string;
   params: unknown;
   result: unknown;
+  isError: boolean;
+  // Set when the result was too large for the conversation and stored as an artifact
+  artifactId?: string;
   startTime: number;
   endTime: number;
   durationMs: number;
@@ -36,15 +99,42 @@ export type ConversationMessage =
   | OpenAI.Chat.Completions.ChatCompletionToolMessageParam
   | OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam;
 
+/**
+ * A request sent to a model for an LLM invocation, retries and fallbacks included.
+ */
+export interface LLMAttempt {
+  model: string;
+  // Set when the model is served by the provider of a fallback entry
+  provider?: string;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  // Message of the error the request failed with
+  error?: string;
+  // HTTP status of the failed request, undefined when the provider could not be reached
+  status?: number;
+  // Time waited before the next attempt with the same model
+  retryDelayMs?: number;
+}
+
 /**
  * Telemetry for a single LLM invocation.
  */
 export interface LLMTelemetry {
+  // Model that answered, a fallback one when the previous ones kept failing
+  model: string;
+  provider?: string;
   requestMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
   responseMessage: OpenAI.Chat.Completions.ChatCompletionMessage;
+  // Tokens reported by the provider, if any
+  usage?: TokenUsage;
+  // Estimated cost in USD, undefined when the model has no price in modelPrices
+  cost?: number;
   startTime: number;
   endTime: number;
   durationMs: number;
+  // Every request sent for this invocation, the last one being the one that succeeded
+  attempts: LLMAttempt[];
 }
 
 /**
@@ -55,25 +145,129 @@ export interface ToolCallTelemetry {
   toolName: string;
   params: unknown;
   result: unknown;
+  // True when the tool failed, the result then describes the error
+  isError: boolean;
+  // Set when the result was too large for the conversation and stored as an artifact,
+  // the LLM then only received a preview
+  artifactId?: string;
   startTime: number;
   endTime: number;
   durationMs: number;
 }
 
+/**
+ * Telemetry for the knowledge base retrieval done before the first LLM call of a run.
+ */
+export interface RAGRetrievalTelemetry {
+  queries: string[];
+  // Chunks given to the LLM, best first, with the score of the search and the one of
+  // the reranker when they were reranked
+  results: {
+    id: number;
+    source: string;
+    score: number;
+    rerankScore?: number;
+  }[];
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+}
+
+/**
+ * Telemetry for a sub-agent spawned through the spawn_subagent tool.
+ * The nested result contains the sub-agent's own llmCalls, toolCalls and subagentRuns,
+ * so the whole run tree can be inspected from the top-level result.
+ */
+export interface SubagentRunTelemetry {
+  toolCallId: string;
+  goal: string;
+  depth: number;
+  result: TinyAgentRunResult;
+}
+
 /**
  * Result object returned by TinyAgent.run(...)
  */
-export interface TinyAgentRunResult {
+export interface TinyAgentRunResult<T = unknown> {
   conversation: ConversationMessage[];
   llmCalls: LLMTelemetry[];
   toolCalls: ToolCallTelemetry[];
+  subagentRuns: SubagentRunTelemetry[];
+  // True when the run was stopped early through its AbortSignal
+  cancelled: boolean;
+  // True when the run was stopped after maxConsecutiveToolFailures failed tool calls in a row
+  toolFailuresLimitReached: boolean;
+  // Old tool outputs summarized or truncated to keep the conversation under its budget
+  compactions: ContextCompaction[];
+  // Tokens and estimated cost of all the LLM calls of the run, sub-agents included
+  usage: UsageWithCost;
+  // Set when a middleware ended the run early, with the reason it gave
+  endReason?: string;
+  // Set when the LLM ended the run with task_complete, its summary is the final answer
+  completion?: TaskCompletion;
+  // Final answer parsed and validated against the outputSchema of the run, if any
+  output?: T;
+  // Knowledge base chunks given to the LLM, numbered as it was asked to cite them
+  citations: Citation[];
+  // Set when ragQueries were given
+  ragRetrieval?: RAGRetrievalTelemetry;
 }
 
+export type ToolErrorsMode = "report" | "throw";
+
+// Arguments of the built-in task_complete tool
+const TaskCompletionSchema = z.object({
+  summary: z.string().min(1),
+  status: z.enum(["success", "partial", "failed"]).default("success"),
+});
+
+export type TaskCompletion = z.infer<typeof TaskCompletionSchema>;
+
 /**
  * Configuration options for constructing a TinyAgent.
  */
 export interface TinyAgentConfig {
   maxInteractions?: number;
+  // Maximum number of tool calls from the same LLM turn executed at the same time
+  maxParallelToolCalls?: number;
+  // Interaction budget of each sub-agent spawned with the spawn_subagent tool
+  subagentMaxInteractions?: number;
+  // How many levels of sub-agents can be nested (0 disables spawn_subagent)
+  maxSubagentDepth?: number;
+  // How tools with the same name exposed by different MCP clients are told apart
+  toolNamespacing?: ToolNamespacing;
+  // Health checks and automatic restart of crashed MCP clients
+  clientsHealth?: ClientsHealthConfig;
+  // Default timeout of MCP tool calls, servers and tools can override it at registration
+  toolTimeoutMs?: number;
+  // "report" sends tool errors (malformed arguments, unknown tools, failing calls) back
+  // to the LLM as tool messages, "throw" rejects the run with the error
+  toolErrors?: ToolErrorsMode;
+  // Number of failed tool calls in a row after which the run is stopped
+  maxConsecutiveToolFailures?: number;
+  // Which tools run automatically, need the user's approval or are denied
+  toolApproval?: ToolApprovalConfig;
+  // Price of the models in USD per million tokens, used to estimate the cost of the runs
+  modelPrices?: Record<string, ModelPrice>;
+  // Token budget of the conversation and how old tool outputs are compacted above it
+  contextManagement?: ContextManagerConfig;
+  // Model summarizing old tool outputs, defaults to the model of the run
+  helperModel?: string;
+  // Size above which tool results are stored out of the conversation, read with read_artifact
+  artifacts?: ArtifactsConfig;
+  // Where the large tool results are stored (default in memory)
+  artifactStore?: ArtifactStore;
+  // Retries with backoff of the LLM requests failing with rate limits, server or network errors
+  llmRetry?: RetryConfig;
+  // Models used in order once the retries of the run's model are exhausted
+  fallbackModels?: FallbackModel[];
+  // Records or replays the MCP tools and tool calls, the LLM requests going through
+  // a CassetteProvider sharing the same cassette
+  cassette?: Cassette;
+  // Hooks called around the LLM and tool calls of the runs, in order
+  middlewares?: AgentMiddleware[];
+  // Times the LLM is asked to fix a final answer not matching the outputSchema of the run
+  maxOutputRetries?: number;
   rag: RAG;
 }
 
@@ -91,73 +285,283 @@ const PlanSchema = z.object({
 
 export type Plan = z.infer<typeof PlanSchema>;
 
+/**
+ * Returns the content of the last assistant message with a textual answer.
+ */
+const getFinalAnswer = (conversation: ConversationMessage[]): string => {
+  for (let i = conversation.length - 1; i >= 0; i--) {
+    const message = conversation[i];
+    if (message.role === "assistant" && typeof message.content === "string") {
+      if (message.content.trim()) return message.content;
+    }
+  }
+  return "";
+};
+
+/**
+ * Reads a streamed chat completion: text deltas are forwarded to onStreamAnswer as they
+ * arrive, tool calls are assembled from their deltas (by index: id, name and argument
+ * fragments). onToolCallReady fires as soon as each tool call is complete, i.e. when the
+ * deltas of the next one start or when the stream ends.
+ *
+ * @returns the assistant message with both the text and the tool calls of the turn,
+ *          and the token usage sent in the last chunk (stream_options.include_usage).
+ */
+const readCompletionStream = async (
+  stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+  onStreamAnswer: (content: string) => void,
+  onToolCallReady: (toolCall: ToolCall) => void
+): Promise<{
+  message: OpenAI.Chat.Completions.ChatCompletionMessage;
+  usage?: OpenAI.Completions.CompletionUsage;
+}> => {
+  let content = "";
+  let usage: OpenAI.Completions.CompletionUsage | undefined;
+  const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall[] =
+    [];
+  const readyIndexes = new Set<number>();
+
+  const notifyReadyToolCalls = (beforeIndex: number) => {
+    toolCalls.forEach((toolCall, index) => {
+      if (index < beforeIndex && !readyIndexes.has(index)) {
+        readyIndexes.add(index);
+        onToolCallReady(toolCall);
+      }
+    });
+  };
+
+  for await (const chunk of stream) {
+    // The usage comes in a last chunk without choices
+    if (chunk.usage) usage = chunk.usage;
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      content += delta.content;
+      onStreamAnswer(delta.content);
+    }
+
+    for (const toolCallDelta of delta.tool_calls ?? []) {
+      const { index } = toolCallDelta;
+      // Deltas of a new tool call: the previous ones won't receive more fragments
+      notifyReadyToolCalls(index);
+      const toolCall = (toolCalls[index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+      if (toolCallDelta.function?.name) {
+        toolCall.function.name += toolCallDelta.function.name;
+      }
+      if (toolCallDelta.function?.arguments) {
+        toolCall.function.arguments += toolCallDelta.function.arguments;
+      }
+    }
+  }
+  notifyReadyToolCalls(toolCalls.length);
+
+  if (toolCalls.length === 0) {
+    return {
+      message: {
+        role: "assistant",
+        content,
+      } as OpenAI.Chat.Completions.ChatCompletionMessage,
+      usage,
+    };
+  }
+  return {
+    message: {
+      role: "assistant",
+      // Text streamed before the tool calls is part of the same turn
+      content: content || null,
+      tool_calls: toolCalls.filter(Boolean),
+    } as OpenAI.Chat.Completions.ChatCompletionMessage,
+    usage,
+  };
+};
+
+/**
+ * Tool result reported to the LLM for tool calls interrupted by a cancellation.
+ */
+const CANCELLED_TOOL_RESULT = {
+  isError: true,
+  content: [{ type: "text", text: "Tool call cancelled by the user." }],
+  error: { type: "cancelled" },
+};
+
+type ToolErrorType =
+  | "invalid_arguments"
+  | "unknown_tool"
+  | "tool_error"
+  | "rejected";
+
+/**
+ * Tool result describing why a tool call failed, in the same shape as MCP error results
+ * so that the LLM can understand the problem and recover from it.
+ */
+const getToolErrorResult = (
+  type: ToolErrorType,
+  tool: string,
+  error: unknown
+) => {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    isError: true,
+    content: [{ type: "text", text: message }],
+    error: { type, tool },
+  };
+};
+
+const isErrorResult = (result: unknown): boolean =>
+  typeof result === "object" &&
+  result !== null &&
+  (result as { isError?: unknown }).isError === true;
+
 /**
  * TinyAgent orchestrates a loop of chatting with an LLM, invoking tools automatically,
  * and collecting detailed telemetry about each LLM and tool call.
  */
 export class TinyAgent {
   private readonly maxInteractions: number;
+  private readonly maxParallelToolCalls: number;
+  private readonly subagentMaxInteractions: number;
+  private readonly maxSubagentDepth: number;
+  private readonly toolErrors: ToolErrorsMode;
+  private readonly maxConsecutiveToolFailures: number;
+  private readonly toolApproval: ToolApprovalConfig;
+  private readonly modelPrices: Record<string, ModelPrice>;
+  private readonly contextManagement: Required<ContextManagerConfig>;
+  private readonly helperModel?: string;
+  private readonly artifacts: Required<ArtifactsConfig>;
+  private readonly artifactStore: ArtifactStore;
+  private readonly llmRetry: Required<RetryConfig>;
+  private readonly fallbackModels: FallbackModel[];
+  private readonly middleware: MiddlewarePipeline;
+  private readonly maxOutputRetries: number;
   private readonly registry: ClientsRegistry;
   private readonly rag: RAG;
 
   /**
    * @param config.maxInteractions Maximum number of LLM ↔ tool iterations (default 10).
+   * @param config.maxParallelToolCalls Maximum number of concurrent tool calls per turn (default 4).
+   * @param config.subagentMaxInteractions Interaction budget of each spawned sub-agent (default 5).
+   * @param config.maxSubagentDepth Maximum nesting level of sub-agents (default 1).
+   * @param config.toolErrors How tool errors are handled, "report" or "throw" (default "report").
+   * @param config.maxConsecutiveToolFailures Failed tool calls in a row before stopping the run (default 3).
+   * @param config.toolApproval Approval policy (auto / confirm / deny) of tools and servers (default auto).
+   * @param config.modelPrices Price of the models (USD per million tokens) to estimate the cost of the runs.
+   * @param config.contextManagement Token budget of the conversation (default 100000, 0 disables) and
+   *        compaction of the old tool outputs above it (default: summarized, last 2 turns kept).
+   * @param config.helperModel Model summarizing the old tool outputs (default: the model of the run).
+   * @param config.artifacts Tool results over maxToolResultChars (default 20000, 0 disables) are stored
+   *        as artifacts, with a preview of previewChars (default 2000) in the conversation.
+   * @param config.artifactStore Store of the artifacts (default in memory).
+   * @param config.maxOutputRetries Retries of a final answer not matching the output schema (default 2).
    */
   constructor(config: TinyAgentConfig) {
     this.maxInteractions = config.maxInteractions ?? 10;
-    this.registry = new ClientsRegistry();
+    this.maxParallelToolCalls = config.maxParallelToolCalls ?? 4;
+    this.subagentMaxInteractions = config.subagentMaxInteractions ?? 5;
+    this.maxSubagentDepth = config.maxSubagentDepth ?? 1;
+    this.toolErrors = config.toolErrors ?? "report";
+    this.maxConsecutiveToolFailures = config.maxConsecutiveToolFailures ?? 3;
+    this.toolApproval = config.toolApproval ?? {};
+    this.modelPrices = config.modelPrices ?? {};
+    this.contextManagement = {
+      maxContextTokens: config.contextManagement?.maxContextTokens ?? 100000,
+      keepRecentTurns: config.contextManagement?.keepRecentTurns ?? 2,
+      strategy: config.contextManagement?.strategy ?? "summarize",
+      truncatedOutputTokens:
+        config.contextManagement?.truncatedOutputTokens ?? 200,
+    };
+    this.helperModel = config.helperModel;
+    this.artifacts = {
+      maxToolResultChars: config.artifacts?.maxToolResultChars ?? 20000,
+      previewChars: config.artifacts?.previewChars ?? 2000,
+      pageChars: config.artifacts?.pageChars ?? 10000,
+    };
+    this.artifactStore = config.artifactStore ?? new InMemoryArtifactStore();
+    this.llmRetry = {
+      maxRetries: config.llmRetry?.maxRetries ?? 3,
+      initialDelayMs: config.llmRetry?.initialDelayMs ?? 1000,
+      maxDelayMs: config.llmRetry?.maxDelayMs ?? 30000,
+    };
+    this.fallbackModels = config.fallbackModels ?? [];
+    this.middleware = new MiddlewarePipeline(config.middlewares);
+    this.maxOutputRetries = config.maxOutputRetries ?? 2;
+    this.registry = new ClientsRegistry({
+      toolNamespacing: config.toolNamespacing,
+      health: config.clientsHealth,
+      defaultToolTimeoutMs: config.toolTimeoutMs,
+      cassette: config.cassette,
+    });
     this.rag = config.rag;
   }
 
   /**
    * Performs RAG retrieval if enabled and a query is provided.
-   * @returns Promise<string> The formatted RAG context or empty string if RAG is disabled
+   * @returns The formatted RAG context, with the chunks numbered for the LLM to cite
+   *          them, or an empty context and no citations if nothing was retrieved
    */
   public async performRAGRetrieval(
     ragQueries: string[],
     ragResultsCount: number
-  ): Promise<string> {
+  ): Promise<{ context: string; citations: Citation[] }> {
     try {
       const results = await Promise.all(
         ragQueries.map((ragQuery) => this.rag.query(ragQuery, ragResultsCount))
       );
 
       if (results.length === 0) {
-        return "";
+        return { context: "", citations: [] };
       }
 
-      // I'm removing duplicates from the results
-      const context = [...new Set(results.flat())]
-
-        .map((result) => {
-          return `[${result.source}]\n${result.content}\n`;
-        })
-        .join("\n");
+      // The queries may retrieve the same chunks
+      const citations = toCitations(mergeRetrievedChunks(results.flat()));
+      if (citations.length === 0) {
+        return { context: "", citations };
+      }
 
-      const ragContext = `\n--- RELEVANT CONTEXT FROM KNOWLEDGE BASE ---\n${context}\n--- END CONTEXT ---\n\nBased on the above context, please proceed with the user's request.`;
-      return ragContext;
+      return { context: formatCitationsContext(citations), citations };
     } catch (error) {
-      return "";
+      return { context: "", citations: [] };
     }
   }
 
   /**
    * Runs the TinyAgent loop.
    *
-   * @param options.openai      An instantiated OpenAI client.
+   * @param options.llm         The LLM provider, or a ModelRouter choosing it from the model.
    * @param options.baseMessages An array of initial messages to prime the LLM.
    * @param options.ragQuery    Optional RAG query to retrieve relevant context.
    * @param options.ragResultsCount Number of RAG results to retrieve (default 5).
+   * @param options.signal      Optional AbortSignal to cancel the run (LLM requests and tool calls).
+   * @param options.requestInputFromUser Asks the user a question, exposes the ask_user tool
+   *                            to the LLM (sub-agents never ask the user).
+   * @param options.requestToolApproval Asks the user to approve, edit or reject the calls to
+   *                            tools with the "confirm" policy (they are rejected without it).
+   * @param options.outputSchema Zod or JSON schema of the final answer. The LLM can still call
+   *                            tools, its last answer is then a JSON object matching the schema,
+   *                            asked again up to maxOutputRetries times when it does not.
+   * @param options.cassette    Cassette recording or replaying the MCP tools of this run, instead
+   *                            of the one given to the agent (the llm records its own requests).
    *
    * The TinyAgent will:
    *  1. Perform RAG retrieval if a query is provided.
    *  2. Retrieve available tools from its ClientsRegistry.
-   *  3. Enter a loop up to maxInteractions times (or until the model stops requesting tools).
+   *  3. Enter a loop up to maxInteractions times (or until the model stops requesting tools
+   *     or calls task_complete, whose summary then becomes the final answer).
    *  4. For each iteration:
-   *     - Send all accumulated messages to openai.chat.completions.create(), measuring telemetry.
-   *     - If the model requests one or more tool calls (via message.tool_calls), invoke each
-   *       using ClientsRegistry.callTool(), measuring telemetry, and append the outputs as
-   *       ToolFunctionOutputMessage messages.
+   *     - Send all accumulated messages to the LLM provider, measuring telemetry.
+   *     - If the model requests one or more tool calls (via message.tool_calls), invoke them
+   *       concurrently (up to maxParallelToolCalls at a time) using ClientsRegistry.callTool(),
+   *       measuring telemetry, and append the outputs as ToolFunctionOutputMessage messages
+   *       in the same order as the tool calls were requested.
+   *     - Tools with the "confirm" approval policy only run once approved by the user,
+   *       "deny" tools never run.
+   *     - Tool errors are reported back to the LLM as tool messages (toolErrors "report"),
+   *       the run stops after maxConsecutiveToolFailures failed tool calls in a row.
    *     - Accumulate all messages in the conversation.
    *
    * @returns A Promise resolving to a TinyAgentRunResult containing:
@@ -165,9 +569,22 @@ export class TinyAgent {
    *     ChatCompletionMessage | ToolFunctionOutputMessage).
    *   - llmCalls: array of telemetry data for each LLM invocation.
    *   - toolCalls: array of telemetry data for each tool invocation.
+   *   - subagentRuns: nested results of the sub-agents spawned during the run.
+   *   - cancelled: whether the run was stopped by its AbortSignal; the other fields then
+   *     contain what was produced before the cancellation.
+   *   - toolFailuresLimitReached: whether the run was stopped because of repeated tool failures.
+   *   - compactions: old tool outputs summarized or truncated to fit contextManagement.maxContextTokens.
+   *   - usage: total tokens and estimated cost of the run, sub-agents included.
+   *   - endReason: why a middleware ended the run early, if one did.
+   *   - completion: the summary and status given to task_complete, if it ended the run.
+   *   - output: the validated final answer when an outputSchema was given.
+   *   - citations: the knowledge base chunks retrieved for ragQueries, with their source.
+   *   - ragRetrieval: the queries, scores and duration of the knowledge base retrieval.
+   * @throws StructuredOutputError when the final answer still does not match the outputSchema
+   *         after the retries.
    */
-  public async run(options: {
-    openai: OpenAI;
+  public async run<T = unknown>(options: {
+    llm: LLMProvider;
     baseMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
     requestInputFromUser?: (question: string) => Promise<{
       input: string;
@@ -178,15 +595,55 @@ export class TinyAgent {
     onStreamAnswer?: (content: string) => void;
     onToolCall?: (toolCall: ToolCall) => void;
     onToolCallResult?: (toolCallResult: ToolCallResult) => void;
-  }): Promise<TinyAgentRunResult> {
+    requestToolApproval?: (
+      request: ToolApprovalRequest
+    ) => Promise<ToolApprovalDecision>;
+    // Overrides the agent's maxInteractions, used to give sub-agents their own budget
+    maxInteractions?: number;
+    // Restricts the tools exposed to the LLM (built-in task_complete is always available)
+    allowedTools?: string[];
+    // Nesting level of this run, 0 for the top-level agent
+    depth?: number;
+    // Models to try in order instead of model and fallbackModels, used to start
+    // sub-agents on the model their parent switched to
+    models?: FallbackModel[];
+    signal?: AbortSignal;
+    outputSchema?: OutputSchema<T>;
+    cassette?: Cassette;
+  }): Promise<TinyAgentRunResult<T>> {
+    const maxInteractions = options.maxInteractions ?? this.maxInteractions;
+    const responseFormat = options.outputSchema
+      ? getOutputResponseFormat(options.outputSchema)
+      : undefined;
+    const depth = options.depth ?? 0;
+    // Streamed tool calls are reported as soon as they are complete, unless a middleware
+    // may still change them
+    const reportToolCallsEarly = !this.middleware.rewritesAnswers;
+
     // Perform RAG retrieval if a query is provided
     let ragContext = "";
+    let citations: Citation[] = [];
+    let ragRetrieval: RAGRetrievalTelemetry | undefined;
     if (options.ragQueries && options.ragQueries.length > 0) {
       const ragResultsCount = options.ragResultsCount ?? 5;
-      ragContext = await this.performRAGRetrieval(
+      const startTime = Date.now();
+      ({ context: ragContext, citations } = await this.performRAGRetrieval(
         options.ragQueries,
         ragResultsCount
-      );
+      ));
+      const endTime = Date.now();
+      ragRetrieval = {
+        queries: options.ragQueries,
+        results: citations.map(({ id, source, score, rerankScore }) => ({
+          id,
+          source,
+          score,
+          rerankScore,
+        })),
+        startTime,
+        endTime,
+        durationMs: endTime - startTime,
+      };
     }
 
     // Add RAG context to base messages if available
@@ -210,7 +667,16 @@ export class TinyAgent {
       }
     }
 
-    const mcpTools = await this.registry.getTools();
+    const mcpTools = (
+      await this.registry.getTools({ cassette: options.cassette })
+    ).filter((tool) =>
+      this.isToolAllowed(
+        tool.function.name,
+        options.allowedTools,
+        depth,
+        !!options.requestInputFromUser
+      )
+    );
     // Map MCP tools into OpenAI's ChatCompletionTool format
     const availableTools: OpenAI.Chat.ChatCompletionTool[] = mcpTools.map(
       (tool) => ({
@@ -223,168 +689,783 @@ export class TinyAgent {
       })
     );
 
+    const mcpToolsByName = new Map(
+      mcpTools.map((tool) => [tool.function.name, tool])
+    );
+
     const conversation: ConversationMessage[] = [...enhancedBaseMessages];
     const llmCalls: LLMTelemetry[] = [];
     const toolCalls: ToolCallTelemetry[] = [];
+    const subagentRuns: SubagentRunTelemetry[] = [];
+    const compactions: ContextCompaction[] = [];
 
     let interactionCount = 0;
-    let taskCompleteAck = 0;
+    let completion: TaskCompletion | undefined;
+    let cancelled = false;
+    let consecutiveToolFailures = 0;
+    let toolFailuresLimitReached = false;
+    const { signal } = options;
+    // The run keeps the fallback model it switched to for its next LLM calls
+    const models: FallbackModel[] = options.models ?? [
+      { model: options.model },
+      ...this.fallbackModels,
+    ];
+    let modelIndex = 0;
+    let endReason: string | undefined;
+    let output: T | undefined;
+    // Validation retries of the final answer are not counted in maxInteractions
+    let outputRetries = 0;
+    const getMiddlewareContext = (): MiddlewareContext => ({
+      model: models[modelIndex].model,
+      depth,
+      interaction: interactionCount,
+      endRun: (reason) => {
+        endReason ??= reason;
+      },
+    });
 
-    while (interactionCount < this.maxInteractions && taskCompleteAck < 2) {
+    while (interactionCount < maxInteractions + outputRetries) {
+      if (signal?.aborted) {
+        cancelled = true;
+        break;
+      }
+      if (endReason) break;
       interactionCount++;
 
-      const llmStart = Date.now();
-
-      let responseMessage: OpenAI.Chat.Completions.ChatCompletionMessage;
-
-      if (options.onStreamAnswer) {
-        // Use streaming for text responses
-        const stream = await options.openai.chat.completions.create({
-          model: options.model,
-          messages: conversation,
-          tools: availableTools,
-          tool_choice: "auto",
-          stream: true,
-        });
-
-        let accumulatedContent = "";
-        let hasToolCalls = false;
+      compactions.push(
+        ...(await compactConversation(conversation, {
+          config: this.contextManagement,
+          summarize: (content, toolName) =>
+            this.summarizeToolOutput({
+              llm: options.llm,
+              model: this.helperModel ?? options.model,
+              content,
+              toolName,
+              signal,
+            }),
+        }))
+      );
 
-        for await (const chunk of stream) {
-          const delta = chunk.choices[0]?.delta;
-          if (!delta) continue;
+      const requestMessages = await this.middleware.beforeLLMCall(
+        getMiddlewareContext(),
+        conversation
+      );
+      if (endReason) break;
 
-          if (delta.tool_calls) {
-            hasToolCalls = true;
-            // For tool calls, we need to accumulate the full response
-            // We'll break out of streaming and make a non-streaming call
-            break;
-          }
+      const llmStart = Date.now();
 
-          if (delta.content) {
-            accumulatedContent += delta.content;
-            options.onStreamAnswer(delta.content);
-          }
-        }
+      let responseMessage: OpenAI.Chat.Completions.ChatCompletionMessage;
+      let responseUsage: OpenAI.Completions.CompletionUsage | undefined;
+      let attempts: LLMAttempt[];
+      // Once part of the answer has been streamed, sending the request again would
+      // stream it twice
+      let streamStarted = false;
 
-        if (hasToolCalls) {
-          // Make a non-streaming call for tool calls
-          const nonStreamResponse =
-            await options.openai.chat.completions.create({
-              model: options.model,
-              messages: conversation,
+      try {
+        const answered = await this.callLLMWithRetries({
+          models: models.slice(modelIndex),
+          signal,
+          canRetry: () => !streamStarted,
+          request: async ({ model, provider }) => {
+            const request = {
+              model,
+              messages: requestMessages,
               tools: availableTools,
-              tool_choice: "auto",
-              stream: false,
+              tool_choice: "auto" as const,
+              ...(responseFormat ? { response_format: responseFormat } : {}),
+            };
+            if (options.onStreamAnswer) {
+              const onStreamAnswer = options.onStreamAnswer;
+              // Stream both the text and the tool calls of the turn
+              const stream = await options.llm.streamChatCompletion(request, {
+                signal,
+                provider,
+              });
+              return readCompletionStream(
+                stream,
+                (content) => {
+                  streamStarted = true;
+                  onStreamAnswer(content);
+                },
+                (toolCall) => {
+                  streamStarted = true;
+                  if (reportToolCallsEarly && options.onToolCall) {
+                    options.onToolCall(toolCall);
+                  }
+                }
+              );
+            }
+            // Non-streaming call
+            const response = await options.llm.createChatCompletion(request, {
+              signal,
+              provider,
             });
-          responseMessage = nonStreamResponse.choices[0]
-            .message as OpenAI.Chat.Completions.ChatCompletionMessage;
-        } else {
-          // Create a message object from the accumulated content
-          responseMessage = {
-            role: "assistant",
-            content: accumulatedContent,
-          } as OpenAI.Chat.Completions.ChatCompletionMessage;
-        }
-      } else {
-        // Non-streaming call
-        const response = await options.openai.chat.completions.create({
-          model: options.model,
-          messages: conversation,
-          tools: availableTools,
-          tool_choice: "auto",
+            return {
+              message: response.choices[0]
+                .message as OpenAI.Chat.Completions.ChatCompletionMessage,
+              usage: response.usage,
+            };
+          },
         });
-        responseMessage = response.choices[0]
-          .message as OpenAI.Chat.Completions.ChatCompletionMessage;
+        modelIndex += answered.modelIndex;
+        responseMessage = answered.response.message;
+        responseUsage = answered.response.usage;
+        attempts = answered.attempts;
+      } catch (error) {
+        if (signal?.aborted) {
+          cancelled = true;
+          break;
+        }
+        throw error;
       }
 
       const llmEnd = Date.now();
 
+      const { model, provider } = models[modelIndex];
+      const usage = responseUsage ? getTokenUsage(responseUsage) : undefined;
       llmCalls.push({
-        requestMessages: conversation,
+        model,
+        provider,
+        requestMessages,
         responseMessage,
+        usage,
+        cost: usage ? estimateCost(usage, this.modelPrices[model]) : undefined,
         startTime: llmStart,
         endTime: llmEnd,
         durationMs: llmEnd - llmStart,
+        attempts,
       });
 
-      conversation.push(responseMessage);
+      const keptMessage = await this.middleware.afterLLMCall(
+        getMiddlewareContext(),
+        responseMessage,
+        usage
+      );
+      conversation.push(keptMessage);
 
-      const toolCallsRequested = responseMessage.tool_calls as
+      const toolCallsRequested = keptMessage.tool_calls as
         | Array<ToolCall>
         | undefined;
+      if (!(options.onStreamAnswer && reportToolCallsEarly)) {
+        // The tool calls as they will run, once the middlewares have changed them
+        for (const toolCall of toolCallsRequested ?? []) {
+          if (options.onToolCall) {
+            options.onToolCall(toolCall);
+          }
+        }
+      }
 
       if (!toolCallsRequested || toolCallsRequested.length === 0) {
-        break;
+        if (!options.outputSchema) break;
+        const parsed = parseOutput(options.outputSchema, keptMessage);
+        if (parsed.success) {
+          output = parsed.data;
+          break;
+        }
+        if (outputRetries >= this.maxOutputRetries) {
+          throw new StructuredOutputError(
+            `The final answer does not match the output schema after ${outputRetries} retries: ${parsed.error}`,
+            keptMessage.content
+          );
+        }
+        outputRetries++;
+        conversation.push({
+          role: "user",
+          content: `Your answer does not match the expected output schema:\n${parsed.error}\nAnswer again with only a JSON object matching the schema.`,
+        });
+        continue;
       }
 
-      // TODO: Make executions in parallel instead of sequentially
-      // TODO: Create a tool, capable of spawning a new TinyAgent instance
-      for (const toolCall of toolCallsRequested) {
-        if (options.onToolCall) {
-          options.onToolCall(toolCall);
-        }
-        const toolCallId = toolCall.id;
-        const functionName = toolCall.function.name;
-        const params = JSON.parse(toolCall.function.arguments || "{}");
-
-        const toolStart = Date.now();
-        let result = "";
-        if (functionName === "task_complete") {
-          taskCompleteAck++;
-        } else {
-          result = await this.registry.callTool(toolCall);
+      if (endReason) {
+        // Every tool call still needs an answer for the conversation to stay valid
+        for (const toolCall of toolCallsRequested) {
+          conversation.push({
+            role: "tool",
+            tool_call_id: toolCall.id,
+            content: JSON.stringify(
+              getToolErrorResult(
+                "rejected",
+                toolCall.function.name,
+                `The run was ended: ${endReason}`
+              )
+            ),
+          });
         }
+        break;
+      }
+
+      const executedToolCalls = await mapWithConcurrency(
+        toolCallsRequested,
+        this.maxParallelToolCalls,
+        async (toolCall) => {
+          const toolCallId = toolCall.id;
+          const functionName = toolCall.function.name;
 
-        const toolEnd = Date.now();
-        if (options.onToolCallResult) {
-          options.onToolCallResult({
+          const toolStart = Date.now();
+          let params: Record<string, unknown> = {};
+          let result: unknown = "";
+          // Interrupted by the cancellation, not a failure of the tool
+          let toolCallCancelled = false;
+          const tool = mcpToolsByName.get(functionName);
+          if (!tool) {
+            result = this.handleToolError(
+              "unknown_tool",
+              functionName,
+              new Error(
+                `Tool "${functionName}" not found among the tools available to this agent.`
+              )
+            );
+          } else {
+            try {
+              const parsed: unknown = JSON.parse(
+                toolCall.function.arguments || "{}"
+              );
+              if (
+                !parsed ||
+                typeof parsed !== "object" ||
+                Array.isArray(parsed)
+              ) {
+                throw new Error("the arguments must be a JSON object");
+              }
+              params = parsed as Record<string, unknown>;
+            } catch (error) {
+              result = this.handleToolError(
+                "invalid_arguments",
+                functionName,
+                new Error(
+                  `Invalid JSON arguments for tool "${functionName}": ${
+                    (error as Error).message
+                  }`
+                )
+              );
+            }
+          }
+
+          if (tool && !isErrorResult(result)) {
+            const decision = await this.middleware.beforeToolCall(
+              getMiddlewareContext(),
+              { toolCallId, toolName: functionName, params }
+            );
+            if (decision.action === "block") {
+              result = getToolErrorResult(
+                "rejected",
+                functionName,
+                `Blocked by ${decision.middleware}: ${decision.reason}`
+              );
+            } else {
+              params = decision.params;
+            }
+          }
+
+          if (tool && !isErrorResult(result)) {
+            try {
+              const decision = await this.getToolApprovalDecision({
+                tool,
+                toolCallId,
+                params,
+                requestToolApproval: options.requestToolApproval,
+              });
+              if (decision.action === "edit") {
+                params = decision.arguments;
+              }
+              // With the arguments edited by the middlewares or the user, if any
+              const approvedToolCall: ToolCall = {
+                ...toolCall,
+                function: {
+                  name: functionName,
+                  arguments: JSON.stringify(params),
+                },
+              };
+
+              if (decision.action === "reject") {
+                result = getToolErrorResult(
+                  "rejected",
+                  functionName,
+                  decision.reason
+                );
+              } else if (functionName === "task_complete") {
+                const parsed = TaskCompletionSchema.safeParse(params);
+                if (!parsed.success) {
+                  throw new Error(
+                    `Invalid arguments for task_complete: ${parsed.error.issues
+                      .map(
+                        (issue) => `${issue.path.join(".")}: ${issue.message}`
+                      )
+                      .join(", ")}`
+                  );
+                }
+                completion = parsed.data;
+                result = `Task marked as ${completion.status}.`;
+              } else if (
+                functionName === "ask_user" &&
+                options.requestInputFromUser
+              ) {
+                if (
+                  typeof params.question !== "string" ||
+                  !params.question.trim()
+                ) {
+                  throw new Error(
+                    'The "question" parameter is required to ask the user, as a string.'
+                  );
+                }
+                const { input } = await options.requestInputFromUser(
+                  params.question
+                );
+                result = input;
+              } else if (functionName === "read_artifact") {
+                result = await this.readArtifact(params);
+              } else if (functionName === "spawn_subagent") {
+                const subagentRun = await this.runSubagent({
+                  llm: options.llm,
+                  // The model in use, not the one that failed before
+                  models: models.slice(modelIndex),
+                  toolCallId,
+                  params,
+                  depth: depth + 1,
+                  signal,
+                  requestToolApproval: options.requestToolApproval,
+                  cassette: options.cassette,
+                });
+                subagentRuns.push(subagentRun);
+                result = getFinalAnswer(subagentRun.result.conversation);
+              } else {
+                result = await this.registry.callTool(approvedToolCall, {
+                  signal,
+                  cassette: options.cassette,
+                });
+              }
+            } catch (error) {
+              if (signal?.aborted) {
+                // Every tool call still needs an answer, the loop stops at the next iteration
+                result = CANCELLED_TOOL_RESULT;
+                toolCallCancelled = true;
+              } else {
+                result = this.handleToolError(
+                  "tool_error",
+                  functionName,
+                  error
+                );
+              }
+            }
+          }
+
+          try {
+            result = await this.middleware.afterToolCall(
+              getMiddlewareContext(),
+              {
+                toolCallId,
+                toolName: functionName,
+                params,
+                result,
+                isError: isErrorResult(result),
+              }
+            );
+          } catch (error) {
+            // The result is not sent as is, the hook may have been redacting it
+            result = this.handleToolError(
+              "tool_error",
+              functionName,
+              new Error(
+                `The result of the tool could not be processed: ${
+                  error instanceof Error ? error.message : String(error)
+                }`
+              )
+            );
+          }
+
+          let content = JSON.stringify(result);
+          let artifactId: string | undefined;
+          if (
+            this.artifacts.maxToolResultChars > 0 &&
+            content.length > this.artifacts.maxToolResultChars &&
+            functionName !== "read_artifact"
+          ) {
+            try {
+              const artifact = await this.artifactStore.saveArtifact({
+                toolCallId,
+                toolName: functionName,
+                content,
+              });
+              artifactId = artifact.id;
+              content = JSON.stringify(
+                getArtifactPreview(artifact, this.artifacts.previewChars)
+              );
+            } catch (error) {
+              // Without an artifact to read the rest from, only the beginning is kept
+              console.error(
+                `Failed to store the result of ${functionName} as an artifact:`,
+                error
+              );
+              content = JSON.stringify({
+                totalChars: content.length,
+                preview: content.slice(0, this.artifacts.previewChars),
+                note: `The result of ${functionName} is too large to be included in full and could not be stored, only its first ${this.artifacts.previewChars} characters are shown.`,
+              });
+            }
+          }
+
+          const toolEnd = Date.now();
+          const toolCallTelemetry: ToolCallTelemetry = {
             toolCallId,
             toolName: functionName,
             params,
             result,
+            isError: isErrorResult(result),
+            artifactId,
             startTime: toolStart,
             endTime: toolEnd,
             durationMs: toolEnd - toolStart,
-          });
+          };
+          if (options.onToolCallResult) {
+            options.onToolCallResult(toolCallTelemetry);
+          }
+          return { toolCallTelemetry, content, toolCallCancelled };
         }
+      );
 
-        toolCalls.push({
-          toolCallId,
-          toolName: functionName,
-          params,
-          result,
-          startTime: toolStart,
-          endTime: toolEnd,
-          durationMs: toolEnd - toolStart,
-        });
+      // Tool messages must follow the order of the tool_calls in the assistant message
+      for (const {
+        toolCallTelemetry,
+        content,
+        toolCallCancelled,
+      } of executedToolCalls) {
+        toolCalls.push(toolCallTelemetry);
 
         const functionOutputMessage: OpenAI.Chat.Completions.ChatCompletionToolMessageParam =
           {
-            tool_call_id: toolCallId,
-            content: JSON.stringify(result),
+            tool_call_id: toolCallTelemetry.toolCallId,
+            content,
             role: "tool",
           };
         conversation.push(functionOutputMessage);
+
+        // The run ends as cancelled, not because of the failures
+        if (toolCallCancelled) continue;
+        consecutiveToolFailures = toolCallTelemetry.isError
+          ? consecutiveToolFailures + 1
+          : 0;
+      }
+
+      // With an outputSchema the final answer is the structured one the LLM gives next
+      if (completion && !options.outputSchema) {
+        conversation.push({ role: "assistant", content: completion.summary });
+        options.onStreamAnswer?.(completion.summary);
+        break;
+      }
+
+      if (consecutiveToolFailures >= this.maxConsecutiveToolFailures) {
+        toolFailuresLimitReached = true;
+        break;
       }
     }
 
-    return {
+    const result: TinyAgentRunResult<T> = {
       conversation,
       llmCalls,
       toolCalls,
+      subagentRuns,
+      cancelled,
+      toolFailuresLimitReached,
+      compactions,
+      usage: [
+        ...[...llmCalls, ...compactions].map((call) => ({
+          ...call.usage,
+          cost: call.cost,
+        })),
+        ...subagentRuns.map((subagentRun) => subagentRun.result.usage),
+      ].reduce(addUsage, EMPTY_USAGE),
+      endReason,
+      completion,
+      output,
+      citations,
+      ragRetrieval,
+    };
+    await this.middleware.onRunEnd(getMiddlewareContext(), result);
+    return result;
+  }
+
+  /**
+   * Runs a nested TinyAgent loop for the spawn_subagent tool, with its own
+   * interaction budget and (optionally) a restricted set of tools.
+   */
+  private async runSubagent(options: {
+    llm: LLMProvider;
+    // Models of the parent from the one it currently uses
+    models: FallbackModel[];
+    toolCallId: string;
+    params: Record<string, unknown>;
+    depth: number;
+    signal?: AbortSignal;
+    requestToolApproval?: (
+      request: ToolApprovalRequest
+    ) => Promise<ToolApprovalDecision>;
+    cassette?: Cassette;
+  }): Promise<SubagentRunTelemetry> {
+    const { goal, system_prompt, tools } = options.params;
+    if (typeof goal !== "string" || !goal) {
+      throw new Error('The "goal" parameter is required to spawn a sub-agent.');
+    }
+    if (system_prompt !== undefined && typeof system_prompt !== "string") {
+      throw new Error('The "system_prompt" parameter must be a string.');
+    }
+    if (
+      tools !== undefined &&
+      (!Array.isArray(tools) || tools.some((tool) => typeof tool !== "string"))
+    ) {
+      throw new Error('The "tools" parameter must be an array of tool names.');
+    }
+
+    const result = await this.run({
+      llm: options.llm,
+      model: options.models[0].model,
+      models: options.models,
+      baseMessages: [
+        { role: "system", content: system_prompt || getSubagentSystemPrompt() },
+        { role: "user", content: goal },
+      ],
+      maxInteractions: this.subagentMaxInteractions,
+      allowedTools: tools,
+      depth: options.depth,
+      signal: options.signal,
+      requestToolApproval: options.requestToolApproval,
+      cassette: options.cassette,
+    });
+
+    return {
+      toolCallId: options.toolCallId,
+      goal,
+      depth: options.depth,
+      result,
+    };
+  }
+
+  /**
+   * Returns the artifact store, e.g. for the clients to display the full tool results.
+   */
+  public getArtifactStore(): ArtifactStore {
+    return this.artifactStore;
+  }
+
+  /**
+   * Reads a page of an artifact for the read_artifact tool.
+   */
+  private async readArtifact(params: Record<string, unknown>) {
+    const { artifact_id, offset, length } = params;
+    if (typeof artifact_id !== "string" || !artifact_id) {
+      throw new Error('The "artifact_id" parameter is required.');
+    }
+    if (offset !== undefined && typeof offset !== "number") {
+      throw new Error('The "offset" parameter must be a number.');
+    }
+    if (length !== undefined && typeof length !== "number") {
+      throw new Error('The "length" parameter must be a number.');
+    }
+    const artifact = await this.artifactStore.getArtifact(artifact_id);
+    if (!artifact) {
+      throw new Error(`Artifact "${artifact_id}" not found.`);
+    }
+    return readArtifactPage(
+      artifact,
+      offset ?? 0,
+      Math.min(length ?? this.artifacts.pageChars, this.artifacts.pageChars)
+    );
+  }
+
+  /**
+   * Sends an LLM request, retrying it with backoff while it fails with a retryable error
+   * (rate limit, server or network error), then moving to the next model of the chain.
+   * Client errors (bad request, authentication, unknown model...) and errors that are not
+   * raised by the provider are thrown right away, the other models would fail the same way.
+   * @returns the response, the index in `models` of the model that answered and all
+   *          the attempts made
+   */
+  private async callLLMWithRetries<T>(options: {
+    models: FallbackModel[];
+    request: (model: FallbackModel) => Promise<T>;
+    // Whether the failed request can be sent again
+    canRetry: () => boolean;
+    signal?: AbortSignal;
+  }): Promise<{ response: T; modelIndex: number; attempts: LLMAttempt[] }> {
+    const attempts: LLMAttempt[] = [];
+    for (let modelIndex = 0; modelIndex < options.models.length; modelIndex++) {
+      const { model, provider } = options.models[modelIndex];
+      for (let retry = 0; ; retry++) {
+        const startTime = Date.now();
+        try {
+          const response = await options.request(options.models[modelIndex]);
+          const endTime = Date.now();
+          attempts.push({
+            model,
+            provider,
+            startTime,
+            endTime,
+            durationMs: endTime - startTime,
+          });
+          return { response, modelIndex, attempts };
+        } catch (error) {
+          const endTime = Date.now();
+          const attempt: LLMAttempt = {
+            model,
+            provider,
+            startTime,
+            endTime,
+            durationMs: endTime - startTime,
+            error: (error as Error)?.message ?? String(error),
+            status:
+              error instanceof LLMProviderError ? error.status : undefined,
+          };
+          attempts.push(attempt);
+          if (
+            options.signal?.aborted ||
+            !isRetryableError(error) ||
+            !options.canRetry()
+          ) {
+            throw error;
+          }
+
+          const delay =
+            retry < this.llmRetry.maxRetries
+              ? getRetryDelay(retry + 1, error, this.llmRetry)
+              : undefined;
+          if (delay === undefined) {
+            if (modelIndex === options.models.length - 1) throw error;
+            // Give up on this model, the next one might be served
+            break;
+          }
+          attempt.retryDelayMs = delay;
+          await sleep(delay, options.signal);
+        }
+      }
+    }
+    throw new Error("No model to send the request to.");
+  }
+
+  /**
+   * Summarizes an old tool output with the helper model, for the context manager.
+   */
+  private async summarizeToolOutput(options: {
+    llm: LLMProvider;
+    model: string;
+    content: string;
+    toolName: string;
+    signal?: AbortSignal;
+  }) {
+    const response = await options.llm.createChatCompletion(
+      {
+        model: options.model,
+        messages: [
+          {
+            role: "system",
+            content: getToolOutputSummaryPrompt(options.toolName),
+          },
+          { role: "user", content: options.content },
+        ],
+      },
+      { signal: options.signal }
+    );
+    const summary = response.choices[0]?.message?.content;
+    if (!summary) {
+      throw new Error("The summary is empty.");
+    }
+    const usage = response.usage ? getTokenUsage(response.usage) : undefined;
+    return {
+      summary,
+      usage,
+      cost: usage
+        ? estimateCost(usage, this.modelPrices[options.model])
+        : undefined,
     };
   }
 
+  /**
+   * Applies the approval policy of a tool call, asking the user when it must be confirmed.
+   * Denied calls, and calls to confirm without a way to ask the user, are rejected.
+   */
+  private async getToolApprovalDecision(options: {
+    tool: AvailableTool;
+    toolCallId: string;
+    params: unknown;
+    requestToolApproval?: (
+      request: ToolApprovalRequest
+    ) => Promise<ToolApprovalDecision>;
+  }): Promise<ToolApprovalDecision> {
+    const { tool, toolCallId, params, requestToolApproval } = options;
+    const toolName = tool.function.name;
+    const policy = getToolApprovalPolicy(this.toolApproval, tool, params);
+
+    if (policy === "auto") {
+      return { action: "approve" };
+    }
+    if (policy === "deny") {
+      return {
+        action: "reject",
+        reason: `Tool "${toolName}" is not allowed by the approval policy.`,
+      };
+    }
+    if (!requestToolApproval) {
+      return {
+        action: "reject",
+        reason: `Tool "${toolName}" requires the user's approval, which cannot be requested.`,
+      };
+    }
+
+    const decision = await requestToolApproval({
+      toolCallId,
+      toolName,
+      clientName: tool.clientName,
+      params,
+    });
+    if (decision.action === "reject") {
+      return {
+        action: "reject",
+        reason: `The user rejected the call to tool "${toolName}"${
+          decision.reason ? `: ${decision.reason}` : "."
+        }`,
+      };
+    }
+    return decision;
+  }
+
+  /**
+   * Rethrows the error of a failed tool call (toolErrors "throw"), or turns it into
+   * the tool result reported to the LLM (toolErrors "report").
+   */
+  private handleToolError(type: ToolErrorType, tool: string, error: unknown) {
+    // A replay that drifted must fail the run, not be reported to the (recorded) LLM
+    if (this.toolErrors === "throw" || error instanceof CassetteMismatchError) {
+      throw error;
+    }
+    return getToolErrorResult(type, tool, error);
+  }
+
+  private isToolAllowed(
+    toolName: string,
+    allowedTools: string[] | undefined,
+    depth: number,
+    canAskUser: boolean
+  ): boolean {
+    if (toolName === "task_complete") return true;
+    // Any tool result can end up in an artifact, so it can always be read
+    if (toolName === "read_artifact") {
+      return this.artifacts.maxToolResultChars > 0;
+    }
+    // ask_user is only exposed when there is someone to answer
+    if (toolName === "ask_user" && !canAskUser) return false;
+    if (toolName === "spawn_subagent" && depth >= this.maxSubagentDepth) {
+      return false;
+    }
+    return !allowedTools || allowedTools.includes(toolName);
+  }
+
   public async generateSystemPrompt(options: {
-    openai: OpenAI;
+    llm: LLMProvider;
     goal: string;
     ragQuery?: string;
     ragResultsCount?: number;
     model: string;
   }): Promise<string> {
     const result = await this.run({
-      openai: options.openai,
+      llm: options.llm,
       baseMessages: [
         {
           role: "system",
@@ -411,30 +1492,32 @@ export class TinyAgent {
   }
 
   public async generateRAGQueries(options: {
-    openai: OpenAI;
+    llm: LLMProvider;
     messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
     model: string;
   }): Promise<string[]> {
-    const { openai, messages, model } = options;
+    const { llm, messages, model } = options;
 
     const RAGQueriesSchema = z.object({
       queries: z.array(z.string()),
     });
 
     try {
-      const completion = await openai.chat.completions.parse({
-        model,
-        messages: [
-          {
-            role: "system",
-            content: getRAGQueriesPrompt(),
-          },
-          ...messages,
-        ],
-        response_format: zodResponseFormat(RAGQueriesSchema, "queries"),
-      });
+      const queries = await llm.parseChatCompletion(
+        {
+          model,
+          messages: [
+            {
+              role: "system",
+              content: getRAGQueriesPrompt(),
+            },
+            ...messages,
+          ],
+        },
+        RAGQueriesSchema,
+        "queries"
+      );
 
-      const queries = completion.choices[0]?.message?.parsed;
       if (!queries) {
         return [];
       }
@@ -447,25 +1530,27 @@ export class TinyAgent {
   }
 
   public async generatePlan(options: {
-    openai: OpenAI;
+    llm: LLMProvider;
     messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
     model: string;
   }): Promise<Plan> {
-    const { openai, messages, model } = options;
+    const { llm, messages, model } = options;
 
-    const completion = await openai.chat.completions.parse({
-      model,
-      messages: [
-        {
-          role: "system",
-          content: getPlanPrompt(),
-        },
-        ...messages,
-      ],
-      response_format: zodResponseFormat(PlanSchema, "plan"),
-    });
+    const plan = await llm.parseChatCompletion(
+      {
+        model,
+        messages: [
+          {
+            role: "system",
+            content: getPlanPrompt(),
+          },
+          ...messages,
+        ],
+      },
+      PlanSchema,
+      "plan"
+    );
 
-    const plan = completion.choices[0]?.message?.parsed;
     if (!plan) {
       throw new Error("The plan is empty.");
     }
@@ -0,0 +1,85 @@
+import type { AvailableTool } from "./clientsRegistry.js";
+
+/**
+ * What happens before a tool runs:
+ * - "auto": the tool runs right away
+ * - "confirm": the user is asked to approve, edit the arguments or reject the call
+ * - "deny": the tool never runs, the LLM is told the call is not allowed
+ */
+export type ToolApprovalPolicy = "auto" | "confirm" | "deny";
+
+/**
+ * A policy, optionally restricted to the calls whose JSON arguments match
+ * argumentsPattern (case-insensitive regular expression).
+ */
+export type ToolApprovalRule =
+  | ToolApprovalPolicy
+  | { policy: ToolApprovalPolicy; argumentsPattern?: string };
+
+export interface ToolApprovalConfig {
+  // Policy of the tools without a matching rule (default "auto")
+  default?: ToolApprovalPolicy;
+  // Rules keyed by MCP server (client) name
+  servers?: Record<string, ToolApprovalRule>;
+  // Rules keyed by tool name, exposed (e.g. "filesystem__write_file") or on its server,
+  // they take precedence over the server rules
+  tools?: Record<string, ToolApprovalRule>;
+}
+
+/**
+ * Sent to the user before running a tool with the "confirm" policy.
+ */
+export interface ToolApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  clientName: string;
+  params: unknown;
+}
+
+export type ToolApprovalDecision =
+  | { action: "approve" }
+  // Runs the tool with the arguments edited by the user
+  | { action: "edit"; arguments: Record<string, unknown> }
+  | { action: "reject"; reason?: string };
+
+const matchRule = (
+  rule: ToolApprovalRule | undefined,
+  serializedParams: string
+): ToolApprovalPolicy | undefined => {
+  if (!rule) return undefined;
+  if (typeof rule === "string") return rule;
+  if (
+    rule.argumentsPattern &&
+    !new RegExp(rule.argumentsPattern, "i").test(serializedParams)
+  ) {
+    return undefined;
+  }
+  return rule.policy;
+};
+
+/**
+ * Returns the approval policy of a tool call: the first matching rule among the
+ * exposed tool name, the tool name on its server and the server name, or the default.
+ * task_complete is always allowed, so that a run can end whatever the configuration,
+ * and so is read_artifact.
+ */
+export const getToolApprovalPolicy = (
+  config: ToolApprovalConfig,
+  tool: AvailableTool,
+  params: unknown
+): ToolApprovalPolicy => {
+  if (tool.function.name === "task_complete") return "auto";
+  // Only reads the results of tools that already ran
+  if (tool.function.name === "read_artifact") return "auto";
+
+  const serializedParams = JSON.stringify(params ?? {});
+  return (
+    matchRule(config.tools?.[tool.function.name], serializedParams) ??
+    (tool.originalName
+      ? matchRule(config.tools?.[tool.originalName], serializedParams)
+      : undefined) ??
+    matchRule(config.servers?.[tool.clientName], serializedParams) ??
+    config.default ??
+    "auto"
+  );
+};
@@ -0,0 +1,87 @@
+import type { OpenAI } from "openai";
+
+/**
+ * Tokens consumed by one or more LLM calls.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // Prompt tokens served from the provider's prompt cache (included in promptTokens)
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Token usage with its estimated cost, in USD. The cost only accounts for the calls
+ * to models with a known price.
+ */
+export interface UsageWithCost extends TokenUsage {
+  cost: number;
+}
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  // Price of cached prompt tokens, defaults to the input price
+  cachedInput?: number;
+  output: number;
+}
+
+export const EMPTY_USAGE: UsageWithCost = {
+  promptTokens: 0,
+  completionTokens: 0,
+  cachedTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+};
+
+/**
+ * Converts the usage reported by the OpenAI API.
+ */
+export const getTokenUsage = (
+  usage: OpenAI.Completions.CompletionUsage
+): TokenUsage => ({
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+  totalTokens: usage.total_tokens,
+});
+
+/**
+ * Estimates the cost of a call, undefined when the price of the model is unknown.
+ */
+export const estimateCost = (
+  usage: TokenUsage,
+  price: ModelPrice | undefined
+): number | undefined => {
+  if (!price) return undefined;
+  const uncachedPromptTokens = usage.promptTokens - usage.cachedTokens;
+  return (
+    (uncachedPromptTokens * price.input +
+      usage.cachedTokens * (price.cachedInput ?? price.input) +
+      usage.completionTokens * price.output) /
+    1_000_000
+  );
+};
+
+export const addUsage = (
+  a: UsageWithCost,
+  b: Partial<UsageWithCost>
+): UsageWithCost => ({
+  promptTokens: a.promptTokens + (b.promptTokens ?? 0),
+  completionTokens: a.completionTokens + (b.completionTokens ?? 0),
+  cachedTokens: a.cachedTokens + (b.cachedTokens ?? 0),
+  totalTokens: a.totalTokens + (b.totalTokens ?? 0),
+  cost: a.cost + (b.cost ?? 0),
+});
+
+/**
+ * Formats a usage for display, e.g. "1234 tokens (200 cached) · ~$0.0012".
+ */
+export const formatUsage = (usage: UsageWithCost): string => {
+  const cached = usage.cachedTokens ? ` (${usage.cachedTokens} cached)` : "";
+  const cost = usage.cost ? ` · ~$${usage.cost.toFixed(4)}` : "";
+  return `${usage.totalTokens} tokens${cached}${cost}`;
+};
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach, type Mock } from "vitest";
+import { OpenAI } from "openai";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { TinyAgent } from "../src/tinyAgents.js";
+import {
+  Cassette,
+  CassetteMismatchError,
+  CassetteProvider,
+  type LLMInteraction,
+  type ToolInteraction,
+} from "../src/cassette.js";
+import { OpenAIProvider } from "../src/providers/index.js";
+
+const HELLO_SERVER_PATH = path.resolve(
+  __dirname,
+  "fixtures/helloWorldServer.js"
+);
+
+const baseMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  { role: "system", content: "You are a helpful assistant." },
+  { role: "user", content: "Greet Ada." },
+];
+
+const mockCompletions = (): Mock =>
+  vi
+    .fn()
+    .mockResolvedValueOnce({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: {
+                  name: "hello-world",
+                  arguments: JSON.stringify({ name: "Ada" }),
+                },
+              },
+            ],
+          },
+        },
+      ],
+    })
+    .mockResolvedValueOnce({
+      choices: [{ message: { role: "assistant", content: "Ada greeted." } }],
+    });
+
+/**
+ * Records a run calling the hello-world tool of a real MCP server.
+ */
+const recordRun = async (cassettePath: string) => {
+  const cassette = new Cassette("record");
+  const agent = new TinyAgent({ cassette } as any);
+  await agent
+    .getClientsRegistry()
+    .register("stdio", "hello-world-client", "node", [HELLO_SERVER_PATH], {
+      PATH: process.env.PATH!,
+    });
+  const create = mockCompletions();
+  try {
+    const result = await agent.run({
+      llm: new CassetteProvider({
+        cassette,
+        provider: new OpenAIProvider({
+          client: { chat: { completions: { create } } } as unknown as OpenAI,
+        }),
+      }),
+      baseMessages,
+      model: "test-model",
+    });
+    await cassette.save(cassettePath);
+    return result;
+  } finally {
+    await agent.getClientsRegistry().cleanup();
+  }
+};
+
+const replayRun = async (
+  cassette: Cassette,
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+) => {
+  // No MCP server and no LLM client: everything comes from the cassette
+  const agent = new TinyAgent({ cassette } as any);
+  return agent.run({
+    llm: new CassetteProvider({ cassette }),
+    baseMessages: messages,
+    model: "test-model",
+  });
+};
+
+describe("Cassette record and replay", () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) await fs.rm(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  const getCassettePath = async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "cassette-"));
+    return path.join(tmpDir, "run.json");
+  };
+
+  it("replays a recorded run without the MCP server nor the LLM", async () => {
+    const cassettePath = await getCassettePath();
+    const recorded = await recordRun(cassettePath);
+
+    const cassette = await Cassette.load(cassettePath);
+    expect(cassette.toJSON().tools.map((t) => t.function.name)).toEqual([
+      "hello-world",
+    ]);
+    expect(cassette.toJSON().interactions.map((i) => i.type)).toEqual([
+      "llm",
+      "tool",
+      "llm",
+    ]);
+
+    const replayed = await replayRun(cassette, baseMessages);
+
+    expect(replayed.conversation).toEqual(
+      JSON.parse(JSON.stringify(recorded.conversation))
+    );
+    expect(replayed.toolCalls[0].result).toEqual({
+      content: [{ type: "text", text: "Hello World Ada!" }],
+    });
+    expect(() => cassette.assertFullyReplayed()).not.toThrow();
+  });
+
+  it("replays a cassette given to the run instead of the agent", async () => {
+    const cassettePath = await getCassettePath();
+    await recordRun(cassettePath);
+    const cassette = await Cassette.load(cassettePath);
+
+    const agent = new TinyAgent({} as any);
+    const replayed = await agent.run({
+      llm: new CassetteProvider({ cassette }),
+      cassette,
+      baseMessages,
+      model: "test-model",
+    });
+
+    expect(replayed.toolCalls[0].result).toEqual({
+      content: [{ type: "text", text: "Hello World Ada!" }],
+    });
+    expect(() => cassette.assertFullyReplayed()).not.toThrow();
+  });
+
+  it("fails loudly when a request drifts from the recording", async () => {
+    const cassettePath = await getCassettePath();
+    await recordRun(cassettePath);
+    const cassette = await Cassette.load(cassettePath);
+
+    const error = await replayRun(cassette, [
+      baseMessages[0],
+      { role: "user", content: "Greet Grace." },
+    ]).catch((error) => error);
+
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.message).toContain(
+      'the LLM request to test-model was not recorded. It differs from the next recorded one at "request.messages[1].content": recorded "Greet Ada.", got "Greet Grace."'
+    );
+  });
+
+  it("fails the run when a tool call was not recorded", async () => {
+    const cassettePath = await getCassettePath();
+    await recordRun(cassettePath);
+    const cassette = await Cassette.load(cassettePath);
+    const toolCall = cassette.toJSON().interactions[1] as ToolInteraction;
+    toolCall.arguments = { name: "Grace" };
+
+    // Not reported to the LLM as a tool error, the run stops
+    await expect(replayRun(cassette, baseMessages)).rejects.toThrow(
+      'the call to the tool "hello-world" was not recorded. It differs from the next recorded one at "arguments.name": recorded "Grace", got "Ada"'
+    );
+  });
+
+  it("reports the recorded interactions that were never replayed", async () => {
+    const cassettePath = await getCassettePath();
+    await recordRun(cassettePath);
+    const cassette = await Cassette.load(cassettePath);
+    const firstRequest = cassette.toJSON().interactions[0] as LLMInteraction;
+
+    cassette.replayLLMInteraction("create", firstRequest.request);
+
+    expect(() => cassette.assertFullyReplayed()).toThrow(
+      '2 recorded interaction(s) were not replayed: call to the tool "hello-world", LLM create request to test-model.'
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  createChunker,
+  registerChunker,
+  type TextChunk,
+} from "../src/rag/chunkers/index.js";
+import { formatCitationLabel } from "../src/rag/citations.js";
+
+describe("Chunkers", () => {
+  it("keeps the section path of markdown chunks", () => {
+    const chunker = createChunker({
+      strategy: "markdown-heading-chunker",
+      options: { chunkSize: 200, chunkOverlapPercentage: 0 },
+    });
+
+    const chunks = chunker.chunk(
+      [
+        "Intro text.",
+        "# Setup",
+        "## Database",
+        "Run the migrations.",
+        "```sh",
+        "# not a heading",
+        "```",
+        "# Usage",
+        "Start the server.",
+      ].join("\n")
+    );
+
+    expect(chunks).toEqual([
+      {
+        content: "Intro text.",
+        metadata: { startChar: 0, endChar: 11, startLine: 1, endLine: 1 },
+      },
+      {
+        content:
+          "Setup > Database\n\nRun the migrations.\n```sh\n# not a heading\n```",
+        metadata: {
+          headingPath: ["Setup", "Database"],
+          startChar: 32,
+          endChar: 77,
+          startLine: 4,
+          endLine: 7,
+        },
+      },
+      {
+        content: "Usage\n\nStart the server.",
+        metadata: {
+          headingPath: ["Usage"],
+          startChar: 86,
+          endChar: 103,
+          startLine: 9,
+          endLine: 9,
+        },
+      },
+    ]);
+  });
+
+  it("limits token chunks to chunkSize estimated tokens, with overlap", () => {
+    const chunker = createChunker({
+      strategy: "token-chunker",
+      // 4 words of 4 characters (1 token each) per chunk, 1 word of overlap
+      options: { chunkSize: 4, chunkOverlapPercentage: 25 },
+    });
+
+    const chunks = chunker.chunk("aaaa bbbb cccc dddd eeee ffff gggg");
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      "aaaa bbbb cccc dddd",
+      "dddd eeee ffff gggg",
+    ]);
+  });
+
+  it("groups whole sentences into overlapping windows", () => {
+    const chunker = createChunker({
+      strategy: "sentence-window-chunker",
+      options: { chunkSize: 40, overlapSentences: 1 },
+    });
+
+    const chunks = chunker.chunk(
+      "Use e.g. pgvector. It stores vectors. It is fast. It is free."
+    );
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      "Use e.g. pgvector. It stores vectors.",
+      "It stores vectors. It is fast.",
+      "It is fast. It is free.",
+    ]);
+  });
+
+  it("splits source files by function and class, with their comments", () => {
+    const chunker = createChunker({
+      strategy: "code-chunker",
+      options: { chunkSize: 120, chunkOverlapPercentage: 0 },
+    });
+    const source = [
+      'import fs from "fs";',
+      "",
+      "// Reads the config",
+      "export function readConfig() {",
+      '  return fs.readFileSync("config.json", "utf-8");',
+      "}",
+      "",
+      "class Store {",
+      "  get() {}",
+      "}",
+    ].join("\n");
+
+    expect(
+      chunker
+        .chunk(source, { path: "src/config.ts" })
+        .map((chunk) => chunk.content)
+    ).toEqual([
+      'import fs from "fs";',
+      '// Reads the config\nexport function readConfig() {\n  return fs.readFileSync("config.json", "utf-8");\n}',
+      "class Store {\n  get() {}\n}",
+    ]);
+    // Not a source file: split like recursive-character-chunker
+    expect(chunker.chunk(source, { path: "notes.txt" })).toEqual(
+      createChunker({
+        strategy: "recursive-character-chunker",
+        options: { chunkSize: 120, chunkOverlapPercentage: 0 },
+      }).chunk(source)
+    );
+  });
+
+  it("locates chunks by page and line to cite them", () => {
+    const chunker = createChunker({
+      strategy: "recursive-character-chunker",
+      options: { chunkSize: 12, chunkOverlapPercentage: 0 },
+    });
+
+    // Adapters end each page of a PDF with a form feed
+    const chunks = chunker.chunk("First page\f\nSecond page\nsame page\f");
+
+    expect(chunks.map((chunk) => chunk.metadata)).toEqual([
+      { page: 1, startChar: 0, endChar: 11, startLine: 1, endLine: 1 },
+      { page: 2, startChar: 12, endChar: 23, startLine: 2, endLine: 2 },
+      { page: 2, startChar: 24, endChar: 34, startLine: 3, endLine: 3 },
+    ]);
+    expect(
+      chunks.map((chunk) =>
+        formatCitationLabel({ source: "manual.pdf", metadata: chunk.metadata })
+      )
+    ).toEqual([
+      "manual.pdf, p. 1, line 1",
+      "manual.pdf, p. 2, line 2",
+      "manual.pdf, p. 2, line 3",
+    ]);
+    expect(
+      formatCitationLabel({
+        source: "docs/setup.md",
+        metadata: {
+          headingPath: ["Setup", "Database"],
+          startLine: 4,
+          endLine: 7,
+        },
+      })
+    ).toBe("docs/setup.md › Setup › Database, lines 4-7");
+  });
+
+  it("creates registered chunkers and rejects unknown strategies", () => {
+    registerChunker("lines", () => ({
+      chunk: (text: string): TextChunk[] =>
+        text.split("\n").map((content) => ({ content, metadata: {} })),
+    }));
+
+    expect(
+      createChunker({ strategy: "lines", options: { chunkSize: 10 } }).chunk(
+        "a\nb"
+      )
+    ).toEqual([
+      { content: "a", metadata: {} },
+      { content: "b", metadata: {} },
+    ]);
+    expect(() =>
+      createChunker({ strategy: "semantic", options: { chunkSize: 10 } })
+    ).toThrow(
+      'Unknown textSplitter strategy "semantic", expected one of: recursive-character-chunker, token-chunker, markdown-heading-chunker, sentence-window-chunker, code-chunker, lines'
+    );
+  });
+});
@@ -1,11 +1,24 @@
-import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterAll,
+  afterEach,
+  vi,
+  type Mock,
+} from "vitest";
 import path from "path";
 import {
   ClientsRegistry,
   INTERACTION_SERVER,
   type ToolCall,
   type AvailableTool,
+  type ClientStatus,
+  type ClientsHealthConfig,
 } from "../src/clientsRegistry.js";
+import { startHelloWorldHttpServer } from "./fixtures/helloWorldHttpServer.js";
 
 describe("ClientsRegistry (without external dependencies)", () => {
   let registry: ClientsRegistry;
@@ -14,10 +27,15 @@ describe("ClientsRegistry (without external dependencies)", () => {
     registry = new ClientsRegistry();
   });
 
-  it("getTools should return only the two default tools when no clients are registered", async () => {
+  it("getTools should return only the default tools when no clients are registered", async () => {
     const tools = await registry.getTools();
     const names = tools.map((t) => t.function.name).sort();
-    expect(names).toEqual(["ask_question", "task_complete"]);
+    expect(names).toEqual([
+      "ask_user",
+      "read_artifact",
+      "spawn_subagent",
+      "task_complete",
+    ]);
 
     // Verify clientName for each default tool is INTERACTION_SERVER
     tools.forEach((t) => {
@@ -127,3 +145,429 @@ describe("ClientsRegistry with HelloWorld MCP server", () => {
     expect(firstPart).toHaveProperty("text", "Hello World Alice!");
   });
 });
+
+describe("ClientsRegistry tool namespacing", () => {
+  const registries: ClientsRegistry[] = [];
+
+  const createRegistry = async (
+    config: ConstructorParameters<typeof ClientsRegistry>[0],
+    prefixes: Record<string, string | undefined> = {}
+  ) => {
+    const registry = new ClientsRegistry(config);
+    registries.push(registry);
+    for (const name of ["hello-a", "hello-b"]) {
+      await registry.register(
+        "stdio",
+        name,
+        "node",
+        [HELLO_SERVER_PATH],
+        { PATH: process.env.PATH! },
+        { toolPrefix: prefixes[name] }
+      );
+    }
+    return registry;
+  };
+
+  const helloToolNames = (tools: AvailableTool[]) =>
+    tools
+      .filter((t) => t.clientName !== INTERACTION_SERVER)
+      .map((t) => t.function.name)
+      .sort();
+
+  afterAll(async () => {
+    await Promise.all(registries.map((registry) => registry.cleanup()));
+  });
+
+  it("prefixes colliding tools with their client name by default", async () => {
+    const registry = await createRegistry({});
+    const tools = await registry.getTools();
+    expect(helloToolNames(tools)).toEqual([
+      "hello-a__hello-world",
+      "hello-b__hello-world",
+    ]);
+
+    const toolB = tools.find((t) => t.function.name === "hello-b__hello-world");
+    expect(toolB?.clientName).toBe("hello-b");
+    expect(toolB?.originalName).toBe("hello-world");
+  });
+
+  it("callTool resolves a namespaced name back to the right client", async () => {
+    const registry = await createRegistry({});
+    const clientB = (registry as any).clients["hello-b"];
+    const callToolSpy = vi.spyOn(clientB, "callTool");
+
+    const result = await registry.callTool({
+      id: "call-1",
+      function: {
+        name: "hello-b__hello-world",
+        arguments: JSON.stringify({ name: "Bob" }),
+      },
+    });
+
+    expect(result.content[0]).toHaveProperty("text", "Hello World Bob!");
+    expect(callToolSpy).toHaveBeenCalledWith(
+      {
+        name: "hello-world",
+        arguments: { name: "Bob" },
+      },
+      undefined,
+      expect.objectContaining({ timeout: 60000 })
+    );
+  });
+
+  it('keeps the first tool and drops the others in "none" mode', async () => {
+    const registry = await createRegistry({ toolNamespacing: "none" });
+    const tools = await registry.getTools();
+    const helloTools = tools.filter((t) => t.function.name === "hello-world");
+    expect(helloTools).toHaveLength(1);
+    expect(helloTools[0].clientName).toBe("hello-a");
+  });
+
+  it("applies the per-server prefix, avoiding collisions", async () => {
+    const registry = await createRegistry({}, { "hello-a": "greeter" });
+    const tools = await registry.getTools();
+    expect(helloToolNames(tools)).toEqual([
+      "greeter__hello-world",
+      "hello-world",
+    ]);
+  });
+
+  it('prefixes every tool in "always" mode', async () => {
+    const registry = new ClientsRegistry({ toolNamespacing: "always" });
+    registries.push(registry);
+    await registry.register("stdio", "hello-a", "node", [HELLO_SERVER_PATH], {
+      PATH: process.env.PATH!,
+    });
+    const tools = await registry.getTools();
+    expect(helloToolNames(tools)).toEqual(["hello-a__hello-world"]);
+  });
+});
+
+const DYNAMIC_TOOLS_SERVER_PATH = path.resolve(
+  __dirname,
+  "fixtures/dynamicToolsServer.js"
+);
+
+describe("ClientsRegistry tools cache", () => {
+  let registry: ClientsRegistry;
+  let listToolsSpy: Mock;
+
+  beforeEach(async () => {
+    registry = new ClientsRegistry();
+    const { client } = await registry.register(
+      "stdio",
+      "dynamic-tools",
+      "node",
+      [DYNAMIC_TOOLS_SERVER_PATH],
+      { PATH: process.env.PATH! }
+    );
+    listToolsSpy = vi.spyOn(client, "listTools") as unknown as Mock;
+  });
+
+  afterEach(async () => {
+    await registry.cleanup();
+  });
+
+  it("queries each client only once across getTools and callTool", async () => {
+    await registry.getTools();
+    await registry.getTools();
+    await registry.callTool({
+      id: "call-1",
+      function: { name: "enable-tool", arguments: "{}" },
+    });
+
+    expect(listToolsSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes the listing when the client notifies a tools/list_changed", async () => {
+    const before = await registry.getTools();
+    expect(before.map((t) => t.function.name)).not.toContain("dynamic-tool");
+
+    await registry.callTool({
+      id: "call-1",
+      function: { name: "enable-tool", arguments: "{}" },
+    });
+    await vi.waitFor(async () => {
+      const after = await registry.getTools();
+      expect(after.map((t) => t.function.name)).toContain("dynamic-tool");
+    });
+    expect(listToolsSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("refreshTools always queries the clients again", async () => {
+    await registry.getTools();
+    await registry.refreshTools();
+    expect(listToolsSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops the tools of closed clients", async () => {
+    await registry.getTools();
+    await registry.closeClient("dynamic-tools");
+
+    const tools = await registry.getTools();
+    expect(tools.every((t) => t.clientName === INTERACTION_SERVER)).toBe(true);
+  });
+});
+
+const CRASHING_SERVER_PATH = path.resolve(
+  __dirname,
+  "fixtures/crashingServer.js"
+);
+
+describe("ClientsRegistry health monitoring", () => {
+  let registry: ClientsRegistry;
+  let statusChanges: ClientStatus[];
+
+  const createRegistry = (health: ClientsHealthConfig = {}) => {
+    statusChanges = [];
+    registry = new ClientsRegistry({
+      health: {
+        restartInitialDelayMs: 10,
+        ...health,
+        onStatusChange: (status) => statusChanges.push(status),
+      },
+    });
+    return registry.register(
+      "stdio",
+      "crashing",
+      "node",
+      [CRASHING_SERVER_PATH],
+      { PATH: process.env.PATH! }
+    );
+  };
+
+  const crash = () =>
+    registry.callTool({
+      id: "call-crash",
+      function: { name: "crash", arguments: "{}" },
+    });
+
+  afterEach(async () => {
+    await registry.cleanup();
+  });
+
+  it("reports registered clients as connected", async () => {
+    await createRegistry();
+    expect(registry.getClientsStatus()).toEqual([
+      expect.objectContaining({
+        name: "crashing",
+        state: "connected",
+        restartAttempts: 0,
+      }),
+    ]);
+  });
+
+  it("restarts a crashed stdio client", async () => {
+    const { client } = await createRegistry();
+    await crash();
+
+    await vi.waitFor(() => {
+      expect(registry.getClientsStatus()[0].state).toBe("connected");
+      expect(registry.getClientsStatus()[0].restartAttempts).toBe(1);
+    });
+
+    expect(statusChanges.map((status) => status.state)).toEqual([
+      "connected",
+      "restarting",
+      "connected",
+    ]);
+    expect(registry.getClientsStatus()[0].lastError).toBe(
+      "Connection closed unexpectedly"
+    );
+
+    // The new client is used for the following calls
+    expect((registry as any).clients["crashing"]).not.toBe(client);
+    const tools = await registry.getTools();
+    expect(tools.map((t) => t.function.name)).toContain("crash");
+  });
+
+  it("marks the client as failed once the restart attempts are exhausted", async () => {
+    await createRegistry({ maxRestartAttempts: 0 });
+    await crash();
+
+    await vi.waitFor(() => {
+      expect(registry.getClientsStatus()[0].state).toBe("failed");
+    });
+    const tools = await registry.getTools();
+    expect(tools.map((t) => t.function.name)).not.toContain("crash");
+  });
+
+  it("restarts clients failing the health check", async () => {
+    const { client } = await createRegistry();
+    vi.spyOn(client, "ping").mockRejectedValueOnce(new Error("Ping timeout"));
+
+    await registry.checkHealth();
+    expect(registry.getClientsStatus()[0]).toMatchObject({
+      state: "restarting",
+      lastError: "Ping timeout",
+    });
+
+    await vi.waitFor(() => {
+      expect(registry.getClientsStatus()[0].state).toBe("connected");
+    });
+  });
+
+  it("does not restart clients closed on purpose", async () => {
+    await createRegistry();
+    await registry.closeClient("crashing");
+
+    expect(registry.getClientsStatus()).toEqual([]);
+    expect(statusChanges.map((status) => status.state)).toEqual(["connected"]);
+  });
+
+  it("replaces a client registered again under the same name", async () => {
+    const { client } = await createRegistry({ restartInitialDelayMs: 50 });
+    await crash();
+    await vi.waitFor(() => {
+      expect(registry.getClientsStatus()[0].state).toBe("restarting");
+    });
+
+    const { client: newClient } = await registry.register(
+      "stdio",
+      "crashing",
+      "node",
+      [CRASHING_SERVER_PATH],
+      { PATH: process.env.PATH! }
+    );
+    expect(newClient).not.toBe(client);
+
+    // The pending restart of the old client doesn't replace the new one
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect((registry as any).clients["crashing"]).toBe(newClient);
+    expect(registry.getClientsStatus()).toEqual([
+      expect.objectContaining({ state: "connected", restartAttempts: 0 }),
+    ]);
+  });
+});
+
+const SLOW_SERVER_PATH = path.resolve(__dirname, "fixtures/slowServer.js");
+
+describe("ClientsRegistry tool timeouts and cancellation", () => {
+  let registry: ClientsRegistry;
+
+  const sleep = (ms: number, signal?: AbortSignal) =>
+    registry.callTool(
+      {
+        id: "call-sleep",
+        function: { name: "sleep", arguments: JSON.stringify({ ms }) },
+      },
+      { signal }
+    );
+
+  beforeEach(() => {
+    registry = new ClientsRegistry({ defaultToolTimeoutMs: 2000 });
+  });
+
+  afterEach(async () => {
+    await registry.cleanup();
+  });
+
+  const registerSlowServer = (options = {}) =>
+    registry.register(
+      "stdio",
+      "slow",
+      "node",
+      [SLOW_SERVER_PATH],
+      { PATH: process.env.PATH! },
+      options
+    );
+
+  it("returns the tool result when the call completes in time", async () => {
+    await registerSlowServer({ timeoutMs: 1000 });
+    const result = await sleep(10);
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0].text).toBe("Slept 10ms");
+  });
+
+  it("returns a structured timeout error when the server timeout expires", async () => {
+    await registerSlowServer({ timeoutMs: 50 });
+    const result = await sleep(1000);
+    expect(result).toEqual({
+      isError: true,
+      content: [{ type: "text", text: 'Tool "sleep" timed out after 50ms.' }],
+      error: { type: "timeout", tool: "sleep", timeoutMs: 50 },
+    });
+  });
+
+  it("per-tool timeouts override the server timeout", async () => {
+    await registerSlowServer({ timeoutMs: 50, toolTimeouts: { sleep: 1000 } });
+    const result = await sleep(100);
+    expect(result.isError).toBeFalsy();
+  });
+
+  it("rejects when the call is aborted", async () => {
+    await registerSlowServer();
+    const controller = new AbortController();
+    const pending = sleep(1000, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+    await expect(pending).rejects.toThrow();
+  });
+});
+
+describe.each([
+  { transportType: "streamable-http" as const, path: "/mcp" },
+  { transportType: "sse" as const, path: "/sse" },
+])(
+  "ClientsRegistry with HelloWorld MCP server over $transportType",
+  ({ transportType, path }) => {
+    let registry: ClientsRegistry;
+    let httpServer: Awaited<ReturnType<typeof startHelloWorldHttpServer>>;
+
+    beforeAll(async () => {
+      httpServer = await startHelloWorldHttpServer({ bearerToken: "secret" });
+      registry = new ClientsRegistry();
+
+      await registry.register(
+        transportType,
+        "hello-world-http-client",
+        httpServer.url + path,
+        {
+          bearerToken: "secret",
+          headers: { "X-Tenant": "tiny-agents" },
+        }
+      );
+    });
+
+    afterAll(async () => {
+      await registry.cleanup();
+      await httpServer.close();
+    });
+
+    it('getTools should include the remote "hello-world" tool', async () => {
+      const tools = await registry.getTools();
+      const helloTool = tools.find((t) => t.function.name === "hello-world");
+      expect(helloTool).toBeDefined();
+      expect(helloTool!.clientName).toBe("hello-world-http-client");
+    });
+
+    it("callTool should reach the remote server", async () => {
+      const result = await registry.callTool({
+        id: "call-1",
+        function: {
+          name: "hello-world",
+          arguments: JSON.stringify({ name: "Bob" }),
+        },
+      });
+      expect(result.content[0]).toHaveProperty("text", "Hello World Bob!");
+    });
+
+    it("should send the bearer token and custom headers with every request", () => {
+      expect(httpServer.requestHeaders.length).toBeGreaterThan(0);
+      httpServer.requestHeaders.forEach((headers) => {
+        expect(headers.authorization).toBe("Bearer secret");
+        expect(headers["x-tenant"]).toBe("tiny-agents");
+      });
+    });
+
+    it("register should fail when the server rejects the credentials", async () => {
+      await expect(
+        new ClientsRegistry().register(
+          transportType,
+          "unauthorized-client",
+          httpServer.url + path,
+          { bearerToken: "wrong" }
+        )
+      ).rejects.toThrow();
+    });
+  }
+);
@@ -0,0 +1,19 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+
+// MCP server that exits right after answering the "crash" tool,
+// used to simulate a crashing stdio server
+const server = new McpServer({
+  name: "Crashing",
+  version: "1.0.0",
+});
+
+server.tool("crash", async () => {
+  setTimeout(() => process.exit(1), 10);
+  return {
+    content: [{ type: "text", text: "Crashing..." }],
+  };
+});
+
+const transport = new StdioServerTransport();
+await server.connect(transport);
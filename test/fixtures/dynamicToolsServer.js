@@ -0,0 +1,21 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+
+// MCP server whose tool list changes at runtime: calling "enable-tool"
+// registers "dynamic-tool", which sends a notifications/tools/list_changed
+const server = new McpServer({
+  name: "DynamicTools",
+  version: "1.0.0",
+});
+
+server.tool("enable-tool", async () => {
+  server.tool("dynamic-tool", async () => ({
+    content: [{ type: "text", text: "I am dynamic!" }],
+  }));
+  return {
+    content: [{ type: "text", text: "dynamic-tool enabled" }],
+  };
+});
+
+const transport = new StdioServerTransport();
+await server.connect(transport);
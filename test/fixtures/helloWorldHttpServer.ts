@@ -0,0 +1,124 @@
+import http, { type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { z } from "zod";
+
+// Same "HelloWorld" MCP server as helloWorldServer.js, but served over HTTP
+const createServer = () => {
+  const server = new McpServer({
+    name: "HelloWorld",
+    version: "1.0.0",
+  });
+
+  server.tool(
+    "hello-world",
+    {
+      name: z
+        .string()
+        .optional()
+        .describe("Optional name to include in the greeting"),
+    },
+    async ({ name }) => {
+      const greeting = name ? `Hello World ${name}!` : "Hello World!";
+      return {
+        content: [{ type: "text", text: greeting }],
+      };
+    }
+  );
+
+  return server;
+};
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+};
+
+/**
+ * Starts an in-process HTTP server exposing the HelloWorld MCP server through:
+ * - Streamable HTTP (stateless) on /mcp
+ * - legacy HTTP+SSE on /sse (with messages posted to /messages)
+ *
+ * Every request must carry the given bearer token (if any); the headers of the
+ * last request are recorded in `requestHeaders` so tests can inspect them.
+ */
+export const startHelloWorldHttpServer = async ({
+  bearerToken,
+}: { bearerToken?: string } = {}) => {
+  const sseTransports: Record<string, SSEServerTransport> = {};
+  const requestHeaders: http.IncomingHttpHeaders[] = [];
+
+  const httpServer = http.createServer(async (req, res) => {
+    requestHeaders.push(req.headers);
+
+    if (bearerToken && req.headers.authorization !== `Bearer ${bearerToken}`) {
+      res.writeHead(401).end("Unauthorized");
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(
+      req.url ?? "/",
+      "http://localhost"
+    );
+
+    if (pathname === "/mcp" && req.method === "POST") {
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      res.on("close", () => {
+        transport.close();
+        server.close();
+      });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, await readBody(req));
+      return;
+    }
+
+    if (pathname === "/mcp") {
+      // Stateless mode: no standalone SSE stream nor session termination
+      res.writeHead(405).end("Method not allowed");
+      return;
+    }
+
+    if (pathname === "/sse" && req.method === "GET") {
+      const transport = new SSEServerTransport("/messages", res);
+      sseTransports[transport.sessionId] = transport;
+      res.on("close", () => {
+        delete sseTransports[transport.sessionId];
+      });
+      await createServer().connect(transport);
+      return;
+    }
+
+    if (pathname === "/messages" && req.method === "POST") {
+      const transport = sseTransports[searchParams.get("sessionId") ?? ""];
+      if (!transport) {
+        res.writeHead(404).end("Session not found");
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end("Not found");
+  });
+
+  await new Promise<void>((resolve) =>
+    httpServer.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requestHeaders,
+    close: () =>
+      new Promise<void>((resolve) => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => resolve());
+      }),
+  };
+};
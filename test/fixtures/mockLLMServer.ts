@@ -0,0 +1,90 @@
+import http, { type IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+
+export type MockLLMResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  // JSON body of a regular response
+  json?: unknown;
+  // Server-sent events of a streamed response, sent one write at a time
+  events?: { event?: string; data: unknown }[];
+  // Ends the stream with "data: [DONE]" as the OpenAI API does
+  done?: boolean;
+  // Drops the connection after the events, as a network failure would
+  interrupted?: boolean;
+};
+
+export type RecordedRequest = {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+};
+
+/**
+ * Starts an in-process HTTP server answering the requests of the LLM providers with
+ * the queued responses, in order. Every request is recorded so tests can inspect it.
+ */
+export const startMockLLMServer = async () => {
+  const requests: RecordedRequest[] = [];
+  const responses: MockLLMResponse[] = [];
+
+  const httpServer = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const rawBody = Buffer.concat(chunks).toString("utf8");
+    requests.push({
+      path: req.url ?? "/",
+      headers: req.headers,
+      body: rawBody ? JSON.parse(rawBody) : undefined,
+    });
+
+    const response = responses.shift();
+    if (!response) {
+      res.writeHead(500).end(JSON.stringify({ error: "No response queued" }));
+      return;
+    }
+
+    if (response.events) {
+      res.writeHead(response.status ?? 200, {
+        "content-type": "text/event-stream",
+        ...response.headers,
+      });
+      for (const { event, data } of response.events) {
+        res.write(
+          `${event ? `event: ${event}\n` : ""}data: ${JSON.stringify(data)}\n\n`
+        );
+      }
+      if (response.done) res.write("data: [DONE]\n\n");
+      if (response.interrupted) {
+        // Once the events are sent, so that the response itself is received
+        res.write("", () => res.destroy());
+        return;
+      }
+      res.end();
+      return;
+    }
+
+    res
+      .writeHead(response.status ?? 200, {
+        "content-type": "application/json",
+        ...response.headers,
+      })
+      .end(JSON.stringify(response.json ?? {}));
+  });
+
+  await new Promise<void>((resolve) =>
+    httpServer.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    enqueue: (...queued: MockLLMResponse[]) => responses.push(...queued),
+    close: () =>
+      new Promise<void>((resolve) => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => resolve());
+      }),
+  };
+};
@@ -0,0 +1,20 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+
+// MCP server whose "sleep" tool answers after the given delay,
+// used to test tool call timeouts and cancellation
+const server = new McpServer({
+  name: "Slow",
+  version: "1.0.0",
+});
+
+server.tool("sleep", { ms: z.number() }, async ({ ms }) => {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+  return {
+    content: [{ type: "text", text: `Slept ${ms}ms` }],
+  };
+});
+
+const transport = new StdioServerTransport();
+await server.connect(transport);
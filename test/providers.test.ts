@@ -0,0 +1,658 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  AnthropicProvider,
+  createModelRouter,
+  getRetryDelay,
+  isRetryableError,
+  LLMProviderError,
+  ModelRouter,
+  OpenAICompatibleProvider,
+  type LLMProvider,
+} from "../src/providers/index.js";
+import { TinyAgent } from "../src/tinyAgents.js";
+import { startMockLLMServer } from "./fixtures/mockLLMServer.js";
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe("LLM providers against a mock HTTP server", () => {
+  let server: Awaited<ReturnType<typeof startMockLLMServer>>;
+
+  beforeAll(async () => {
+    server = await startMockLLMServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  describe("OpenAICompatibleProvider", () => {
+    const createProvider = (streamUsage?: boolean) =>
+      new OpenAICompatibleProvider({
+        baseURL: `${server.url}/v1`,
+        apiKey: "test-key",
+        streamUsage,
+      });
+
+    it("sends chat completions to the endpoint with its API key", async () => {
+      server.enqueue({
+        json: {
+          id: "chatcmpl-1",
+          object: "chat.completion",
+          created: 0,
+          model: "llama3",
+          choices: [
+            {
+              index: 0,
+              finish_reason: "stop",
+              message: { role: "assistant", content: "Hello!" },
+            },
+          ],
+          usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        },
+      });
+
+      const response = await createProvider().createChatCompletion({
+        model: "llama3",
+        messages: [{ role: "user", content: "Hi" }],
+      });
+
+      expect(response.choices[0].message.content).toBe("Hello!");
+      expect(response.usage?.total_tokens).toBe(7);
+      expect(server.requests[0].path).toBe("/v1/chat/completions");
+      expect(server.requests[0].headers.authorization).toBe("Bearer test-key");
+      expect(server.requests[0].body).toMatchObject({
+        model: "llama3",
+        messages: [{ role: "user", content: "Hi" }],
+        stream: false,
+      });
+    });
+
+    it("streams chunks, asking for the usage unless disabled", async () => {
+      const chunk = (delta: object) => ({
+        data: {
+          id: "chatcmpl-1",
+          object: "chat.completion.chunk",
+          created: 0,
+          model: "llama3",
+          choices: [{ index: 0, delta, finish_reason: null }],
+        },
+      });
+      server.enqueue(
+        {
+          events: [chunk({ content: "Hel" }), chunk({ content: "lo" })],
+          done: true,
+        },
+        { events: [chunk({ content: "Hi" })], done: true }
+      );
+
+      const chunks = await collect(
+        await createProvider().streamChatCompletion({
+          model: "llama3",
+          messages: [{ role: "user", content: "Hi" }],
+        })
+      );
+      await collect(
+        await createProvider(false).streamChatCompletion({
+          model: "llama3",
+          messages: [{ role: "user", content: "Hi" }],
+        })
+      );
+
+      expect(chunks.map((c) => c.choices[0].delta.content)).toEqual([
+        "Hel",
+        "lo",
+      ]);
+      expect(server.requests[0].body.stream_options).toEqual({
+        include_usage: true,
+      });
+      expect(server.requests[1].body.stream_options).toBeUndefined();
+    });
+
+    it("parses structured outputs with a JSON schema response format", async () => {
+      server.enqueue({
+        json: {
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: JSON.stringify({ queries: ["user name"] }),
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await createProvider().parseChatCompletion(
+        { model: "llama3", messages: [{ role: "user", content: "Who am I?" }] },
+        z.object({ queries: z.array(z.string()) }),
+        "queries"
+      );
+
+      expect(result).toEqual({ queries: ["user name"] });
+      expect(server.requests[0].body.response_format).toMatchObject({
+        type: "json_schema",
+        json_schema: { name: "queries" },
+      });
+    });
+
+    it("converts API errors to LLMProviderError without retrying them", async () => {
+      server.enqueue({
+        status: 429,
+        headers: { "retry-after": "2" },
+        json: { error: { message: "Rate limit reached" } },
+      });
+
+      const error = await createProvider()
+        .createChatCompletion({
+          model: "llama3",
+          messages: [{ role: "user", content: "Hi" }],
+        })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(LLMProviderError);
+      expect(error.status).toBe(429);
+      expect(error.retryAfterMs).toBe(2000);
+      // Retries are left to the agent
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+
+  describe("AnthropicProvider", () => {
+    const createProvider = () =>
+      new AnthropicProvider({ apiKey: "test-key", baseURL: server.url });
+
+    it("converts the conversation to the Messages API and the response back", async () => {
+      server.enqueue({
+        json: {
+          id: "msg_1",
+          type: "message",
+          role: "assistant",
+          model: "claude-test",
+          content: [
+            { type: "text", text: "Reading it." },
+            {
+              type: "tool_use",
+              id: "toolu_2",
+              name: "read_file",
+              input: { path: "b.txt" },
+            },
+          ],
+          stop_reason: "tool_use",
+          usage: {
+            input_tokens: 10,
+            output_tokens: 5,
+            cache_read_input_tokens: 100,
+            cache_creation_input_tokens: 0,
+          },
+        },
+      });
+
+      const response = await createProvider().createChatCompletion({
+        model: "claude-test",
+        messages: [
+          { role: "system", content: "You are helpful." },
+          { role: "user", content: "Read a.txt then b.txt" },
+          {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "toolu_1",
+                type: "function",
+                function: { name: "read_file", arguments: '{"path":"a.txt"}' },
+              },
+            ],
+          },
+          { role: "tool", tool_call_id: "toolu_1", content: '"A"' },
+        ],
+        tools: [
+          {
+            type: "function",
+            function: {
+              name: "read_file",
+              description: "Reads a file",
+              parameters: { type: "object", properties: {} },
+            },
+          },
+        ],
+        tool_choice: "auto",
+      });
+
+      const request = server.requests[0];
+      expect(request.path).toBe("/v1/messages");
+      expect(request.headers["x-api-key"]).toBe("test-key");
+      expect(request.headers["anthropic-version"]).toBe("2023-06-01");
+      expect(request.body).toEqual({
+        model: "claude-test",
+        max_tokens: 4096,
+        system: "You are helpful.",
+        messages: [
+          {
+            role: "user",
+            content: [{ type: "text", text: "Read a.txt then b.txt" }],
+          },
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "tool_use",
+                id: "toolu_1",
+                name: "read_file",
+                input: { path: "a.txt" },
+              },
+            ],
+          },
+          {
+            role: "user",
+            content: [
+              { type: "tool_result", tool_use_id: "toolu_1", content: '"A"' },
+            ],
+          },
+        ],
+        tools: [
+          {
+            name: "read_file",
+            description: "Reads a file",
+            input_schema: { type: "object", properties: {} },
+          },
+        ],
+        tool_choice: { type: "auto" },
+      });
+
+      expect(response.choices[0].finish_reason).toBe("tool_calls");
+      expect(response.choices[0].message).toMatchObject({
+        role: "assistant",
+        content: "Reading it.",
+        tool_calls: [
+          {
+            id: "toolu_2",
+            type: "function",
+            function: { name: "read_file", arguments: '{"path":"b.txt"}' },
+          },
+        ],
+      });
+      // Cache reads are part of the prompt tokens, as with OpenAI
+      expect(response.usage).toEqual({
+        prompt_tokens: 110,
+        completion_tokens: 5,
+        total_tokens: 115,
+        prompt_tokens_details: { cached_tokens: 100 },
+      });
+    });
+
+    it("drives a streamed TinyAgent run with tool calls", async () => {
+      const event = (data: { type: string }) => ({ event: data.type, data });
+      server.enqueue(
+        {
+          events: [
+            event({
+              type: "message_start",
+              message: {
+                id: "msg_1",
+                usage: { input_tokens: 20, output_tokens: 1 },
+              },
+            } as any),
+            event({
+              type: "content_block_start",
+              index: 0,
+              content_block: { type: "text", text: "" },
+            } as any),
+            event({
+              type: "content_block_delta",
+              index: 0,
+              delta: { type: "text_delta", text: "Let me greet." },
+            } as any),
+            event({
+              type: "content_block_start",
+              index: 1,
+              content_block: {
+                type: "tool_use",
+                id: "toolu_1",
+                name: "hello",
+                input: {},
+              },
+            } as any),
+            event({
+              type: "content_block_delta",
+              index: 1,
+              delta: { type: "input_json_delta", partial_json: '{"name":' },
+            } as any),
+            event({
+              type: "content_block_delta",
+              index: 1,
+              delta: { type: "input_json_delta", partial_json: '"Ada"}' },
+            } as any),
+            event({
+              type: "message_delta",
+              delta: { stop_reason: "tool_use" },
+              usage: { output_tokens: 12 },
+            } as any),
+            event({ type: "message_stop" }),
+          ],
+        },
+        {
+          events: [
+            event({
+              type: "message_start",
+              message: {
+                id: "msg_2",
+                usage: { input_tokens: 40, output_tokens: 1 },
+              },
+            } as any),
+            event({
+              type: "content_block_delta",
+              index: 0,
+              delta: { type: "text_delta", text: "Done." },
+            } as any),
+            event({
+              type: "message_delta",
+              delta: { stop_reason: "end_turn" },
+              usage: { output_tokens: 3 },
+            } as any),
+            event({ type: "message_stop" }),
+          ],
+        }
+      );
+
+      const agent = new TinyAgent({} as any);
+      const registry = agent.getClientsRegistry();
+      const tools = await registry.getTools();
+      registry.getTools = async () => [
+        ...tools,
+        {
+          clientName: "mock-client",
+          type: "function",
+          function: {
+            name: "hello",
+            description: "Says hello",
+            parameters: {},
+          },
+        },
+      ];
+      registry.callTool = async (toolCall) =>
+        `Hello ${JSON.parse(toolCall.function.arguments ?? "{}").name}!`;
+
+      const streamed: string[] = [];
+      const result = await agent.run({
+        llm: createProvider(),
+        model: "claude-test",
+        baseMessages: [{ role: "user", content: "Greet Ada" }],
+        onStreamAnswer: (content) => streamed.push(content),
+      });
+
+      expect(streamed).toEqual(["Let me greet.", "Done."]);
+      expect(result.conversation[1]).toEqual({
+        role: "assistant",
+        content: "Let me greet.",
+        tool_calls: [
+          {
+            id: "toolu_1",
+            type: "function",
+            function: { name: "hello", arguments: '{"name":"Ada"}' },
+          },
+        ],
+      });
+      expect(result.toolCalls[0].result).toBe("Hello Ada!");
+      // The tool result is sent back as a tool_result block
+      expect(server.requests[1].body.stream).toBe(true);
+      expect(server.requests[1].body.messages[2]).toEqual({
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: "toolu_1",
+            content: '"Hello Ada!"',
+          },
+        ],
+      });
+      expect(result.usage.promptTokens).toBe(60);
+      expect(result.usage.completionTokens).toBe(15);
+    });
+
+    it("parses structured outputs by forcing a tool call", async () => {
+      server.enqueue({
+        json: {
+          id: "msg_1",
+          model: "claude-test",
+          content: [
+            {
+              type: "tool_use",
+              id: "toolu_1",
+              name: "queries",
+              input: { queries: ["user name"] },
+            },
+          ],
+          stop_reason: "tool_use",
+          usage: { input_tokens: 10, output_tokens: 5 },
+        },
+      });
+
+      const result = await createProvider().parseChatCompletion(
+        {
+          model: "claude-test",
+          messages: [{ role: "user", content: "Who am I?" }],
+        },
+        z.object({ queries: z.array(z.string()) }),
+        "queries"
+      );
+
+      expect(result).toEqual({ queries: ["user name"] });
+      expect(server.requests[0].body.tool_choice).toEqual({
+        type: "tool",
+        name: "queries",
+      });
+      expect(server.requests[0].body.tools[0].input_schema).toMatchObject({
+        type: "object",
+        properties: { queries: { type: "array" } },
+      });
+    });
+
+    it("answers a response format next to tools through an output tool", async () => {
+      server.enqueue({
+        json: {
+          id: "msg_1",
+          model: "claude-test",
+          content: [
+            {
+              type: "tool_use",
+              id: "toolu_1",
+              name: "final_answer",
+              input: { city: "Paris" },
+            },
+          ],
+          stop_reason: "tool_use",
+          usage: { input_tokens: 10, output_tokens: 5 },
+        },
+      });
+
+      const response = await createProvider().createChatCompletion({
+        model: "claude-test",
+        messages: [{ role: "user", content: "Where is the Louvre?" }],
+        tools: [
+          {
+            type: "function",
+            function: { name: "search", parameters: { type: "object" } },
+          },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "final_answer",
+            schema: {
+              type: "object",
+              properties: { city: { type: "string" } },
+            },
+          },
+        },
+      });
+
+      // The model must call a tool, the output tool being the answer
+      expect(server.requests[0].body.tool_choice).toEqual({ type: "any" });
+      expect(
+        server.requests[0].body.tools.map((tool: any) => tool.name)
+      ).toEqual(["search", "final_answer"]);
+      expect(response.choices[0]).toMatchObject({
+        finish_reason: "stop",
+        message: { content: '{"city":"Paris"}' },
+      });
+      expect(response.choices[0].message.tool_calls).toBeUndefined();
+    });
+
+    it("throws an LLMProviderError with the status and Retry-After delay", async () => {
+      server.enqueue({
+        status: 429,
+        headers: { "retry-after": "3" },
+        json: {
+          type: "error",
+          error: { type: "rate_limit_error", message: "Too many requests" },
+        },
+      });
+
+      const error = await createProvider()
+        .createChatCompletion({
+          model: "claude-test",
+          messages: [{ role: "user", content: "Hi" }],
+        })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(LLMProviderError);
+      expect(error.message).toBe("Anthropic API error 429: Too many requests");
+      expect(error.status).toBe(429);
+      expect(error.retryAfterMs).toBe(3000);
+    });
+
+    it("throws a retryable LLMProviderError when the stream is interrupted", async () => {
+      server.enqueue({
+        events: [
+          {
+            event: "message_start",
+            data: {
+              type: "message_start",
+              message: {
+                id: "msg_1",
+                usage: { input_tokens: 10, output_tokens: 0 },
+              },
+            },
+          },
+        ],
+        interrupted: true,
+      });
+
+      const stream = await createProvider().streamChatCompletion({
+        model: "claude-test",
+        messages: [{ role: "user", content: "Hi" }],
+      });
+      const error = await collect(stream).catch((error) => error);
+
+      expect(error).toBeInstanceOf(LLMProviderError);
+      expect(error.message).toMatch(/^The Anthropic stream was interrupted: /);
+      expect(isRetryableError(error)).toBe(true);
+    });
+  });
+});
+
+describe("ModelRouter", () => {
+  const namedProvider = (name: string): LLMProvider => ({
+    createChatCompletion: async () =>
+      ({
+        choices: [{ message: { role: "assistant", content: name } }],
+      } as any),
+    streamChatCompletion: async () => (async function* () {})(),
+    parseChatCompletion: async () => null,
+  });
+
+  it("sends each model to its provider", async () => {
+    const router = new ModelRouter({
+      providers: {
+        openai: namedProvider("openai"),
+        local: namedProvider("local"),
+      },
+      modelProviders: { llama3: "local" },
+      defaultProvider: "openai",
+    });
+
+    const answer = async (model: string) =>
+      (await router.createChatCompletion({ model, messages: [] })).choices[0]
+        .message.content;
+
+    expect(await answer("llama3")).toBe("local");
+    expect(await answer("gpt-5-nano")).toBe("openai");
+  });
+
+  it("rejects models mapped to unknown providers at creation", () => {
+    expect(() =>
+      createModelRouter(
+        {
+          providers: {},
+          modelProviders: { "claude-test": "anthropic" },
+          defaultProvider: "openai",
+        },
+        { OPENAI_API_KEY: "test-key" }
+      )
+    ).toThrow('Unknown provider "anthropic" for model "claude-test".');
+  });
+
+  it("reads the Gemini API key when the default provider points to Google", () => {
+    const apiKeyOf = (baseURL?: string) => {
+      const router = createModelRouter(
+        {
+          providers: {},
+          modelProviders: {},
+          defaultProvider: "openai",
+          baseURL,
+        },
+        { OPENAI_API_KEY: "openai-key", GEMINI_API_KEY: "gemini-key" }
+      );
+      return (router as any).providers.openai.client.apiKey;
+    };
+
+    expect(apiKeyOf()).toBe("openai-key");
+    expect(
+      apiKeyOf("https://generativelanguage.googleapis.com/v1beta/openai/")
+    ).toBe("gemini-key");
+  });
+});
+
+describe("LLM retry delays", () => {
+  const config = { maxRetries: 3, initialDelayMs: 1000, maxDelayMs: 5000 };
+
+  it("doubles the delay of each retry, up to maxDelayMs, with jitter", () => {
+    const error = new LLMProviderError("Server error", "openai", 500);
+    expect(
+      [1, 2, 3, 4].map((retry) => getRetryDelay(retry, error, config, () => 1))
+    ).toEqual([1000, 2000, 4000, 5000]);
+    // At least half of the backoff is always waited
+    expect(getRetryDelay(2, error, config, () => 0)).toBe(1000);
+  });
+
+  it("waits the Retry-After delay, unless it is longer than maxDelayMs", () => {
+    const rateLimit = (retryAfterMs: number) =>
+      new LLMProviderError("Rate limited", "openai", 429, retryAfterMs);
+    expect(getRetryDelay(1, rateLimit(3000), config)).toBe(3000);
+    expect(getRetryDelay(1, rateLimit(60000), config)).toBeUndefined();
+  });
+
+  it("only retries rate limits, timeouts, server and network errors", () => {
+    const withStatus = (status?: number) =>
+      isRetryableError(new LLMProviderError("Error", "openai", status));
+    expect([429, 408, 500, 529, undefined].map(withStatus)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      true,
+    ]);
+    expect([400, 401, 404].map(withStatus)).toEqual([false, false, false]);
+    expect(isRetryableError(new Error("Unexpected"))).toBe(false);
+  });
+});
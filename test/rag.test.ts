@@ -0,0 +1,331 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  LLMReranker,
+  MockReranker,
+  RAG,
+  reciprocalRankFusion,
+  type RAGConfig,
+} from "../src/rag/index.js";
+import type { LLMProvider } from "../src/providers/index.js";
+import { getRAGServerEnv, parseRAGServerEnv } from "../src/config.js";
+import { PostgresVectorStore } from "../src/rag/storage/PostgresVectorStore.js";
+import type { Pool } from "pg";
+import { MockEmbedder } from "../src/rag/embedders/index.js";
+import type {
+  RetrievedChunk,
+  VectorStore,
+} from "../src/rag/storage/VectorStore.js";
+
+const chunk = (id: number, score = 0): RetrievedChunk => ({
+  id,
+  source: `docs/${id}.md`,
+  sourceType: "file",
+  content: `Chunk ${id}`,
+  score,
+  metadata: {},
+});
+
+/**
+ * RAG on a vector store whose rankings are given, the other operations are unused.
+ */
+const ragWithRankings = (
+  vectorChunks: RetrievedChunk[],
+  fullTextChunks: RetrievedChunk[],
+  config: Partial<RAGConfig> = {}
+) => {
+  const vectorStore = {
+    query: vi.fn().mockResolvedValue(vectorChunks),
+    queryFullText: vi.fn().mockResolvedValue(fullTextChunks),
+  };
+  const rag = new RAG({
+    embedder: new MockEmbedder({ vectorSize: 4 }),
+    vectorStore: vectorStore as unknown as VectorStore,
+    textSplitter: {
+      strategy: "recursive-character-chunker",
+      options: { chunkSize: 500, chunkOverlapPercentage: 0 },
+    },
+    ...config,
+  });
+  return { rag, vectorStore };
+};
+
+describe("RAG hybrid search", () => {
+  it("fuses weighted rankings by reciprocal rank", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { chunks: [chunk(1), chunk(2), chunk(3)], weight: 1 },
+        { chunks: [chunk(3), chunk(4)], weight: 2 },
+      ],
+      1
+    );
+
+    // 3: 1/4 + 2/2, 4: 2/3, 1: 1/2, 2: 1/3
+    expect(fused.map(({ id, score }) => ({ id, score }))).toEqual([
+      { id: 3, score: 1.25 },
+      { id: 4, score: 2 / 3 },
+      { id: 1, score: 0.5 },
+      { id: 2, score: 1 / 3 },
+    ]);
+  });
+
+  it("only ranks by vector similarity in vector mode", async () => {
+    const { rag, vectorStore } = ragWithRankings([chunk(1, 0.9)], [chunk(2)]);
+
+    expect(await rag.query("ECONNREFUSED", 3)).toEqual([chunk(1, 0.9)]);
+    expect(vectorStore.query).toHaveBeenCalledWith(expect.any(Array), 3, {
+      namespace: "default",
+    });
+    expect(vectorStore.queryFullText).not.toHaveBeenCalled();
+  });
+
+  it("finds exact words missed by the vector search in hybrid mode", async () => {
+    const { rag, vectorStore } = ragWithRankings(
+      [chunk(1), chunk(2), chunk(3)],
+      [chunk(4), chunk(2)],
+      { search: { mode: "vector", fullTextWeight: 2 } }
+    );
+
+    const results = await rag.query("ECONNREFUSED", 2, { mode: "hybrid" });
+
+    expect(vectorStore.query).toHaveBeenCalledWith(expect.any(Array), 8, {
+      namespace: "default",
+    });
+    expect(vectorStore.queryFullText).toHaveBeenCalledWith("ECONNREFUSED", 8, {
+      namespace: "default",
+    });
+    expect(results.map((result) => result.id)).toEqual([2, 4]);
+  });
+});
+
+describe("RAG reranking", () => {
+  const withContent = (id: number, content: string) => ({
+    ...chunk(id, 1 - id / 10),
+    content,
+  });
+
+  it("reranks more candidates than needed and keeps the k most relevant", async () => {
+    const { rag, vectorStore } = ragWithRankings(
+      [
+        withContent(1, "Postgres setup"),
+        withContent(2, "Restart on ECONNREFUSED errors"),
+        withContent(3, "ECONNREFUSED when the database is down"),
+      ],
+      [],
+      { reranker: new MockReranker(), rerankCandidates: 10 }
+    );
+
+    const results = await rag.query("database ECONNREFUSED", 2);
+
+    expect(vectorStore.query).toHaveBeenCalledWith(expect.any(Array), 10, {
+      namespace: "default",
+    });
+    expect(
+      results.map(({ id, score, rerankScore }) => ({ id, score, rerankScore }))
+    ).toEqual([
+      { id: 3, score: 0.7, rerankScore: 1 },
+      { id: 2, score: 0.8, rerankScore: 0.5 },
+    ]);
+    // Reranking can be skipped per query
+    const [first] = await rag.query("database ECONNREFUSED", 2, {
+      rerank: false,
+    });
+    expect(vectorStore.query).toHaveBeenLastCalledWith(expect.any(Array), 2, {
+      namespace: "default",
+    });
+    expect(first.rerankScore).toBeUndefined();
+  });
+
+  it("keeps the search order when the reranker fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { rag } = ragWithRankings([chunk(1, 0.9), chunk(2, 0.8)], [], {
+      reranker: { rerank: vi.fn().mockRejectedValue(new Error("timeout")) },
+    });
+
+    expect(await rag.query("anything", 1)).toEqual([chunk(1, 0.9)]);
+  });
+
+  it("asks the LLM to score the passages", async () => {
+    const parseChatCompletion = vi.fn().mockResolvedValue({
+      scores: [
+        { index: 1, score: 0.9 },
+        { index: 0, score: 1.5 },
+        { index: 7, score: 1 },
+      ],
+    });
+    const reranker = new LLMReranker({
+      llm: { parseChatCompletion } as unknown as LLMProvider,
+      model: "helper-model",
+    });
+
+    const scores = await reranker.rerank("setup", [
+      chunk(1),
+      chunk(2),
+      chunk(3),
+    ]);
+
+    // Clamped to [0, 1], unknown passages ignored, missing ones irrelevant
+    expect(scores).toEqual([1, 0.9, 0]);
+    const [request] = parseChatCompletion.mock.calls[0];
+    expect(request.model).toBe("helper-model");
+    expect(request.messages[1].content).toBe(
+      "Query: setup\n\nPassages:\n[0] Chunk 1\n\n[1] Chunk 2\n\n[2] Chunk 3"
+    );
+  });
+});
+
+describe("RAG filters and namespaces", () => {
+  it("queries the namespace of the RAG unless the filter gives another one", async () => {
+    const { rag, vectorStore } = ragWithRankings([], [], {
+      namespace: "project-a",
+    });
+
+    await rag.query("setup", 3, { filter: { sourceType: "memory" } });
+    await rag.query("setup", 3, { filter: { namespace: "project-b" } });
+    await rag.query("setup", 3, { filter: { namespace: undefined } });
+
+    expect(vectorStore.query.mock.calls.map((call) => call[2])).toEqual([
+      { namespace: "project-a", sourceType: "memory" },
+      { namespace: "project-b" },
+      { namespace: "project-a" },
+    ]);
+  });
+
+  it("does not find the memories of other namespaces", async () => {
+    const memory = {
+      id: 1,
+      text: "Deploy on Fridays",
+      namespace: "project-b",
+      tags: [],
+      last_modified: new Date(),
+    };
+    const vectorStore = {
+      getMemoryRecord: vi.fn().mockResolvedValue(memory),
+      deleteMemory: vi.fn(),
+    };
+    const rag = new RAG({
+      embedder: new MockEmbedder({ vectorSize: 4 }),
+      vectorStore: vectorStore as unknown as VectorStore,
+      textSplitter: {
+        strategy: "recursive-character-chunker",
+        options: { chunkSize: 500, chunkOverlapPercentage: 0 },
+      },
+      namespace: "project-a",
+    });
+
+    expect(await rag.getMemory(1)).toBeNull();
+    expect(await rag.deleteMemory(1)).toBe(false);
+    expect(vectorStore.deleteMemory).not.toHaveBeenCalled();
+  });
+
+  it("turns the filter into SQL conditions of the Postgres query", async () => {
+    const pool = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+    const store = new PostgresVectorStore(pool as unknown as Pool);
+    const createdAfter = new Date("2026-01-01T00:00:00Z");
+
+    await store.query([0.1, 0.2], 5, {
+      namespace: "project-a",
+      sourceType: "file",
+      pathGlob: "docs/**/*.{md,txt}",
+      tags: ["howto"],
+      createdAfter,
+    });
+
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql.replace(/\s+/g, " ")).toContain(
+      "WHERE COALESCE(f.namespace, m.namespace) = $3 AND mc.file_id IS NOT NULL AND f.path ~ $4 AND COALESCE(f.tags, m.tags) @> $5 AND COALESCE(f.created_at, m.created_at) >= $6 ORDER BY distance LIMIT $2"
+    );
+    expect(params).toEqual([
+      "[0.1,0.2]",
+      5,
+      "project-a",
+      "(^|/)docs/(.*/)?[^/]*\\.(md|txt)$",
+      ["howto"],
+      createdAfter,
+    ]);
+    const pathRegExp = new RegExp(params[3]);
+    expect(pathRegExp.test("./data/docs/setup.md")).toBe(true);
+    expect(pathRegExp.test("docs/guides/deploy/prod.txt")).toBe(true);
+    expect(pathRegExp.test("mydocs/setup.md")).toBe(false);
+    expect(pathRegExp.test("docs/setup.pdf")).toBe(false);
+  });
+});
+
+describe("RAG MCP server configuration", () => {
+  /**
+   * RAG built as by the MCP server, from the environment given by the server.
+   */
+  const mcpRAG = (rag: Parameters<typeof getRAGServerEnv>[0]) => {
+    const vectorStore = {
+      upsertMemory: vi.fn().mockResolvedValue(1),
+      insertChunksForMemory: vi.fn(),
+      getMemoryRecord: vi.fn().mockResolvedValue({ id: 1 }),
+      query: vi.fn().mockResolvedValue([chunk(1), chunk(2)]),
+      queryFullText: vi.fn().mockResolvedValue([chunk(2)]),
+    };
+    return {
+      rag: new RAG({
+        embedder: new MockEmbedder({ vectorSize: 4 }),
+        vectorStore: vectorStore as unknown as VectorStore,
+        ...parseRAGServerEnv(getRAGServerEnv(rag)),
+      }),
+      vectorStore,
+    };
+  };
+
+  it("splits the memories with the configured strategy", async () => {
+    const { rag, vectorStore } = mcpRAG({
+      namespace: "project-a",
+      textSplitter: {
+        strategy: "markdown-heading-chunker",
+        options: { chunkSize: 200, chunkOverlapPercentage: 0 },
+      },
+      search: { mode: "vector", vectorWeight: 1, fullTextWeight: 1, rrfK: 60 },
+    });
+
+    await rag.createMemory("# Setup\nRun the migrations.");
+
+    expect(vectorStore.upsertMemory).toHaveBeenCalledWith(
+      "# Setup\nRun the migrations.",
+      expect.any(Date),
+      { namespace: "project-a", tags: undefined }
+    );
+    const [, chunks] = vectorStore.insertChunksForMemory.mock.calls[0];
+    expect(chunks).toEqual([
+      expect.objectContaining({
+        content: "Setup\n\nRun the migrations.",
+        metadata: expect.objectContaining({ headingPath: ["Setup"] }),
+      }),
+    ]);
+  });
+
+  it("searches with the configured mode and weights by default", async () => {
+    const { rag, vectorStore } = mcpRAG({
+      namespace: "default",
+      textSplitter: {
+        strategy: "recursive-character-chunker",
+        options: { chunkSize: 500, chunkOverlapPercentage: 0 },
+      },
+      search: { mode: "hybrid", vectorWeight: 0, fullTextWeight: 1, rrfK: 1 },
+    });
+
+    const chunks = await rag.query("E42", 2);
+
+    expect(vectorStore.queryFullText).toHaveBeenCalled();
+    // Only the full-text ranking counts
+    expect(chunks.map(({ id, score }) => ({ id, score }))).toEqual([
+      { id: 2, score: 0.5 },
+      { id: 1, score: 0 },
+    ]);
+
+    await rag.query("E42", 2, { mode: "vector" });
+    expect(vectorStore.queryFullText).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects an invalid text splitter", () => {
+    expect(() =>
+      parseRAGServerEnv({
+        RAG_TEXT_SPLITTER: JSON.stringify({ strategy: "semantic" }),
+      })
+    ).toThrow();
+  });
+});
@@ -1,9 +1,37 @@
 // tests/tinyAgents.test.ts
 
 import { describe, it, expect, beforeEach, vi, type Mock } from "vitest";
-import { TinyAgent, type TinyAgentRunResult } from "../src/tinyAgents.js";
+import {
+  TinyAgent,
+  type TinyAgentRunResult,
+  type ToolCallResult,
+} from "../src/tinyAgents.js";
+import { InMemoryArtifactStore } from "../src/artifactStore.js";
+import type { AgentMiddleware } from "../src/middleware.js";
+import {
+  StructuredOutputError,
+  validateJsonSchema,
+} from "../src/structuredOutput.js";
+import { ModelRouter, OpenAIProvider } from "../src/providers/index.js";
 import { OpenAI } from "openai";
 import path from "path";
+import { z } from "zod";
+
+/**
+ * Makes the agent's registry expose MCP tools with the given names, on top of the built-in ones.
+ */
+const mockRegistryTools = async (agent: TinyAgent, toolNames: string[]) => {
+  const registry = agent.getClientsRegistry();
+  const tools = await registry.getTools();
+  vi.spyOn(registry, "getTools").mockResolvedValue([
+    ...tools,
+    ...toolNames.map((name) => ({
+      clientName: "mock-client",
+      type: "function" as const,
+      function: { name, description: `${name} description`, parameters: {} },
+    })),
+  ]);
+};
 
 describe("TinyAgent with real ClientsRegistry (no external tools registered)", () => {
   let openaiMock: {
@@ -45,7 +73,7 @@ describe("TinyAgent with real ClientsRegistry (no external tools registered)", (
 
     const agent = new TinyAgent({});
     const result: TinyAgentRunResult = await agent.run({
-      openai: openaiMock as unknown as OpenAI,
+      llm: new OpenAIProvider({ client: openaiMock as unknown as OpenAI }),
       baseMessages,
     });
 
@@ -62,8 +90,71 @@ describe("TinyAgent with real ClientsRegistry (no external tools registered)", (
     expect(assistantMsg.content).toBe("All done, no tools needed.");
   });
 
-  it("throws if the LLM requests a non-existent tool", async () => {
-    // Arrange: LLM returns a tool call for "nonexistent_tool"
+  it("reports a non-existent tool to the LLM as a tool error", async () => {
+    // Arrange: LLM returns a tool call for "nonexistent_tool", then recovers
+    openaiMock.chat.completions.create
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "call-123",
+                  function: {
+                    name: "nonexistent_tool",
+                    arguments: JSON.stringify({ foo: "bar" }),
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: "That tool does not exist.",
+            },
+          },
+        ],
+      });
+
+    const baseMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      { role: "system", content: "You are a helpful assistant." },
+      { role: "user", content: "Use a tool I haven't registered." },
+    ];
+
+    const agent = new TinyAgent({} as any);
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({ client: openaiMock as unknown as OpenAI }),
+      baseMessages,
+      model: "test-model",
+    });
+
+    expect(openaiMock.chat.completions.create).toHaveBeenCalledTimes(2);
+    const toolMessage = result.conversation[3] as any;
+    expect(toolMessage.role).toBe("tool");
+    expect(toolMessage.tool_call_id).toBe("call-123");
+    expect(JSON.parse(toolMessage.content)).toEqual({
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: 'Tool "nonexistent_tool" not found among the tools available to this agent.',
+        },
+      ],
+      error: { type: "unknown_tool", tool: "nonexistent_tool" },
+    });
+    expect(result.toolCalls[0].isError).toBe(true);
+    expect(result.conversation[4].content).toBe("That tool does not exist.");
+  });
+
+  it('throws if the LLM requests a non-existent tool with toolErrors "throw"', async () => {
     openaiMock.chat.completions.create.mockResolvedValueOnce({
       choices: [
         {
@@ -73,10 +164,7 @@ describe("TinyAgent with real ClientsRegistry (no external tools registered)", (
             tool_calls: [
               {
                 id: "call-123",
-                function: {
-                  name: "nonexistent_tool",
-                  arguments: JSON.stringify({ foo: "bar" }),
-                },
+                function: { name: "nonexistent_tool", arguments: "{}" },
               },
             ],
           },
@@ -84,24 +172,19 @@ describe("TinyAgent with real ClientsRegistry (no external tools registered)", (
       ],
     });
 
-    const baseMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: "system", content: "You are a helpful assistant." },
-      { role: "user", content: "Use a tool I haven't registered." },
-    ];
-
-    const agent = new TinyAgent({});
+    const agent = new TinyAgent({ toolErrors: "throw" } as any);
 
-    // Act & Assert: run should reject because "nonexistent_tool" is not in ClientsRegistry
     await expect(
       agent.run({
-        openai: openaiMock as unknown as OpenAI,
-        baseMessages,
+        llm: new OpenAIProvider({ client: openaiMock as unknown as OpenAI }),
+        baseMessages: [{ role: "user", content: "Use a missing tool." }],
+        model: "test-model",
       })
     ).rejects.toThrow(/Tool "nonexistent_tool" not found/);
   });
 });
 
-describe("TinyAgent with real ClientsRegistry (with external tools registered)", () => {
+describe("TinyAgent parallel tool execution", () => {
   let openaiMock: {
     chat: {
       completions: {
@@ -110,67 +193,632 @@ describe("TinyAgent with real ClientsRegistry (with external tools registered)",
     };
   };
 
+  const toolCallsMessage = {
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call-slow",
+              function: { name: "slow_tool", arguments: "{}" },
+            },
+            {
+              id: "call-fast",
+              function: { name: "fast_tool", arguments: "{}" },
+            },
+            {
+              id: "call-medium",
+              function: { name: "medium_tool", arguments: "{}" },
+            },
+          ],
+        },
+      },
+    ],
+  };
+
+  const delays: Record<string, number> = {
+    slow_tool: 60,
+    fast_tool: 5,
+    medium_tool: 30,
+  };
+
   beforeEach(() => {
-    // Mock the OpenAI client’s chat.completions.create method
     openaiMock = {
       chat: {
         completions: {
-          create: vi.fn(),
+          create: vi
+            .fn()
+            .mockResolvedValueOnce(toolCallsMessage)
+            .mockResolvedValueOnce({
+              choices: [{ message: { role: "assistant", content: "Done." } }],
+            }),
         },
       },
     };
   });
 
-  it("runs to completion when the LLM never requests a tool", async () => {
-    // Arrange: LLM returns a single assistant message with no tool_calls
-    openaiMock.chat.completions.create.mockResolvedValueOnce({
-      choices: [
-        {
-          message: {
-            role: "assistant",
-            content: "All done, no tools needed.",
+  it("runs tool calls concurrently and keeps tool messages in request order", async () => {
+    const agent = new TinyAgent({ maxParallelToolCalls: 3 } as any);
+    await mockRegistryTools(agent, Object.keys(delays));
+    let running = 0;
+    let maxRunning = 0;
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockImplementation(
+      async (toolCall) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((r) => setTimeout(r, delays[toolCall.function.name]));
+        running--;
+        return `${toolCall.function.name} result`;
+      }
+    );
+
+    const started: string[] = [];
+    const finished: string[] = [];
+    const result = await agent.run({
+      llm: new OpenAIProvider({ client: openaiMock as unknown as OpenAI }),
+      baseMessages: [{ role: "user", content: "Use all the tools." }],
+      model: "test-model",
+      onToolCall: (toolCall) => started.push(toolCall.id),
+      onToolCallResult: (toolCallResult) =>
+        finished.push(toolCallResult.toolCallId),
+    });
+
+    expect(maxRunning).toBe(3);
+    expect(started).toEqual(["call-slow", "call-fast", "call-medium"]);
+    expect(finished).toEqual(["call-fast", "call-medium", "call-slow"]);
+
+    const toolMessages = result.conversation.filter(
+      (message) => message.role === "tool"
+    ) as any[];
+    expect(toolMessages.map((message) => message.tool_call_id)).toEqual([
+      "call-slow",
+      "call-fast",
+      "call-medium",
+    ]);
+    expect(result.toolCalls.map((toolCall) => toolCall.toolCallId)).toEqual([
+      "call-slow",
+      "call-fast",
+      "call-medium",
+    ]);
+  });
+
+  it("never runs more tool calls at once than maxParallelToolCalls", async () => {
+    const agent = new TinyAgent({ maxParallelToolCalls: 1 } as any);
+    await mockRegistryTools(agent, Object.keys(delays));
+    let running = 0;
+    let maxRunning = 0;
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockImplementation(
+      async (toolCall) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((r) => setTimeout(r, delays[toolCall.function.name]));
+        running--;
+        return `${toolCall.function.name} result`;
+      }
+    );
+
+    const finished: string[] = [];
+    await agent.run({
+      llm: new OpenAIProvider({ client: openaiMock as unknown as OpenAI }),
+      baseMessages: [{ role: "user", content: "Use all the tools." }],
+      model: "test-model",
+      onToolCallResult: (toolCallResult) =>
+        finished.push(toolCallResult.toolCallId),
+    });
+
+    expect(maxRunning).toBe(1);
+    expect(finished).toEqual(["call-slow", "call-fast", "call-medium"]);
+  });
+});
+
+describe("TinyAgent sub-agents", () => {
+  const spawnSubagentMessage = (args: object) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call-spawn",
+              function: {
+                name: "spawn_subagent",
+                arguments: JSON.stringify(args),
+              },
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  it("runs a nested agent and returns its final answer as the tool result", async () => {
+    const create = vi
+      .fn()
+      // Parent: spawn a sub-agent
+      .mockResolvedValueOnce(
+        spawnSubagentMessage({
+          goal: "Find the answer",
+          system_prompt: "You are a researcher.",
+          tools: ["hello-world"],
+        })
+      )
+      // Child: answer directly
+      .mockResolvedValueOnce({
+        choices: [{ message: { role: "assistant", content: "42" } }],
+      })
+      // Parent: final answer
+      .mockResolvedValueOnce({
+        choices: [
+          { message: { role: "assistant", content: "The answer is 42." } },
+        ],
+      });
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "What is the answer?" }],
+      model: "test-model",
+    });
+
+    // The child received its own system prompt and goal
+    const childRequest = create.mock.calls[1][0];
+    expect(childRequest.messages.slice(0, 2)).toEqual([
+      { role: "system", content: "You are a researcher." },
+      { role: "user", content: "Find the answer" },
+    ]);
+    // The allow-list is applied, task_complete and read_artifact are always available
+    // and the child cannot spawn other sub-agents with the default depth
+    expect(childRequest.tools.map((tool: any) => tool.function.name)).toEqual([
+      "task_complete",
+      "read_artifact",
+    ]);
+
+    const toolMessage = result.conversation[2] as any;
+    expect(toolMessage.role).toBe("tool");
+    expect(toolMessage.tool_call_id).toBe("call-spawn");
+    expect(JSON.parse(toolMessage.content)).toBe("42");
+
+    expect(result.llmCalls).toHaveLength(2);
+    expect(result.subagentRuns).toHaveLength(1);
+    expect(result.subagentRuns[0].toolCallId).toBe("call-spawn");
+    expect(result.subagentRuns[0].goal).toBe("Find the answer");
+    expect(result.subagentRuns[0].depth).toBe(1);
+    expect(result.subagentRuns[0].result.llmCalls).toHaveLength(1);
+    expect(result.subagentRuns[0].result.toolCalls).toHaveLength(0);
+  });
+
+  it("stops the sub-agent once its own interaction budget is exhausted", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(spawnSubagentMessage({ goal: "Loop forever" }))
+      // The child keeps asking to spawn again, which is not allowed at depth 1
+      .mockResolvedValueOnce({
+        choices: [
+          { message: { role: "assistant", content: "Still working..." } },
+        ],
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { role: "assistant", content: "Done." } }],
+      });
+
+    const agent = new TinyAgent({ subagentMaxInteractions: 1 } as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Delegate this." }],
+      model: "test-model",
+    });
+
+    expect(result.subagentRuns[0].result.llmCalls).toHaveLength(1);
+    expect(JSON.parse((result.conversation[2] as any).content)).toBe(
+      "Still working..."
+    );
+  });
+
+  it("does not expose spawn_subagent when maxSubagentDepth is 0", async () => {
+    const create = vi.fn().mockResolvedValueOnce({
+      choices: [{ message: { role: "assistant", content: "Hi." } }],
+    });
+
+    const agent = new TinyAgent({ maxSubagentDepth: 0 } as any);
+    await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hi" }],
+      model: "test-model",
+    });
+
+    const toolNames = create.mock.calls[0][0].tools.map(
+      (tool: any) => tool.function.name
+    );
+    expect(toolNames).not.toContain("spawn_subagent");
+  });
+});
+
+describe("TinyAgent streaming", () => {
+  const streamOf = (deltas: object[]) => ({
+    async *[Symbol.asyncIterator]() {
+      for (const delta of deltas) {
+        yield { choices: [{ delta }] };
+      }
+    },
+  });
+
+  it("assembles streamed tool calls by index without repeating the request", async () => {
+    const events: string[] = [];
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(
+        streamOf([
+          { role: "assistant", content: "Let me check " },
+          { content: "both files." },
+          {
+            tool_calls: [
+              {
+                index: 0,
+                id: "call-a",
+                type: "function",
+                function: { name: "read_file", arguments: "" },
+              },
+            ],
+          },
+          { tool_calls: [{ index: 0, function: { arguments: '{"path":' } }] },
+          { tool_calls: [{ index: 0, function: { arguments: '"a.txt"}' } }] },
+          {
+            tool_calls: [
+              {
+                index: 1,
+                id: "call-b",
+                type: "function",
+                function: { name: "read_file", arguments: '{"path":"b' },
+              },
+            ],
           },
+          { tool_calls: [{ index: 1, function: { arguments: '.txt"}' } }] },
+        ])
+      )
+      .mockResolvedValueOnce(streamOf([{ content: "Both are empty." }]));
+
+    const agent = new TinyAgent({} as any);
+    await mockRegistryTools(agent, ["read_file"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockImplementation(
+      async (toolCall) => {
+        events.push(`run ${toolCall.id}`);
+        return { content: [{ type: "text", text: "" }] };
+      }
+    );
+
+    const streamed: string[] = [];
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Read a.txt and b.txt" }],
+      model: "test-model",
+      onStreamAnswer: (content) => {
+        streamed.push(content);
+        events.push("text");
+      },
+      onToolCall: (toolCall) =>
+        events.push(`ready ${toolCall.id} ${toolCall.function.arguments}`),
+    });
+
+    // One streamed request per turn
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(create.mock.calls[0][0].stream).toBe(true);
+
+    // The text before the tool calls is kept in the assistant message
+    expect(result.conversation[1]).toEqual({
+      role: "assistant",
+      content: "Let me check both files.",
+      tool_calls: [
+        {
+          id: "call-a",
+          type: "function",
+          function: { name: "read_file", arguments: '{"path":"a.txt"}' },
+        },
+        {
+          id: "call-b",
+          type: "function",
+          function: { name: "read_file", arguments: '{"path":"b.txt"}' },
         },
       ],
     });
+    expect(streamed).toEqual([
+      "Let me check ",
+      "both files.",
+      "Both are empty.",
+    ]);
 
-    const HELLO_SERVER_PATH = path.resolve(
-      __dirname,
-      "fixtures/helloWorldServer.js"
-    );
+    // onToolCall fires once per call, as soon as its arguments are complete
+    expect(events).toEqual([
+      "text",
+      "text",
+      'ready call-a {"path":"a.txt"}',
+      'ready call-b {"path":"b.txt"}',
+      "run call-a",
+      "run call-b",
+      "text",
+    ]);
+    expect(result.toolCalls.map((toolCall) => toolCall.params)).toEqual([
+      { path: "a.txt" },
+      { path: "b.txt" },
+    ]);
+  });
 
-    const baseMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: "system", content: "You are a helpful assistant." },
-      { role: "user", content: "Just say hi." },
+  it("notifies a tool call before the next one finishes streaming", async () => {
+    const ready: string[] = [];
+    let readyWhenSecondStarted: string[] = [];
+    const deltas = [
+      {
+        tool_calls: [
+          {
+            index: 0,
+            id: "call-a",
+            function: { name: "read_file", arguments: "{}" },
+          },
+        ],
+      },
+      {
+        tool_calls: [
+          {
+            index: 1,
+            id: "call-b",
+            function: { name: "read_file", arguments: "{" },
+          },
+        ],
+      },
+      { tool_calls: [{ index: 1, function: { arguments: "}" } }] },
     ];
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce({
+        async *[Symbol.asyncIterator]() {
+          yield { choices: [{ delta: deltas[0] }] };
+          yield { choices: [{ delta: deltas[1] }] };
+          readyWhenSecondStarted = [...ready];
+          yield { choices: [{ delta: deltas[2] }] };
+        },
+      })
+      .mockResolvedValueOnce(streamOf([{ content: "Done." }]));
 
-    const agent = new TinyAgent({});
-    await agent
-      .getClientsRegistry()
-      .register("stdio", "hello-world-client", "node", [HELLO_SERVER_PATH], {
-        PATH: process.env.PATH!,
+    const agent = new TinyAgent({} as any);
+    await mockRegistryTools(agent, ["read_file"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockResolvedValue({
+      content: [],
+    });
+
+    await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Read files" }],
+      model: "test-model",
+      onStreamAnswer: () => {},
+      onToolCall: (toolCall) => ready.push(toolCall.id),
+    });
+
+    expect(readyWhenSecondStarted).toEqual(["call-a"]);
+    expect(ready).toEqual(["call-a", "call-b"]);
+  });
+});
+
+describe("TinyAgent tool errors", () => {
+  const toolCallResponse = (name: string, args: string) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: `call-${name}`, function: { name, arguments: args } },
+          ],
+        },
+      },
+    ],
+  });
+  const answerResponse = {
+    choices: [{ message: { role: "assistant", content: "Done." } }],
+  };
+
+  it("reports malformed JSON arguments without calling the tool", async () => {
+    const agent = new TinyAgent({} as any);
+    await mockRegistryTools(agent, ["echo"]);
+    const callToolSpy = vi.spyOn(agent.getClientsRegistry(), "callTool");
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(toolCallResponse("echo", '{"text": "hi"'))
+      .mockResolvedValueOnce(answerResponse);
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Echo hi." }],
+      model: "test-model",
+    });
+
+    expect(callToolSpy).not.toHaveBeenCalled();
+    expect(result.toolCalls[0].isError).toBe(true);
+    expect(result.toolCalls[0].result).toMatchObject({
+      isError: true,
+      error: { type: "invalid_arguments", tool: "echo" },
+    });
+    expect(result.conversation[result.conversation.length - 1].content).toBe(
+      "Done."
+    );
+  });
+
+  it("reports errors thrown by the tool", async () => {
+    const agent = new TinyAgent({} as any);
+    await mockRegistryTools(agent, ["echo"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockRejectedValue(
+      new Error("MCP error -32603: boom")
+    );
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(toolCallResponse("echo", "{}"))
+      .mockResolvedValueOnce(answerResponse);
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Echo." }],
+      model: "test-model",
+    });
+
+    expect(result.toolCalls[0].result).toEqual({
+      isError: true,
+      content: [{ type: "text", text: "MCP error -32603: boom" }],
+      error: { type: "tool_error", tool: "echo" },
+    });
+  });
+
+  it("stops the run after maxConsecutiveToolFailures failed tool calls in a row", async () => {
+    const agent = new TinyAgent({ maxConsecutiveToolFailures: 2 } as any);
+    await mockRegistryTools(agent, ["flaky"]);
+    // MCP isError results count as failures too
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockResolvedValue({
+      isError: true,
+      content: [{ type: "text", text: "Service unavailable" }],
+    });
+    const create = vi.fn().mockResolvedValue(toolCallResponse("flaky", "{}"));
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Call flaky." }],
+      model: "test-model",
+    });
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(result.toolCalls).toHaveLength(2);
+    expect(result.toolFailuresLimitReached).toBe(true);
+  });
+
+  it("resets the failures count after a successful tool call", async () => {
+    const agent = new TinyAgent({ maxConsecutiveToolFailures: 2 } as any);
+    await mockRegistryTools(agent, ["flaky"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool")
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce({ content: [{ type: "text", text: "ok" }] })
+      .mockRejectedValueOnce(new Error("boom"));
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(toolCallResponse("flaky", "{}"))
+      .mockResolvedValueOnce(toolCallResponse("flaky", "{}"))
+      .mockResolvedValueOnce(toolCallResponse("flaky", "{}"))
+      .mockResolvedValueOnce(answerResponse);
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Call flaky." }],
+      model: "test-model",
+    });
+
+    expect(result.toolCalls.map((toolCall) => toolCall.isError)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    expect(result.toolFailuresLimitReached).toBe(false);
+    expect(result.conversation[result.conversation.length - 1].content).toBe(
+      "Done."
+    );
+  });
+});
+
+describe("TinyAgent ask_user tool", () => {
+  const askUserMessage = {
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call-ask",
+              function: {
+                name: "ask_user",
+                arguments: JSON.stringify({ question: "Which city?" }),
+              },
+            },
+          ],
+        },
+      },
+    ],
+  };
+
+  it("asks the question to the user and returns the answer to the LLM", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(askUserMessage)
+      .mockResolvedValueOnce({
+        choices: [
+          { message: { role: "assistant", content: "Sunny in Rome." } },
+        ],
       });
-    const result: TinyAgentRunResult = await agent.run({
-      openai: openaiMock as unknown as OpenAI,
-      baseMessages,
+    const requestInputFromUser = vi.fn().mockResolvedValue({ input: "Rome" });
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "What's the weather?" }],
+      model: "test-model",
+      requestInputFromUser,
     });
 
-    // Assert: exactly one LLM call, no toolCalls
-    expect(result.llmCalls).toHaveLength(1);
-    expect(result.toolCalls).toHaveLength(0);
+    expect(requestInputFromUser).toHaveBeenCalledWith("Which city?");
+    const toolMessage = result.conversation[2] as any;
+    expect(toolMessage.tool_call_id).toBe("call-ask");
+    expect(JSON.parse(toolMessage.content)).toBe("Rome");
+    expect(result.conversation[3].content).toBe("Sunny in Rome.");
+  });
 
-    // Conversation should include the two base messages + assistant response
-    expect(result.conversation).toHaveLength(3);
-    expect(result.conversation[0]).toEqual(baseMessages[0]);
-    expect(result.conversation[1]).toEqual(baseMessages[1]);
-    const assistantMsg = result.conversation[2] as any;
-    expect(assistantMsg.role).toBe("assistant");
-    expect(assistantMsg.content).toBe("All done, no tools needed.");
+  it("exposes ask_user only when the user can be asked", async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { role: "assistant", content: "Hi." } }],
+    });
+    const agent = new TinyAgent({} as any);
+    const toolNamesOfCall = (index: number) =>
+      create.mock.calls[index][0].tools.map((tool: any) => tool.function.name);
+
+    await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hi" }],
+      model: "test-model",
+    });
+    await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hi" }],
+      model: "test-model",
+      requestInputFromUser: vi.fn(),
+    });
+
+    expect(toolNamesOfCall(0)).not.toContain("ask_user");
+    expect(toolNamesOfCall(1)).toContain("ask_user");
   });
 
-  it("runs to completion when the LLM requests a tool which is available in the registered clients", async () => {
-    // Arrange: LLM first returns a tool call, then returns a final assistant message
-    openaiMock.chat.completions.create
+  it("reports a question that is not a string without asking the user", async () => {
+    const create = vi
+      .fn()
       .mockResolvedValueOnce({
         choices: [
           {
@@ -179,10 +827,10 @@ describe("TinyAgent with real ClientsRegistry (with external tools registered)",
               content: null,
               tool_calls: [
                 {
-                  id: "call-1",
+                  id: "call-ask",
                   function: {
-                    name: "hello-world",
-                    arguments: JSON.stringify({}),
+                    name: "ask_user",
+                    arguments: JSON.stringify({ question: ["Which city?"] }),
                   },
                 },
               ],
@@ -191,20 +839,445 @@ describe("TinyAgent with real ClientsRegistry (with external tools registered)",
         ],
       })
       .mockResolvedValueOnce({
-        choices: [
-          {
-            message: {
-              role: "assistant",
-              content: "Final answer after tool.",
-            },
-          },
-        ],
+        choices: [{ message: { role: "assistant", content: "Ok." } }],
       });
+    const requestInputFromUser = vi.fn();
 
-    const HELLO_SERVER_PATH = path.resolve(
-      __dirname,
-      "fixtures/helloWorldServer.js"
-    );
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "What's the weather?" }],
+      model: "test-model",
+      requestInputFromUser,
+    });
+
+    expect(requestInputFromUser).not.toHaveBeenCalled();
+    expect(result.toolCalls[0].isError).toBe(true);
+    expect(result.toolCalls[0].result).toMatchObject({
+      content: [
+        {
+          text: 'The "question" parameter is required to ask the user, as a string.',
+        },
+      ],
+    });
+  });
+});
+
+describe("TinyAgent tool approval", () => {
+  const toolCallResponse = (name: string, args: object) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: `call-${name}`,
+              function: { name, arguments: JSON.stringify(args) },
+            },
+          ],
+        },
+      },
+    ],
+  });
+  const answerResponse = {
+    choices: [{ message: { role: "assistant", content: "Done." } }],
+  };
+
+  const runWithTool = async (
+    config: object,
+    toolCall: { name: string; args: object },
+    requestToolApproval?: Mock
+  ) => {
+    const agent = new TinyAgent(config as any);
+    await mockRegistryTools(agent, ["read_file", "write_file"]);
+    const callToolSpy = vi
+      .spyOn(agent.getClientsRegistry(), "callTool")
+      .mockResolvedValue({ content: [{ type: "text", text: "ok" }] });
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(toolCallResponse(toolCall.name, toolCall.args))
+      .mockResolvedValueOnce(answerResponse);
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Work on the files." }],
+      model: "test-model",
+      requestToolApproval,
+    });
+    return { result, callToolSpy };
+  };
+
+  it("runs tools without a rule automatically", async () => {
+    const requestToolApproval = vi.fn();
+    const { callToolSpy } = await runWithTool(
+      { toolApproval: { tools: { write_file: "confirm" } } },
+      { name: "read_file", args: { path: "a.txt" } },
+      requestToolApproval
+    );
+
+    expect(requestToolApproval).not.toHaveBeenCalled();
+    expect(callToolSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks for approval before running a confirm tool", async () => {
+    const requestToolApproval = vi.fn().mockResolvedValue({
+      action: "approve",
+    });
+    const { result, callToolSpy } = await runWithTool(
+      { toolApproval: { servers: { "mock-client": "confirm" } } },
+      { name: "write_file", args: { path: "a.txt" } },
+      requestToolApproval
+    );
+
+    expect(requestToolApproval).toHaveBeenCalledWith({
+      toolCallId: "call-write_file",
+      toolName: "write_file",
+      clientName: "mock-client",
+      params: { path: "a.txt" },
+    });
+    expect(callToolSpy).toHaveBeenCalledTimes(1);
+    expect(result.toolCalls[0].isError).toBe(false);
+  });
+
+  it("runs the tool with the arguments edited by the user", async () => {
+    const requestToolApproval = vi.fn().mockResolvedValue({
+      action: "edit",
+      arguments: { path: "b.txt" },
+    });
+    const { result, callToolSpy } = await runWithTool(
+      { toolApproval: { tools: { write_file: "confirm" } } },
+      { name: "write_file", args: { path: "a.txt" } },
+      requestToolApproval
+    );
+
+    expect(callToolSpy.mock.calls[0][0].function.arguments).toBe(
+      JSON.stringify({ path: "b.txt" })
+    );
+    expect(result.toolCalls[0].params).toEqual({ path: "b.txt" });
+  });
+
+  it("reports rejected calls to the LLM without running the tool", async () => {
+    const requestToolApproval = vi.fn().mockResolvedValue({
+      action: "reject",
+      reason: "wrong file",
+    });
+    const { result, callToolSpy } = await runWithTool(
+      { toolApproval: { tools: { write_file: "confirm" } } },
+      { name: "write_file", args: { path: "a.txt" } },
+      requestToolApproval
+    );
+
+    expect(callToolSpy).not.toHaveBeenCalled();
+    expect(result.toolCalls[0].result).toEqual({
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: 'The user rejected the call to tool "write_file": wrong file',
+        },
+      ],
+      error: { type: "rejected", tool: "write_file" },
+    });
+  });
+
+  it("never runs denied tools", async () => {
+    const requestToolApproval = vi.fn();
+    const { result, callToolSpy } = await runWithTool(
+      { toolApproval: { default: "deny" } },
+      { name: "read_file", args: { path: "a.txt" } },
+      requestToolApproval
+    );
+
+    expect(requestToolApproval).not.toHaveBeenCalled();
+    expect(callToolSpy).not.toHaveBeenCalled();
+    expect(result.toolCalls[0].isError).toBe(true);
+  });
+
+  it("rejects confirm tools when approval cannot be requested", async () => {
+    const { result, callToolSpy } = await runWithTool(
+      { toolApproval: { tools: { write_file: "confirm" } } },
+      { name: "write_file", args: { path: "a.txt" } }
+    );
+
+    expect(callToolSpy).not.toHaveBeenCalled();
+    expect(result.toolCalls[0].isError).toBe(true);
+  });
+
+  it("applies rules with an argumentsPattern only to matching calls", async () => {
+    const config = {
+      toolApproval: {
+        tools: {
+          write_file: { policy: "deny", argumentsPattern: "\\.env" },
+        },
+      },
+    };
+
+    const allowed = await runWithTool(config, {
+      name: "write_file",
+      args: { path: "notes.txt" },
+    });
+    expect(allowed.callToolSpy).toHaveBeenCalledTimes(1);
+
+    const denied = await runWithTool(config, {
+      name: "write_file",
+      args: { path: ".ENV" },
+    });
+    expect(denied.callToolSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("TinyAgent cancellation", () => {
+  const rejectOnAbort = (signal?: AbortSignal) =>
+    new Promise<never>((_, reject) => {
+      signal?.addEventListener("abort", () =>
+        reject(new Error("Request was aborted."))
+      );
+    });
+
+  it("does not call the LLM when the signal is already aborted", async () => {
+    const agent = new TinyAgent({} as any);
+    const create = vi.fn();
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hello" }],
+      model: "test-model",
+      signal: controller.signal,
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    expect(result.cancelled).toBe(true);
+    expect(result.conversation).toEqual([{ role: "user", content: "Hello" }]);
+  });
+
+  it("stops an in-flight LLM request", async () => {
+    const agent = new TinyAgent({} as any);
+    const controller = new AbortController();
+    const create = vi.fn((_body, requestOptions) =>
+      rejectOnAbort(requestOptions?.signal)
+    );
+
+    setTimeout(() => controller.abort(), 10);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hello" }],
+      model: "test-model",
+      signal: controller.signal,
+    });
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(result.cancelled).toBe(true);
+    expect(result.llmCalls).toHaveLength(0);
+  });
+
+  it("answers interrupted tool calls and stops before the next LLM call", async () => {
+    const agent = new TinyAgent({} as any);
+    await mockRegistryTools(agent, ["long_tool"]);
+    const controller = new AbortController();
+    const create = vi.fn().mockResolvedValueOnce({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call-1",
+                function: { name: "long_tool", arguments: "{}" },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    const callToolSpy = vi
+      .spyOn(agent.getClientsRegistry(), "callTool")
+      .mockImplementation(async (_toolCall, options) => {
+        setTimeout(() => controller.abort(), 10);
+        return rejectOnAbort(options?.signal);
+      });
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Run the long tool." }],
+      model: "test-model",
+      signal: controller.signal,
+    });
+
+    expect(callToolSpy).toHaveBeenCalledWith(expect.anything(), {
+      signal: controller.signal,
+    });
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(result.cancelled).toBe(true);
+    const lastMessage = result.conversation[
+      result.conversation.length - 1
+    ] as any;
+    expect(lastMessage.role).toBe("tool");
+    expect(lastMessage.tool_call_id).toBe("call-1");
+    expect(JSON.parse(lastMessage.content)).toMatchObject({
+      isError: true,
+      error: { type: "cancelled" },
+    });
+  });
+
+  it("does not count cancelled tool calls as tool failures", async () => {
+    const agent = new TinyAgent({ maxConsecutiveToolFailures: 1 } as any);
+    await mockRegistryTools(agent, ["long_tool"]);
+    const controller = new AbortController();
+    const create = vi.fn().mockResolvedValueOnce({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call-1",
+                function: { name: "long_tool", arguments: "{}" },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockImplementation(
+      async (_toolCall, options) => {
+        setTimeout(() => controller.abort(), 10);
+        return rejectOnAbort(options?.signal);
+      }
+    );
+
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Run the long tool." }],
+      model: "test-model",
+      signal: controller.signal,
+    });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.toolFailuresLimitReached).toBe(false);
+  });
+});
+
+describe("TinyAgent with real ClientsRegistry (with external tools registered)", () => {
+  let openaiMock: {
+    chat: {
+      completions: {
+        create: Mock;
+      };
+    };
+  };
+
+  beforeEach(() => {
+    // Mock the OpenAI client’s chat.completions.create method
+    openaiMock = {
+      chat: {
+        completions: {
+          create: vi.fn(),
+        },
+      },
+    };
+  });
+
+  it("runs to completion when the LLM never requests a tool", async () => {
+    // Arrange: LLM returns a single assistant message with no tool_calls
+    openaiMock.chat.completions.create.mockResolvedValueOnce({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: "All done, no tools needed.",
+          },
+        },
+      ],
+    });
+
+    const HELLO_SERVER_PATH = path.resolve(
+      __dirname,
+      "fixtures/helloWorldServer.js"
+    );
+
+    const baseMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      { role: "system", content: "You are a helpful assistant." },
+      { role: "user", content: "Just say hi." },
+    ];
+
+    const agent = new TinyAgent({});
+    await agent
+      .getClientsRegistry()
+      .register("stdio", "hello-world-client", "node", [HELLO_SERVER_PATH], {
+        PATH: process.env.PATH!,
+      });
+    const result: TinyAgentRunResult = await agent.run({
+      llm: new OpenAIProvider({ client: openaiMock as unknown as OpenAI }),
+      baseMessages,
+    });
+
+    // Assert: exactly one LLM call, no toolCalls
+    expect(result.llmCalls).toHaveLength(1);
+    expect(result.toolCalls).toHaveLength(0);
+
+    // Conversation should include the two base messages + assistant response
+    expect(result.conversation).toHaveLength(3);
+    expect(result.conversation[0]).toEqual(baseMessages[0]);
+    expect(result.conversation[1]).toEqual(baseMessages[1]);
+    const assistantMsg = result.conversation[2] as any;
+    expect(assistantMsg.role).toBe("assistant");
+    expect(assistantMsg.content).toBe("All done, no tools needed.");
+  });
+
+  it("runs to completion when the LLM requests a tool which is available in the registered clients", async () => {
+    // Arrange: LLM first returns a tool call, then returns a final assistant message
+    openaiMock.chat.completions.create
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "call-1",
+                  function: {
+                    name: "hello-world",
+                    arguments: JSON.stringify({}),
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: "Final answer after tool.",
+            },
+          },
+        ],
+      });
+
+    const HELLO_SERVER_PATH = path.resolve(
+      __dirname,
+      "fixtures/helloWorldServer.js"
+    );
 
     const baseMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
       { role: "system", content: "You are a helpful assistant." },
@@ -221,7 +1294,7 @@ describe("TinyAgent with real ClientsRegistry (with external tools registered)",
 
     // Act
     const result: TinyAgentRunResult = await agent.run({
-      openai: openaiMock as unknown as OpenAI,
+      llm: new OpenAIProvider({ client: openaiMock as unknown as OpenAI }),
       baseMessages,
     });
 
@@ -255,3 +1328,1229 @@ describe("TinyAgent with real ClientsRegistry (with external tools registered)",
     expect(finalAssistantMsg.content).toBe("Final answer after tool.");
   });
 });
+
+describe("TinyAgent token usage", () => {
+  const usage = (prompt: number, completion: number, cached = 0) => ({
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion,
+    prompt_tokens_details: { cached_tokens: cached },
+  });
+
+  it("records the usage and estimated cost of each LLM call", async () => {
+    const create = vi.fn().mockResolvedValueOnce({
+      choices: [{ message: { role: "assistant", content: "Hi." } }],
+      usage: usage(1_000_000, 100_000, 400_000),
+    });
+
+    const agent = new TinyAgent({
+      modelPrices: {
+        "test-model": { input: 1, cachedInput: 0.1, output: 10 },
+      },
+    } as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hi" }],
+      model: "test-model",
+    });
+
+    expect(result.llmCalls[0].model).toBe("test-model");
+    expect(result.llmCalls[0].usage).toEqual({
+      promptTokens: 1_000_000,
+      completionTokens: 100_000,
+      cachedTokens: 400_000,
+      totalTokens: 1_100_000,
+    });
+    // 600k uncached input at $1 + 400k cached at $0.1 + 100k output at $10 per 1M
+    expect(result.llmCalls[0].cost).toBeCloseTo(1.64);
+    expect(result.usage.cost).toBeCloseTo(1.64);
+  });
+
+  it("reads the usage from the last chunk of a stream", async () => {
+    const create = vi.fn().mockResolvedValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield { choices: [{ delta: { content: "Hi." } }] };
+        yield { choices: [], usage: usage(10, 2) };
+      },
+    });
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hi" }],
+      model: "unpriced-model",
+      onStreamAnswer: () => {},
+    });
+
+    expect(create.mock.calls[0][0].stream_options).toEqual({
+      include_usage: true,
+    });
+    expect(result.llmCalls[0].usage?.totalTokens).toBe(12);
+    // Without a price only the tokens are counted
+    expect(result.llmCalls[0].cost).toBeUndefined();
+    expect(result.usage).toEqual({
+      promptTokens: 10,
+      completionTokens: 2,
+      cachedTokens: 0,
+      totalTokens: 12,
+      cost: 0,
+    });
+  });
+
+  it("includes the usage of the sub-agents in the total", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "call-spawn",
+                  function: {
+                    name: "spawn_subagent",
+                    arguments: JSON.stringify({ goal: "Count" }),
+                  },
+                },
+              ],
+            },
+          },
+        ],
+        usage: usage(100, 10),
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { role: "assistant", content: "3" } }],
+        usage: usage(50, 5),
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { role: "assistant", content: "It is 3." } }],
+        usage: usage(200, 20),
+      });
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Count" }],
+      model: "test-model",
+    });
+
+    expect(result.subagentRuns[0].result.usage.totalTokens).toBe(55);
+    expect(result.usage.promptTokens).toBe(350);
+    expect(result.usage.completionTokens).toBe(35);
+    expect(result.usage.totalTokens).toBe(385);
+  });
+});
+
+describe("TinyAgent context management", () => {
+  const toolCallResponse = (id: string) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id,
+              type: "function",
+              function: { name: "fetch_page", arguments: "{}" },
+            },
+          ],
+        },
+      },
+    ],
+  });
+  const bigPage = "<div>page</div>".repeat(400);
+
+  const runWithTwoPages = async (
+    config: object,
+    summaryResponse?: () => Promise<unknown>
+  ) => {
+    const create = vi.fn(async (request: any) => {
+      if (request.messages[0].content.includes("You compress the output")) {
+        return summaryResponse!();
+      }
+      const turns = request.messages.filter(
+        (message: any) => message.role === "assistant"
+      ).length;
+      if (turns < 2) return toolCallResponse(`call-${turns + 1}`);
+      return {
+        choices: [{ message: { role: "assistant", content: "Done." } }],
+      };
+    });
+
+    const agent = new TinyAgent(config as any);
+    await mockRegistryTools(agent, ["fetch_page"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockResolvedValue({
+      content: [{ type: "text", text: bigPage }],
+    });
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [
+        { role: "system", content: "You are a helpful assistant." },
+        { role: "user", content: "Read both pages" },
+      ],
+      model: "test-model",
+    });
+    return { create, result };
+  };
+
+  it("truncates the oldest tool outputs once over budget, keeping the recent turns", async () => {
+    const { create, result } = await runWithTwoPages({
+      contextManagement: {
+        maxContextTokens: 2000,
+        keepRecentTurns: 1,
+        strategy: "truncate",
+        truncatedOutputTokens: 50,
+      },
+    });
+
+    expect(result.compactions).toHaveLength(1);
+    expect(result.compactions[0]).toMatchObject({
+      toolCallId: "call-1",
+      toolName: "fetch_page",
+      method: "truncated",
+    });
+    expect(result.compactions[0].tokensAfter).toBeLessThan(
+      result.compactions[0].tokensBefore
+    );
+
+    // The last request received the truncated first page and the full second page
+    const lastRequest = create.mock.calls[2][0];
+    expect(lastRequest.messages[0].content).toBe(
+      "You are a helpful assistant."
+    );
+    expect(lastRequest.messages[3].tool_call_id).toBe("call-1");
+    expect(lastRequest.messages[3].content).toMatch(
+      /^\[Tool output truncated, ~\d+ tokens originally\]/
+    );
+    expect(lastRequest.messages[5].content).toContain(bigPage);
+  });
+
+  it("summarizes old tool outputs with the helper model", async () => {
+    const { create, result } = await runWithTwoPages(
+      {
+        helperModel: "helper-model",
+        modelPrices: { "helper-model": { input: 1, output: 1 } },
+        contextManagement: { maxContextTokens: 2000, keepRecentTurns: 1 },
+      },
+      async () => ({
+        choices: [
+          { message: { role: "assistant", content: "A page of divs." } },
+        ],
+        usage: {
+          prompt_tokens: 1500,
+          completion_tokens: 5,
+          total_tokens: 1505,
+        },
+      })
+    );
+
+    const summaryRequest = create.mock.calls.find(
+      ([request]) => request.model === "helper-model"
+    )![0];
+    expect(summaryRequest.messages[1].content).toContain(bigPage);
+
+    expect(result.compactions[0].method).toBe("summarized");
+    expect(result.compactions[0].usage?.totalTokens).toBe(1505);
+    expect(result.usage.totalTokens).toBe(1505);
+    const lastRequest = create.mock.calls[create.mock.calls.length - 1][0];
+    expect(lastRequest.messages[3].content).toBe(
+      `[Tool output summarized, ~${result.compactions[0].tokensBefore} tokens originally]\nA page of divs.`
+    );
+  });
+
+  it("falls back to truncation when the summary fails", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const { result } = await runWithTwoPages(
+      { contextManagement: { maxContextTokens: 2000, keepRecentTurns: 1 } },
+      async () => {
+        throw new Error("rate limited");
+      }
+    );
+    consoleError.mockRestore();
+
+    expect(result.compactions[0].method).toBe("truncated");
+  });
+
+  it("leaves the conversation untouched under the budget", async () => {
+    const { create, result } = await runWithTwoPages({});
+
+    expect(result.compactions).toEqual([]);
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("TinyAgent artifacts", () => {
+  const toolCallResponse = (name: string, args: object) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: `call-${name}`,
+              type: "function",
+              function: { name, arguments: JSON.stringify(args) },
+            },
+          ],
+        },
+      },
+    ],
+  });
+  const snapshot = "0123456789".repeat(50);
+
+  it("stores large tool results as artifacts and pages through them with read_artifact", async () => {
+    const artifactStore = new InMemoryArtifactStore();
+    const create = vi.fn(async (request: any) => {
+      const lastMessage = request.messages[request.messages.length - 1];
+      if (lastMessage.role === "user") {
+        return toolCallResponse("browser_snapshot", {});
+      }
+      const content = JSON.parse(lastMessage.content);
+      if (content.artifactId) {
+        return toolCallResponse("read_artifact", {
+          artifact_id: content.artifactId,
+          offset: 100,
+          length: 1000,
+        });
+      }
+      return { choices: [{ message: { role: "assistant", content: "Ok." } }] };
+    });
+
+    const agent = new TinyAgent({
+      artifacts: { maxToolResultChars: 300, previewChars: 100, pageChars: 200 },
+      artifactStore,
+    } as any);
+    await mockRegistryTools(agent, ["browser_snapshot"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockResolvedValue(
+      snapshot
+    );
+    const results: ToolCallResult[] = [];
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Take a snapshot" }],
+      model: "test-model",
+      onToolCallResult: (toolCallResult) => results.push(toolCallResult),
+    });
+
+    // The conversation only holds a preview of the result
+    const artifactId = results[0].artifactId!;
+    const artifact = await artifactStore.getArtifact(artifactId);
+    expect(artifact?.content).toBe(JSON.stringify(snapshot));
+    const preview = JSON.parse((result.conversation[2] as any).content);
+    expect(preview).toMatchObject({
+      artifactId,
+      totalChars: 502,
+      preview: JSON.stringify(snapshot).slice(0, 100),
+    });
+    // The telemetry keeps the full result
+    expect(results[0].result).toBe(snapshot);
+
+    // read_artifact returns at most pageChars from the requested offset
+    expect(JSON.parse((result.conversation[4] as any).content)).toEqual({
+      artifactId,
+      offset: 100,
+      content: JSON.stringify(snapshot).slice(100, 300),
+      totalChars: 502,
+      nextOffset: 300,
+    });
+    expect(results[1].artifactId).toBeUndefined();
+  });
+
+  it("reports unknown artifacts to the LLM", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(
+        toolCallResponse("read_artifact", { artifact_id: "missing" })
+      )
+      .mockResolvedValueOnce({
+        choices: [{ message: { role: "assistant", content: "Ok." } }],
+      });
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Read it" }],
+      model: "test-model",
+    });
+
+    expect(result.toolCalls[0].isError).toBe(true);
+    expect((result.conversation[2] as any).content).toContain(
+      'Artifact \\"missing\\" not found.'
+    );
+  });
+
+  it("does not expose read_artifact when artifacts are disabled", async () => {
+    const create = vi.fn().mockResolvedValueOnce({
+      choices: [{ message: { role: "assistant", content: "Hi." } }],
+    });
+
+    const agent = new TinyAgent({
+      artifacts: { maxToolResultChars: 0 },
+    } as any);
+    await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Hi" }],
+      model: "test-model",
+    });
+
+    const toolNames = create.mock.calls[0][0].tools.map(
+      (tool: any) => tool.function.name
+    );
+    expect(toolNames).not.toContain("read_artifact");
+  });
+});
+
+describe("TinyAgent LLM retries and fallbacks", () => {
+  const apiError = (status: number, headers: Record<string, string> = {}) =>
+    OpenAI.APIError.generate(
+      status,
+      undefined,
+      `Error ${status}`,
+      new Headers(headers)
+    );
+  const answer = (content: string) => ({
+    choices: [{ message: { role: "assistant", content } }],
+  });
+  const providerOf = (create: Mock) =>
+    new OpenAIProvider({
+      client: { chat: { completions: { create } } } as unknown as OpenAI,
+    });
+
+  it("retries rate limited requests after their Retry-After delay", async () => {
+    const create = vi
+      .fn()
+      .mockRejectedValueOnce(apiError(429, { "retry-after": "0.01" }))
+      .mockResolvedValueOnce(answer("Hi."));
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Hi" }],
+      model: "test-model",
+    });
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(result.conversation[1].content).toBe("Hi.");
+    expect(result.llmCalls[0].attempts).toEqual([
+      expect.objectContaining({
+        model: "test-model",
+        status: 429,
+        error: "429 Error 429",
+        retryDelayMs: 10,
+      }),
+      expect.not.objectContaining({ error: expect.anything() }),
+    ]);
+  });
+
+  it("switches to the fallback model once the retries are exhausted", async () => {
+    const primaryCreate = vi.fn().mockRejectedValue(apiError(503));
+    const backupCreate = vi
+      .fn()
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "call_1",
+                  type: "function",
+                  function: { name: "echo", arguments: "{}" },
+                },
+              ],
+            },
+          },
+        ],
+      })
+      .mockResolvedValueOnce(answer("Done."));
+
+    const agent = new TinyAgent({
+      llmRetry: { maxRetries: 1, initialDelayMs: 1, maxDelayMs: 10 },
+      fallbackModels: [{ model: "backup-model", provider: "backup" }],
+    } as any);
+    await mockRegistryTools(agent, ["echo"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockResolvedValue("ok");
+
+    const result = await agent.run({
+      llm: new ModelRouter({
+        providers: {
+          openai: providerOf(primaryCreate),
+          backup: providerOf(backupCreate),
+        },
+        defaultProvider: "openai",
+      }),
+      baseMessages: [{ role: "user", content: "Echo" }],
+      model: "test-model",
+    });
+
+    expect(result.conversation[result.conversation.length - 1].content).toBe(
+      "Done."
+    );
+    expect(backupCreate.mock.calls[0][0].model).toBe("backup-model");
+    expect(result.llmCalls[0]).toMatchObject({
+      model: "backup-model",
+      provider: "backup",
+    });
+    expect(
+      result.llmCalls[0].attempts.map(({ model, status }) => [model, status])
+    ).toEqual([
+      ["test-model", 503],
+      ["test-model", 503],
+      ["backup-model", undefined],
+    ]);
+    // The run keeps the fallback model instead of retrying the failing one
+    expect(primaryCreate).toHaveBeenCalledTimes(2);
+    expect(result.llmCalls[1].attempts).toHaveLength(1);
+  });
+
+  it("starts sub-agents on the fallback model the parent switched to", async () => {
+    const primaryCreate = vi.fn().mockRejectedValue(apiError(503));
+    const backupCreate = vi
+      .fn()
+      // Parent: spawn a sub-agent
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "call-spawn",
+                  type: "function",
+                  function: {
+                    name: "spawn_subagent",
+                    arguments: JSON.stringify({ goal: "Find the answer" }),
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      })
+      // Child
+      .mockResolvedValueOnce(answer("42"))
+      // Parent
+      .mockResolvedValueOnce(answer("The answer is 42."));
+
+    const agent = new TinyAgent({
+      llmRetry: { maxRetries: 0 },
+      fallbackModels: [{ model: "backup-model", provider: "backup" }],
+    } as any);
+    const result = await agent.run({
+      llm: new ModelRouter({
+        providers: {
+          openai: providerOf(primaryCreate),
+          backup: providerOf(backupCreate),
+        },
+        defaultProvider: "openai",
+      }),
+      baseMessages: [{ role: "user", content: "What is the answer?" }],
+      model: "test-model",
+    });
+
+    expect(primaryCreate).toHaveBeenCalledTimes(1);
+    expect(backupCreate.mock.calls.map(([request]) => request.model)).toEqual([
+      "backup-model",
+      "backup-model",
+      "backup-model",
+    ]);
+    expect(result.subagentRuns[0].result.llmCalls[0]).toMatchObject({
+      model: "backup-model",
+      provider: "backup",
+    });
+  });
+
+  it("does not retry client errors", async () => {
+    const create = vi.fn().mockRejectedValue(apiError(400));
+
+    const agent = new TinyAgent({
+      llmRetry: { initialDelayMs: 1 },
+    } as any);
+    await expect(
+      agent.run({
+        llm: providerOf(create),
+        baseMessages: [{ role: "user", content: "Hi" }],
+        model: "test-model",
+      })
+    ).rejects.toThrow("400 Error 400");
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not switch to the fallback model on client errors", async () => {
+    const primaryCreate = vi.fn().mockRejectedValue(apiError(401));
+    const backupCreate = vi.fn().mockResolvedValue(answer("Hi."));
+
+    const agent = new TinyAgent({
+      llmRetry: { initialDelayMs: 1 },
+      fallbackModels: [{ model: "backup-model", provider: "backup" }],
+    } as any);
+    await expect(
+      agent.run({
+        llm: new ModelRouter({
+          providers: {
+            openai: providerOf(primaryCreate),
+            backup: providerOf(backupCreate),
+          },
+          defaultProvider: "openai",
+        }),
+        baseMessages: [{ role: "user", content: "Hi" }],
+        model: "test-model",
+      })
+    ).rejects.toThrow("401 Error 401");
+    expect(primaryCreate).toHaveBeenCalledTimes(1);
+    expect(backupCreate).not.toHaveBeenCalled();
+  });
+
+  it("does not retry a stream that has already sent part of the answer", async () => {
+    const create = vi.fn().mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { choices: [{ delta: { content: "Hel" } }] };
+        throw new OpenAI.APIConnectionError({ message: "Connection reset" });
+      },
+    });
+
+    const agent = new TinyAgent({
+      llmRetry: { initialDelayMs: 1 },
+    } as any);
+    const streamed: string[] = [];
+    await expect(
+      agent.run({
+        llm: providerOf(create),
+        baseMessages: [{ role: "user", content: "Hi" }],
+        model: "test-model",
+        onStreamAnswer: (content) => streamed.push(content),
+      })
+    ).rejects.toThrow("Connection reset");
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(streamed).toEqual(["Hel"]);
+  });
+});
+
+describe("TinyAgent middlewares", () => {
+  const toolCallsMessage = (
+    ...calls: { id: string; name: string; args: object }[]
+  ) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: calls.map(({ id, name, args }) => ({
+            id,
+            type: "function",
+            function: { name, arguments: JSON.stringify(args) },
+          })),
+        },
+      },
+    ],
+  });
+  const answer = (content: string) => ({
+    choices: [{ message: { role: "assistant", content } }],
+  });
+  const providerOf = (create: Mock) =>
+    new OpenAIProvider({
+      client: { chat: { completions: { create } } } as unknown as OpenAI,
+    });
+  const createAgent = (middlewares: AgentMiddleware[]) =>
+    new TinyAgent({ middlewares } as any);
+
+  it("reports the tool calls kept by afterLLMCall, not the streamed ones", async () => {
+    const toolCallDelta = (index: number, id: string, path: string) => ({
+      tool_calls: [
+        {
+          index,
+          id,
+          type: "function",
+          function: { name: "read_file", arguments: JSON.stringify({ path }) },
+        },
+      ],
+    });
+    const streamOf = (deltas: object[]) => ({
+      async *[Symbol.asyncIterator]() {
+        for (const delta of deltas) {
+          yield { choices: [{ delta }] };
+        }
+      },
+    });
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(
+        streamOf([
+          toolCallDelta(0, "call-a", "a.txt"),
+          toolCallDelta(1, "call-b", ".env"),
+        ])
+      )
+      .mockResolvedValueOnce(streamOf([{ content: "Done." }]));
+    const dropSecrets: AgentMiddleware = {
+      name: "drop-secrets",
+      afterLLMCall: (_context, { message }) => ({
+        message: {
+          ...message,
+          tool_calls: message.tool_calls?.filter(
+            (toolCall) =>
+              toolCall.type === "function" &&
+              !toolCall.function.arguments.includes(".env")
+          ),
+        },
+      }),
+    };
+
+    const agent = createAgent([dropSecrets]);
+    await mockRegistryTools(agent, ["read_file"]);
+    const callTool = vi
+      .spyOn(agent.getClientsRegistry(), "callTool")
+      .mockResolvedValue("content");
+    const reported: string[] = [];
+    await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Read a.txt and .env" }],
+      model: "test-model",
+      onStreamAnswer: () => {},
+      onToolCall: (toolCall) => reported.push(toolCall.id),
+    });
+
+    expect(reported).toEqual(["call-a"]);
+    expect(callTool.mock.calls.map(([toolCall]) => toolCall.id)).toEqual([
+      "call-a",
+    ]);
+  });
+
+  it("rewrites the messages sent to the LLM and the answers kept", async () => {
+    const create = vi.fn().mockResolvedValueOnce(answer("Your card is 4242."));
+
+    const agent = createAgent([
+      {
+        name: "redact-cards",
+        beforeLLMCall: (_context, { messages }) => ({
+          messages: messages.map((message) =>
+            typeof message.content === "string"
+              ? {
+                  ...message,
+                  content: message.content.replace(/\d{4}/g, "****"),
+                }
+              : message
+          ),
+        }),
+        afterLLMCall: (_context, { message }) => ({
+          message: {
+            ...message,
+            content: message.content?.replace(/\d{4}/g, "****") ?? null,
+          },
+        }),
+      },
+    ]);
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "My card is 4242." }],
+      model: "test-model",
+    });
+
+    expect(create.mock.calls[0][0].messages[0].content).toBe(
+      "My card is ****."
+    );
+    // The conversation keeps the user's message, not the answer of the LLM
+    expect(result.conversation.map((message) => message.content)).toEqual([
+      "My card is 4242.",
+      "Your card is ****.",
+    ]);
+  });
+
+  it("blocks, edits and redacts tool calls", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(
+        toolCallsMessage(
+          { id: "call_1", name: "delete_file", args: { path: "/etc/hosts" } },
+          { id: "call_2", name: "read_file", args: { path: "notes.txt" } }
+        )
+      )
+      .mockResolvedValueOnce(answer("Done."));
+    const onToolCallResult = vi.fn();
+
+    const agent = createAgent([
+      {
+        name: "guardrails",
+        beforeToolCall: (_context, { toolName, params }) => {
+          if (toolName === "delete_file") {
+            return { action: "block", reason: "files cannot be deleted" };
+          }
+          return {
+            action: "edit",
+            arguments: { ...params, path: `workspace/${params.path}` },
+          };
+        },
+      },
+      {
+        name: "redact-secrets",
+        afterToolCall: (_context, { result }) => {
+          if (typeof result === "string") {
+            return { result: result.replace(/password=\S+/, "***") };
+          }
+        },
+      },
+    ]);
+    await mockRegistryTools(agent, ["delete_file", "read_file"]);
+    const callTool = vi
+      .spyOn(agent.getClientsRegistry(), "callTool")
+      .mockResolvedValue("password=hunter2");
+
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Clean up" }],
+      model: "test-model",
+      onToolCallResult,
+    });
+
+    expect(callTool).toHaveBeenCalledTimes(1);
+    expect(callTool.mock.calls[0][0].function).toEqual({
+      name: "read_file",
+      arguments: '{"path":"workspace/notes.txt"}',
+    });
+    expect(result.toolCalls[0]).toMatchObject({
+      toolName: "delete_file",
+      isError: true,
+      result: {
+        content: [
+          {
+            type: "text",
+            text: "Blocked by guardrails: files cannot be deleted",
+          },
+        ],
+      },
+    });
+    expect(result.toolCalls[1]).toMatchObject({
+      params: { path: "workspace/notes.txt" },
+      result: "***",
+    });
+    expect(onToolCallResult.mock.calls[1][0].result).toBe("***");
+    expect(result.conversation[3].content).toBe('"***"');
+  });
+
+  it("ends the run early and calls onRunEnd", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(
+        toolCallsMessage({ id: "call_1", name: "search", args: {} })
+      )
+      .mockResolvedValueOnce(
+        toolCallsMessage({ id: "call_2", name: "search", args: {} })
+      );
+    const onRunEnd = vi.fn();
+
+    const agent = createAgent([
+      {
+        name: "budget",
+        afterLLMCall: (context) => {
+          if (context.interaction === 2) context.endRun("budget exceeded");
+        },
+        onRunEnd,
+      },
+    ]);
+    await mockRegistryTools(agent, ["search"]);
+    const callTool = vi
+      .spyOn(agent.getClientsRegistry(), "callTool")
+      .mockResolvedValue("results");
+
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Search" }],
+      model: "test-model",
+    });
+
+    expect(result.endReason).toBe("budget exceeded");
+    expect(create).toHaveBeenCalledTimes(2);
+    // The tool calls of the last answer are not run, but still answered
+    expect(callTool).toHaveBeenCalledTimes(1);
+    expect(result.conversation[result.conversation.length - 1]).toMatchObject({
+      role: "tool",
+      tool_call_id: "call_2",
+    });
+    expect(onRunEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ depth: 0, interaction: 2 }),
+      result
+    );
+  });
+
+  it("answers every tool call when a hook or the artifact store fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(
+        toolCallsMessage(
+          { id: "call_1", name: "search", args: {} },
+          { id: "call_2", name: "snapshot", args: {} }
+        )
+      )
+      .mockResolvedValueOnce(answer("Done."));
+    const artifactStore = new InMemoryArtifactStore();
+    vi.spyOn(artifactStore, "saveArtifact").mockRejectedValue(
+      new Error("connection refused")
+    );
+
+    const redact: AgentMiddleware = {
+      name: "redact",
+      afterToolCall: (_context, outcome) => {
+        if (outcome.toolName === "search") throw new Error("hook failed");
+      },
+    };
+
+    const agent = new TinyAgent({
+      middlewares: [redact],
+      artifacts: { maxToolResultChars: 50, previewChars: 10 },
+      artifactStore,
+    } as any);
+    await mockRegistryTools(agent, ["search", "snapshot"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockResolvedValue(
+      "x".repeat(100)
+    );
+
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Search" }],
+      model: "test-model",
+    });
+
+    expect(result.toolCalls.map((call) => call.isError)).toEqual([true, false]);
+    expect(JSON.stringify(result.toolCalls[0].result)).toContain(
+      "The result of the tool could not be processed: hook failed"
+    );
+    expect(JSON.parse((result.conversation[3] as any).content)).toMatchObject({
+      totalChars: 102,
+      preview: `"${"x".repeat(9)}`,
+    });
+    expect(result.conversation[4]).toEqual({
+      role: "assistant",
+      content: "Done.",
+    });
+  });
+});
+
+describe("TinyAgent structured output", () => {
+  const toolCallMessage = (name: string, args: object) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name, arguments: JSON.stringify(args) },
+            },
+          ],
+        },
+      },
+    ],
+  });
+  const answer = (content: string) => ({
+    choices: [{ message: { role: "assistant", content } }],
+  });
+  const providerOf = (create: Mock) =>
+    new OpenAIProvider({
+      client: { chat: { completions: { create } } } as unknown as OpenAI,
+    });
+
+  it("uses tools, then retries until the final answer matches the zod schema", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(toolCallMessage("search", { q: "Louvre" }))
+      .mockResolvedValueOnce(answer('{"city":"Paris","visitors":"many"}'))
+      .mockResolvedValueOnce(answer('{"city":"Paris","visitors":8700000}'));
+
+    const agent = new TinyAgent({} as any);
+    await mockRegistryTools(agent, ["search"]);
+    vi.spyOn(agent.getClientsRegistry(), "callTool").mockResolvedValue(
+      "The Louvre is in Paris."
+    );
+
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Tell me about the Louvre" }],
+      model: "test-model",
+      outputSchema: z.object({ city: z.string(), visitors: z.number() }),
+    });
+
+    expect(result.output).toEqual({ city: "Paris", visitors: 8700000 });
+    expect(create).toHaveBeenCalledTimes(3);
+    const request = create.mock.calls[0][0];
+    expect(request.tools.map((tool: any) => tool.function.name)).toContain(
+      "search"
+    );
+    expect(request.response_format).toMatchObject({
+      type: "json_schema",
+      json_schema: {
+        name: "final_answer",
+        schema: { required: ["city", "visitors"] },
+      },
+    });
+    // The validation error is sent back before the last attempt
+    expect(result.conversation[result.conversation.length - 2]).toEqual({
+      role: "user",
+      content:
+        "Your answer does not match the expected output schema:\n$.visitors: Expected number, received string\nAnswer again with only a JSON object matching the schema.",
+    });
+  });
+
+  it("throws once the retries of a JSON schema answer are exhausted", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(answer("Paris"))
+      .mockResolvedValueOnce(answer('{"town":"Paris"}'));
+
+    const agent = new TinyAgent({ maxOutputRetries: 1 } as any);
+
+    const error = await agent
+      .run({
+        llm: providerOf(create),
+        baseMessages: [{ role: "user", content: "Where is the Louvre?" }],
+        model: "test-model",
+        outputSchema: {
+          name: "location",
+          schema: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            required: ["city"],
+            additionalProperties: false,
+          },
+        },
+      })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.message).toBe(
+      "The final answer does not match the output schema after 1 retries: $.city: required\n$.town: unexpected property"
+    );
+    expect(error.content).toBe('{"town":"Paris"}');
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(create.mock.calls[1][0].messages[2].content).toContain(
+      "The answer is not valid JSON"
+    );
+  });
+
+  it("validates nested JSON schemas with references", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        steps: { type: "array", items: { $ref: "#/$defs/step" } },
+      },
+      $defs: {
+        step: {
+          type: "object",
+          properties: {
+            kind: { enum: ["tool", "answer"] },
+            note: { anyOf: [{ type: "string" }, { type: "null" }] },
+          },
+        },
+      },
+    };
+
+    expect(
+      validateJsonSchema(schema, {
+        steps: [
+          { kind: "tool", note: null },
+          { kind: "answer", note: "ok" },
+        ],
+      })
+    ).toEqual([]);
+    expect(
+      validateJsonSchema(schema, { steps: [{ kind: "plan", note: 1 }] })
+    ).toEqual([
+      '$.steps[0].kind: expected one of "tool", "answer"',
+      "$.steps[0].note: does not match any of the allowed schemas",
+    ]);
+  });
+});
+
+describe("TinyAgent task_complete", () => {
+  const taskCompleteMessage = (args: object) => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: {
+                name: "task_complete",
+                arguments: JSON.stringify(args),
+              },
+            },
+          ],
+        },
+      },
+    ],
+  });
+  const providerOf = (create: Mock) =>
+    new OpenAIProvider({
+      client: { chat: { completions: { create } } } as unknown as OpenAI,
+    });
+
+  it("ends the run on the first call, its summary being the final answer", async () => {
+    const create = vi.fn().mockResolvedValueOnce(
+      taskCompleteMessage({
+        summary: "Two of the three files were renamed.",
+        status: "partial",
+      })
+    );
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Rename the files" }],
+      model: "test-model",
+    });
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(result.completion).toEqual({
+      summary: "Two of the three files were renamed.",
+      status: "partial",
+    });
+    expect(result.conversation.slice(-2)).toEqual([
+      {
+        role: "tool",
+        tool_call_id: "call_1",
+        content: '"Task marked as partial."',
+      },
+      { role: "assistant", content: "Two of the three files were renamed." },
+    ]);
+  });
+
+  it("reports a call without summary to the LLM and keeps running", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(taskCompleteMessage({}))
+      .mockResolvedValueOnce(taskCompleteMessage({ summary: "Done." }));
+
+    const agent = new TinyAgent({} as any);
+    const result = await agent.run({
+      llm: providerOf(create),
+      baseMessages: [{ role: "user", content: "Rename the files" }],
+      model: "test-model",
+    });
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(result.toolCalls[0]).toMatchObject({
+      toolName: "task_complete",
+      isError: true,
+    });
+    expect(JSON.stringify(result.toolCalls[0].result)).toContain(
+      "Invalid arguments for task_complete: summary: Required"
+    );
+    expect(result.completion).toEqual({ summary: "Done.", status: "success" });
+  });
+});
+
+describe("TinyAgent RAG citations", () => {
+  it("numbers the retrieved chunks for the LLM and returns them as citations", async () => {
+    const create = vi.fn().mockResolvedValueOnce({
+      choices: [
+        {
+          message: { role: "assistant", content: "Run the migrations [1]." },
+        },
+      ],
+    });
+    const query = vi.fn().mockResolvedValue([
+      {
+        id: 7,
+        source: "docs/setup.md",
+        sourceType: "file",
+        content: "Run the migrations.",
+        score: 0.9,
+        metadata: { headingPath: ["Setup"], startLine: 4, endLine: 5 },
+      },
+    ]);
+
+    const agent = new TinyAgent({ rag: { query } } as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [
+        { role: "system", content: "You are a helpful assistant." },
+        { role: "user", content: "How do I set up the database?" },
+      ],
+      model: "test-model",
+      ragQueries: ["database setup"],
+    });
+
+    expect(query).toHaveBeenCalledWith("database setup", 5);
+    const context = create.mock.calls[0][0].messages[1].content;
+    expect(context).toContain(
+      "[1] docs/setup.md › Setup, lines 4-5\nRun the migrations."
+    );
+    expect(context).toContain("cite it with its number in square brackets");
+    expect(result.citations).toEqual([
+      expect.objectContaining({
+        id: 7,
+        number: 1,
+        label: "docs/setup.md › Setup, lines 4-5",
+      }),
+    ]);
+  });
+
+  it("cites the chunks retrieved by several queries once, best first", async () => {
+    const create = vi.fn().mockResolvedValueOnce({
+      choices: [{ message: { role: "assistant", content: "Done." } }],
+    });
+    const chunk = (id: number, rerankScore: number) => ({
+      id,
+      source: `docs/${id}.md`,
+      sourceType: "file",
+      content: `Chunk ${id}`,
+      score: 0.5,
+      rerankScore,
+      metadata: {},
+    });
+    const query = vi
+      .fn()
+      .mockResolvedValueOnce([chunk(1, 0.4), chunk(2, 0.6)])
+      .mockResolvedValueOnce([chunk(1, 0.9)]);
+
+    const agent = new TinyAgent({ rag: { query } } as any);
+    const result = await agent.run({
+      llm: new OpenAIProvider({
+        client: { chat: { completions: { create } } } as unknown as OpenAI,
+      }),
+      baseMessages: [{ role: "user", content: "Compare both setups" }],
+      model: "test-model",
+      ragQueries: ["first setup", "second setup"],
+    });
+
+    expect(result.citations.map(({ id, number }) => ({ id, number }))).toEqual([
+      { id: 1, number: 1 },
+      { id: 2, number: 2 },
+    ]);
+    expect(result.ragRetrieval).toMatchObject({
+      queries: ["first setup", "second setup"],
+      results: [
+        { id: 1, source: "docs/1.md", score: 0.5, rerankScore: 0.9 },
+        { id: 2, source: "docs/2.md", score: 0.5, rerankScore: 0.6 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,48 @@
+"use client";
+
+import React, { useState } from "react";
+import { MessageCircleQuestion, Send } from "lucide-react";
+
+interface AskUserCardProps {
+  question: string;
+  onAnswer: (answer: string) => void;
+}
+
+export function AskUserCard({ question, onAnswer }: AskUserCardProps) {
+  const [answer, setAnswer] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!answer.trim()) return;
+    onAnswer(answer.trim());
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="border border-blue-700/50 bg-blue-900/20 rounded-lg p-4 space-y-3"
+    >
+      <div className="flex items-start gap-2 text-blue-300">
+        <MessageCircleQuestion className="w-5 h-5 mt-0.5 flex-shrink-0" />
+        <span className="font-medium whitespace-pre-wrap">{question}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          placeholder="Your answer..."
+          autoFocus
+          className="flex-1 text-sm text-gray-200 bg-gray-800 p-2 rounded-lg border border-gray-600 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!answer.trim()}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white transition-colors"
+        >
+          <Send className="w-4 h-4" />
+          Answer
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -12,6 +12,11 @@ import {
   ToolCallResult,
   StoredConversation,
   ConversationMessage,
+  ClientStatus,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  TaskCompletion,
+  Citation,
 } from "../types";
 import {
   Bot,
@@ -23,6 +28,10 @@ import {
   Trash2,
 } from "lucide-react";
 import { ToolAccordion } from "./ToolAccordion";
+import { ToolApprovalCard } from "./ToolApprovalCard";
+import { CitationsList } from "./CitationsList";
+import { AskUserCard } from "./AskUserCard";
+import { addUsage } from "../lib/usage";
 
 export function Chat() {
   const router = useRouter();
@@ -32,13 +41,16 @@ export function Chat() {
     isConnecting,
     error,
     listTools,
+    listClientsStatus,
     generateRagQueries,
     generateAnswer,
+    cancelGeneration,
     generateRecipe,
     createConversation,
     listConversations,
     deleteConversation,
     renameConversation,
+    getArtifact,
   } = useSocket();
   const {
     state,
@@ -67,6 +79,31 @@ export function Chat() {
   const [isGeneratingRAG, setIsGeneratingRAG] = useState(false);
   const [isLoadingConversations, setIsLoadingConversations] = useState(false);
   const [conversationsLoaded, setConversationsLoaded] = useState(false);
+  const [clientsStatus, setClientsStatus] = useState<
+    Record<string, ClientStatus>
+  >({});
+  // Tool calls waiting for the user's approval, with the socket acknowledgement to answer them
+  const [pendingApprovals, setPendingApprovals] = useState<
+    {
+      request: ToolApprovalRequest;
+      respond: (decision: ToolApprovalDecision) => void;
+    }[]
+  >([]);
+  // Questions asked by the agent through the ask_user tool
+  const [pendingQuestions, setPendingQuestions] = useState<
+    {
+      id: number;
+      question: string;
+      respond: (answer: { input: string }) => void;
+    }[]
+  >([]);
+  const questionIdRef = useRef(0);
+  // Status given by the agent to task_complete for the last answer
+  const [lastCompletion, setLastCompletion] = useState<TaskCompletion | null>(
+    null
+  );
+  // Knowledge base chunks the last answer can cite
+  const [lastCitations, setLastCitations] = useState<Citation[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const streamingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -82,6 +119,8 @@ export function Chat() {
     state.currentStreamedMessage,
     state.toolCallEvents,
     state.toolResultEvents,
+    pendingApprovals,
+    pendingQuestions,
   ]);
 
   // Socket event listeners
@@ -112,14 +151,36 @@ export function Chat() {
       addToolResult(toolCallResult);
     };
 
+    const handleToolApprovalRequest = (
+      request: ToolApprovalRequest,
+      respond: (decision: ToolApprovalDecision) => void
+    ) => {
+      setPendingApprovals((prev) => [...prev, { request, respond }]);
+    };
+
+    const handleAskUser = (
+      request: { question: string },
+      respond: (answer: { input: string }) => void
+    ) => {
+      const id = questionIdRef.current++;
+      setPendingQuestions((prev) => [
+        ...prev,
+        { id, question: request.question, respond },
+      ]);
+    };
+
     socket.on("stream-answer", handleStreamAnswer);
     socket.on("tool-call", handleToolCall);
     socket.on("tool-call-result", handleToolCallResult);
+    socket.on("tool-approval-request", handleToolApprovalRequest);
+    socket.on("ask-user", handleAskUser);
 
     return () => {
       socket.off("stream-answer", handleStreamAnswer);
       socket.off("tool-call", handleToolCall);
       socket.off("tool-call-result", handleToolCallResult);
+      socket.off("tool-approval-request", handleToolApprovalRequest);
+      socket.off("ask-user", handleAskUser);
 
       // Clear any pending timeout
       if (streamingTimeoutRef.current) {
@@ -135,6 +196,28 @@ export function Chat() {
     setGenerating,
   ]);
 
+  // MCP clients health: initial snapshot + live updates
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    listClientsStatus()
+      .then((statuses) =>
+        setClientsStatus(
+          Object.fromEntries(statuses.map((status) => [status.name, status]))
+        )
+      )
+      .catch((err) => console.error("Failed to load MCP clients status:", err));
+
+    const handleClientStatus = (status: ClientStatus) => {
+      setClientsStatus((prev) => ({ ...prev, [status.name]: status }));
+    };
+
+    socket.on("mcp-client-status", handleClientStatus);
+    return () => {
+      socket.off("mcp-client-status", handleClientStatus);
+    };
+  }, [socket, isConnected, listClientsStatus]);
+
   // Load tools on connection
   const loadTools = useCallback(async () => {
     try {
@@ -178,6 +261,8 @@ export function Chat() {
 
     addUserMessage(message);
     setGenerating(true);
+    setLastCompletion(null);
+    setLastCitations([]);
     clearStreamedMessage();
     setStreamingContent("");
 
@@ -200,11 +285,37 @@ export function Chat() {
       }
 
       // Generate answer - this should trigger streaming
-      await generateAnswer({
+      const answer = await generateAnswer({
         messages: [...state.messages, { role: "user", content: message }],
         ragQueries,
         conversationId: state.currentConversationId || undefined,
       });
+      // Approvals and questions still pending are not awaited by the server anymore
+      setPendingApprovals([]);
+      setPendingQuestions([]);
+      setLastCompletion(answer.completion ?? null);
+      setLastCitations(answer.citations ?? []);
+
+      // The server added the usage of the answer to the stored conversation
+      const currentConversation = state.conversations.find(
+        (c) => c.id === state.currentConversationId
+      );
+      if (currentConversation) {
+        updateConversation({
+          ...currentConversation,
+          usage: addUsage(currentConversation.usage, answer.usage),
+        });
+      }
+
+      if (answer.cancelled) {
+        // Nothing else will be streamed, keep what was received so far
+        if (streamingTimeoutRef.current) {
+          clearTimeout(streamingTimeoutRef.current);
+          streamingTimeoutRef.current = null;
+        }
+        setGenerating(false);
+        return;
+      }
 
       // The response will be handled by socket streaming events
       // Don't set generating to false here - let the streaming completion logic handle it
@@ -217,6 +328,34 @@ export function Chat() {
     }
   };
 
+  const handleToolApprovalDecision = (
+    toolCallId: string,
+    decision: ToolApprovalDecision
+  ) => {
+    const pending = pendingApprovals.find(
+      (approval) => approval.request.toolCallId === toolCallId
+    );
+    pending?.respond(decision);
+    setPendingApprovals((prev) =>
+      prev.filter((approval) => approval.request.toolCallId !== toolCallId)
+    );
+  };
+
+  const handleAskUserAnswer = (id: number, input: string) => {
+    pendingQuestions.find((question) => question.id === id)?.respond({ input });
+    setPendingQuestions((prev) =>
+      prev.filter((question) => question.id !== id)
+    );
+  };
+
+  const handleStopGeneration = async () => {
+    try {
+      await cancelGeneration();
+    } catch (err) {
+      console.error("Failed to cancel the generation:", err);
+    }
+  };
+
   const handleCommand = async (command: string) => {
     if (!isConnected) return;
 
@@ -317,6 +456,8 @@ export function Chat() {
 
       console.log("Processed messages:", messages);
       loadConversationMessages(messages);
+      setLastCompletion(null);
+      setLastCitations([]);
       setConversationsSidebarOpen(false);
       // Redirect to the selected conversation
       router.push(`/chat/${conversation.id}`);
@@ -457,6 +598,46 @@ export function Chat() {
     );
   };
 
+  // MCP clients status component
+  const McpClientsStatus = () => {
+    const statuses = Object.values(clientsStatus);
+    if (statuses.length === 0) return null;
+
+    const unhealthy = statuses.filter((status) => status.state !== "connected");
+    if (unhealthy.length === 0) {
+      return (
+        <div className="text-xs text-gray-400">
+          MCP: {statuses.length}/{statuses.length} clients connected
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {unhealthy.map((status) => (
+          <span
+            key={status.name}
+            title={status.lastError}
+            className={`px-2 py-0.5 rounded-full border ${
+              status.state === "restarting"
+                ? "bg-yellow-900/30 text-yellow-300 border-yellow-700/50"
+                : "bg-red-900/30 text-red-300 border-red-700/50"
+            }`}
+          >
+            {status.name}: {status.state}
+            {status.restartAttempts > 0 &&
+              ` (attempt ${status.restartAttempts})`}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  // The citations belong to the answer, the last assistant message
+  const lastAssistantIndex = state.messages.findLastIndex(
+    (message) => message.role === "assistant"
+  );
+
   return (
     <div className="flex flex-col h-screen bg-gray-900">
       {/* Top Navbar - Fixed */}
@@ -467,6 +648,7 @@ export function Chat() {
             <div className="flex flex-col gap-1">
               <h1 className="text-xl font-bold text-white">Tiny Agent Chat</h1>
               <ConnectionStatus />
+              <McpClientsStatus />
               {state.currentConversationId && (
                 <div className="text-xs text-blue-300">
                   {
@@ -656,14 +838,27 @@ export function Chat() {
                       params={toolResultEvent.params}
                       startTime={toolResultEvent.startTime}
                       endTime={toolResultEvent.endTime}
+                      artifactId={toolResultEvent.artifactId}
+                      loadArtifact={getArtifact}
                     />
                   ))}
 
                   {/* Regular Messages */}
                   {state.messages.map((message, index) => (
-                    <Message key={index} message={message} />
+                    <Message
+                      key={index}
+                      message={message}
+                      citations={
+                        index === lastAssistantIndex ? lastCitations : undefined
+                      }
+                    />
                   ))}
 
+                  {/* Sources cited by the last answer */}
+                  {lastCitations.length > 0 && !state.isGenerating && (
+                    <CitationsList citations={lastCitations} />
+                  )}
+
                   {/* Generating indicator - show while generating but before streaming starts */}
                   {state.isGenerating && !streamingContent && (
                     <Message
@@ -686,6 +881,52 @@ export function Chat() {
                       isStreaming={true}
                     />
                   )}
+
+                  {/* Completion status of the task, once the answer is complete */}
+                  {lastCompletion && !state.isGenerating && (
+                    <div
+                      className={`flex items-center gap-2 text-sm ${
+                        lastCompletion.status === "success"
+                          ? "text-green-400"
+                          : lastCompletion.status === "partial"
+                          ? "text-yellow-400"
+                          : "text-red-400"
+                      }`}
+                    >
+                      {lastCompletion.status === "success" ? (
+                        <CheckCircle className="w-4 h-4" />
+                      ) : (
+                        <AlertCircle className="w-4 h-4" />
+                      )}
+                      <span>
+                        {lastCompletion.status === "success"
+                          ? "Task completed"
+                          : lastCompletion.status === "partial"
+                          ? "Task partially completed"
+                          : "Task failed"}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Questions of the agent waiting for an answer */}
+                  {pendingQuestions.map(({ id, question }) => (
+                    <AskUserCard
+                      key={`question-${id}`}
+                      question={question}
+                      onAnswer={(answer) => handleAskUserAnswer(id, answer)}
+                    />
+                  ))}
+
+                  {/* Tool calls waiting for the user's approval */}
+                  {pendingApprovals.map(({ request }) => (
+                    <ToolApprovalCard
+                      key={request.toolCallId}
+                      request={request}
+                      onDecision={(decision) =>
+                        handleToolApprovalDecision(request.toolCallId, decision)
+                      }
+                    />
+                  ))}
                 </>
               )}
 
@@ -727,6 +968,7 @@ export function Chat() {
                 }
                 ragEnabled={ragEnabled}
                 onToggleRAG={() => setRagEnabled(!ragEnabled)}
+                onStop={state.isGenerating ? handleStopGeneration : undefined}
               />
             </div>
           </div>
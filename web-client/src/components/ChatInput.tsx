@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useRef, useEffect } from "react";
-import { Send, Mic, Command } from "lucide-react";
+import { Send, Mic, Command, Square } from "lucide-react";
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
@@ -10,6 +10,8 @@ interface ChatInputProps {
   placeholder?: string;
   ragEnabled: boolean;
   onToggleRAG: () => void;
+  // When set, a Stop button replaces Send to cancel the answer being generated
+  onStop?: () => void;
 }
 
 export function ChatInput({
@@ -19,6 +21,7 @@ export function ChatInput({
   placeholder = "Ask anything...",
   ragEnabled = false,
   onToggleRAG,
+  onStop,
 }: ChatInputProps) {
   const [input, setInput] = useState("");
   const [isCommandMode, setIsCommandMode] = useState(false);
@@ -129,14 +132,26 @@ export function ChatInput({
           />
         </div>
 
-        <button
-          type="submit"
-          disabled={!input.trim() || disabled}
-          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors flex items-center gap-2"
-        >
-          <Send className="w-4 h-4" />
-          <span className="hidden sm:inline">Send</span>
-        </button>
+        {onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="bg-red-600 hover:bg-red-700 text-white p-3 rounded-lg transition-colors flex items-center gap-2"
+            title="Stop generating"
+          >
+            <Square className="w-4 h-4" />
+            <span className="hidden sm:inline">Stop</span>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!input.trim() || disabled}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white p-3 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Send className="w-4 h-4" />
+            <span className="hidden sm:inline">Send</span>
+          </button>
+        )}
       </form>
 
       <div className="mt-2 text-xs text-gray-500">
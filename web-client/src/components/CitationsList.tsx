@@ -0,0 +1,54 @@
+"use client";
+
+import React from "react";
+import { BookOpen } from "lucide-react";
+import { Citation } from "../types";
+
+interface CitationsListProps {
+  citations: Citation[];
+}
+
+/**
+ * Sources of the knowledge base given to the agent, each one can be expanded to read
+ * the cited chunk. The [n] references of the answer link to them.
+ */
+export function CitationsList({ citations }: CitationsListProps) {
+  return (
+    <div className="border border-gray-700 bg-gray-800/50 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex items-center gap-2 text-gray-300 font-medium">
+        <BookOpen className="w-4 h-4" />
+        <span>Sources</span>
+      </div>
+      <ol className="space-y-1">
+        {citations.map((citation) => (
+          <li key={citation.number}>
+            <details
+              id={`citation-${citation.number}`}
+              className="group scroll-mt-4"
+            >
+              <summary className="cursor-pointer text-gray-300 hover:text-white">
+                <span className="text-blue-400 font-mono mr-2">
+                  [{citation.number}]
+                </span>
+                {citation.label}
+              </summary>
+              <div className="mt-1 ml-8 text-xs text-gray-400 font-mono bg-gray-900 p-2 rounded border border-gray-700 whitespace-pre-wrap max-h-48 overflow-y-auto">
+                {citation.content}
+              </div>
+            </details>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/**
+ * Expands a citation of the list and scrolls to it.
+ */
+export const openCitation = (number: number) => {
+  const element = document.getElementById(`citation-${number}`);
+  if (!(element instanceof HTMLDetailsElement)) return;
+  element.open = true;
+  element.scrollIntoView({ behavior: "smooth", block: "nearest" });
+};
@@ -12,6 +12,7 @@ import {
   RefreshCw,
 } from "lucide-react";
 import { StoredConversation } from "../types";
+import { formatUsage } from "../lib/usage";
 
 interface ConversationsSidebarProps {
   isOpen: boolean;
@@ -207,6 +208,9 @@ export function ConversationsSidebar({
                             </div>
                             <p className="text-xs text-gray-500 mt-1 truncate">
                               {conversation.messages.length} messages
+                              {conversation.usage?.totalTokens
+                                ? ` · ${formatUsage(conversation.usage)}`
+                                : ""}
                             </p>
                           </div>
 
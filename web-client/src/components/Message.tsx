@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useMemo, useCallback } from "react";
-import { ConversationMessage, hasToolCalls } from "../types";
+import { Citation, ConversationMessage, hasToolCalls } from "../types";
 import { User, Bot, Wrench } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import rehypeRaw from "rehype-raw";
@@ -15,6 +15,7 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { CopyButton } from "./CopyButton";
+import { openCitation } from "./CitationsList";
 import { OpenAI } from "openai";
 
 interface MessageProps {
@@ -22,13 +23,30 @@ interface MessageProps {
   isStreaming?: boolean;
   isGenerating?: boolean;
   isGeneratingRAG?: boolean;
+  // Sources the [n] references of the message link to
+  citations?: Citation[];
 }
 
+const CITATION_HREF_PREFIX = "#citation-";
+
+/**
+ * Turns the [n] references to known citations into links to the sources list.
+ */
+const linkCitations = (content: string, citations: Citation[]) => {
+  const numbers = new Set(citations.map((citation) => citation.number));
+  return content.replace(/\[(\d+)\](?![(\[])/g, (reference, number) =>
+    numbers.has(Number(number))
+      ? `[${reference}](${CITATION_HREF_PREFIX}${number})`
+      : reference
+  );
+};
+
 export function Message({
   message,
   isStreaming = false,
   isGenerating = false,
   isGeneratingRAG = false,
+  citations,
 }: MessageProps) {
   // Memoize the markdown components to prevent recreation on every render
   const markdownComponents = useMemo(() => {
@@ -127,17 +145,30 @@ export function Message({
       }: {
         children?: React.ReactNode;
         href?: string;
-      }) => (
-        <a
-          href={href}
-          className="text-blue-400 hover:text-blue-300 underline"
-          target="_blank"
-          rel="noopener noreferrer"
-          {...props}
-        >
-          {children}
-        </a>
-      )
+      }) =>
+        href?.startsWith(CITATION_HREF_PREFIX) ? (
+          <a
+            href={href}
+            className="text-blue-400 hover:text-blue-300 no-underline text-xs align-super"
+            onClick={(event) => {
+              event.preventDefault();
+              openCitation(Number(href.slice(CITATION_HREF_PREFIX.length)));
+            }}
+            {...props}
+          >
+            {children}
+          </a>
+        ) : (
+          <a
+            href={href}
+            className="text-blue-400 hover:text-blue-300 underline"
+            target="_blank"
+            rel="noopener noreferrer"
+            {...props}
+          >
+            {children}
+          </a>
+        )
     );
     AComponent.displayName = "AComponent";
 
@@ -225,7 +256,9 @@ export function Message({
             rehypePlugins={[rehypeRaw]}
             components={markdownComponents}
           >
-            {String(message.content)}
+            {citations?.length
+              ? linkCitations(String(message.content), citations)
+              : String(message.content)}
           </ReactMarkdown>
           {isStreaming && (
             <span className="inline-block w-2 h-4 bg-white ml-1 animate-pulse" />
@@ -239,6 +272,7 @@ export function Message({
     markdownInfo.hasCodeBlocks,
     markdownComponents,
     isStreaming,
+    citations,
   ]);
 
   // Memoize the regular text content
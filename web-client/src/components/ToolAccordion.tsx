@@ -1,7 +1,15 @@
 "use client";
 
 import React, { useState } from "react";
-import { ChevronDown, Wrench, CheckCircle, Clock } from "lucide-react";
+import {
+  ChevronDown,
+  Wrench,
+  CheckCircle,
+  Clock,
+  FileText,
+  Loader2,
+} from "lucide-react";
+import { Artifact } from "../types";
 
 interface ToolCallAccordionProps {
   toolName: string;
@@ -13,6 +21,9 @@ interface ToolCallAccordionProps {
   params?: unknown;
   startTime?: number;
   endTime?: number;
+  // The result was stored as an artifact, the LLM only received a preview
+  artifactId?: string;
+  loadArtifact?: (id: string) => Promise<Artifact>;
 }
 
 export function ToolAccordion({
@@ -25,8 +36,26 @@ export function ToolAccordion({
   params,
   startTime,
   endTime,
+  artifactId,
+  loadArtifact,
 }: ToolCallAccordionProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [artifact, setArtifact] = useState<Artifact | null>(null);
+  const [isLoadingArtifact, setIsLoadingArtifact] = useState(false);
+  const [artifactError, setArtifactError] = useState<string | null>(null);
+
+  const handleLoadArtifact = async () => {
+    if (!artifactId || !loadArtifact) return;
+    setIsLoadingArtifact(true);
+    setArtifactError(null);
+    try {
+      setArtifact(await loadArtifact(artifactId));
+    } catch (error) {
+      setArtifactError((error as Error).message);
+    } finally {
+      setIsLoadingArtifact(false);
+    }
+  };
 
   const getTitle = () => {
     if (type === "call") {
@@ -151,6 +180,42 @@ export function ToolAccordion({
               {String(result)}
             </div>
           </div>
+
+          {artifactId && (
+            <div>
+              <span className="text-sm font-semibold text-gray-300 block mb-2">
+                Artifact
+              </span>
+              {artifact ? (
+                <>
+                  <div className="text-xs text-gray-400 mb-2">
+                    {artifact.content.length} characters, the agent received a
+                    preview
+                  </div>
+                  <pre className="text-xs font-mono text-gray-400 bg-gray-800 p-3 rounded-lg border border-gray-700 max-h-64 overflow-y-auto whitespace-pre-wrap break-all">
+                    {artifact.content}
+                  </pre>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleLoadArtifact}
+                  disabled={isLoadingArtifact || !loadArtifact}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-gray-700 hover:bg-gray-600 disabled:cursor-not-allowed text-gray-200 transition-colors"
+                >
+                  {isLoadingArtifact ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <FileText className="w-4 h-4" />
+                  )}
+                  Show the full result
+                </button>
+              )}
+              {artifactError && (
+                <div className="text-xs text-red-400 mt-2">{artifactError}</div>
+              )}
+            </div>
+          )}
         </div>
       );
     }
@@ -199,7 +264,9 @@ export function ToolAccordion({
 
       <div
         className={`overflow-hidden transition-all duration-300 ease-in-out ${
-          isOpen ? "max-h-96 opacity-100" : "max-h-0 opacity-0"
+          isOpen
+            ? `${artifact ? "max-h-[48rem]" : "max-h-96"} opacity-100`
+            : "max-h-0 opacity-0"
         }`}
       >
         {getContent()}
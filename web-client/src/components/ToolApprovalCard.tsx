@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useState } from "react";
+import { ShieldAlert, Check, X, Pencil } from "lucide-react";
+import { ToolApprovalDecision, ToolApprovalRequest } from "../types";
+
+interface ToolApprovalCardProps {
+  request: ToolApprovalRequest;
+  onDecision: (decision: ToolApprovalDecision) => void;
+}
+
+export function ToolApprovalCard({
+  request,
+  onDecision,
+}: ToolApprovalCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedArguments, setEditedArguments] = useState(
+    JSON.stringify(request.params ?? {}, null, 2)
+  );
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApprove = () => {
+    if (!isEditing) {
+      onDecision({ action: "approve" });
+      return;
+    }
+    try {
+      onDecision({ action: "edit", arguments: JSON.parse(editedArguments) });
+    } catch {
+      setError("The arguments must be valid JSON.");
+    }
+  };
+
+  const handleReject = () => {
+    onDecision({ action: "reject", reason: reason.trim() || undefined });
+  };
+
+  return (
+    <div className="border border-yellow-700/50 bg-yellow-900/20 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2 text-yellow-300">
+        <ShieldAlert className="w-5 h-5" />
+        <span className="font-medium">
+          The agent wants to call {request.toolName}
+        </span>
+        <span className="text-xs text-yellow-400/70">
+          ({request.clientName})
+        </span>
+      </div>
+
+      {isEditing ? (
+        <textarea
+          value={editedArguments}
+          onChange={(e) => {
+            setEditedArguments(e.target.value);
+            setError(null);
+          }}
+          rows={6}
+          className="w-full text-xs font-mono text-gray-200 bg-gray-800 p-3 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+      ) : (
+        <pre className="text-xs font-mono text-gray-300 bg-gray-800 p-3 rounded-lg border border-gray-700 max-h-48 overflow-y-auto whitespace-pre-wrap">
+          {JSON.stringify(request.params ?? {}, null, 2)}
+        </pre>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      <input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason for rejecting (optional)"
+        className="w-full text-sm text-gray-200 bg-gray-800 p-2 rounded-lg border border-gray-600 placeholder-gray-500 focus:outline-none"
+      />
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleApprove}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 hover:bg-green-700 text-white transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          {isEditing ? "Run with these arguments" : "Approve"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsEditing(!isEditing)}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+        >
+          <Pencil className="w-4 h-4" />
+          {isEditing ? "Cancel edit" : "Edit arguments"}
+        </button>
+        <button
+          type="button"
+          onClick={handleReject}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-red-600 hover:bg-red-700 text-white transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
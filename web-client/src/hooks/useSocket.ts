@@ -9,6 +9,8 @@ import {
   GenerateAnswerRequest,
   GenerateAnswerResponse,
   StoredConversation,
+  ClientStatus,
+  Artifact,
 } from "../types";
 
 export const useSocket = () => {
@@ -102,6 +104,14 @@ export const useSocket = () => {
     return result.result;
   }, [emitWithPromise]);
 
+  const listClientsStatus = useCallback(async (): Promise<ClientStatus[]> => {
+    const result = await emitWithPromise<ClientStatus[]>(
+      "list-clients-status",
+      ""
+    );
+    return result.result;
+  }, [emitWithPromise]);
+
   const generateRagQueries = useCallback(
     async (messages: ConversationMessage[]): Promise<string[]> => {
       const result = await emitWithPromise<string[]>(
@@ -119,14 +129,28 @@ export const useSocket = () => {
         "generate-answer",
         request
       );
+      if (result.status === "error") {
+        throw new Error(result.error);
+      }
       return result.result;
     },
     [emitWithPromise]
   );
 
+  const cancelGeneration = useCallback(async (): Promise<boolean> => {
+    const result = await emitWithPromise<{ cancelled: boolean }>(
+      "cancel-generation",
+      {}
+    );
+    return result.result.cancelled;
+  }, [emitWithPromise]);
+
   const generateRecipe = useCallback(
     async (messages: ConversationMessage[]): Promise<string> => {
       const result = await emitWithPromise<string>("generate-recipe", messages);
+      if (result.status === "error") {
+        throw new Error(result.error);
+      }
       return result.result;
     },
     [emitWithPromise]
@@ -179,6 +203,14 @@ export const useSocket = () => {
     [emitWithPromise]
   );
 
+  const getArtifact = useCallback(
+    async (id: string): Promise<Artifact> => {
+      const result = await emitWithPromise<Artifact>("get-artifact", { id });
+      return result.result;
+    },
+    [emitWithPromise]
+  );
+
   useEffect(() => {
     connect();
 
@@ -196,13 +228,16 @@ export const useSocket = () => {
     disconnect,
     emitWithPromise,
     listTools,
+    listClientsStatus,
     generateRagQueries,
     generateAnswer,
+    cancelGeneration,
     generateRecipe,
     createConversation,
     listConversations,
     getConversation,
     deleteConversation,
     renameConversation,
+    getArtifact,
   };
 };
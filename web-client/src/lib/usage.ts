@@ -0,0 +1,15 @@
+import { TokenUsage } from "../types";
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  cachedTokens: a.cachedTokens + b.cachedTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  cost: a.cost + b.cost,
+});
+
+// e.g. "1234 tokens · ~$0.0012", the cost is omitted when no model price is configured
+export const formatUsage = (usage: TokenUsage): string => {
+  const cost = usage.cost ? ` · ~$${usage.cost.toFixed(4)}` : "";
+  return `${usage.totalTokens} tokens${cost}`;
+};
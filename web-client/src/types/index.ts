@@ -22,6 +22,7 @@ export interface StoredConversation {
   id: string;
   name: string;
   messages: ConversationMessage[];
+  usage: TokenUsage;
   created_at: Date;
   updated_at: Date;
 }
@@ -56,14 +57,26 @@ export interface ToolCallResultEvent {
   toolName: string;
   params: unknown;
   result: unknown;
+  // Set when the result was too large for the conversation, the LLM only got a preview
+  artifactId?: string;
   startTime: number;
   endTime: number;
   durationMs: number;
 }
 
+// A large tool result stored by the server out of the conversation
+export interface Artifact {
+  id: string;
+  toolCallId: string;
+  toolName: string;
+  content: string;
+  created_at: Date;
+}
+
 export interface SocketEventResult<T> {
   status: string;
   result: T;
+  error?: string;
 }
 
 export interface Tool {
@@ -74,15 +87,80 @@ export interface Tool {
   };
 }
 
+export interface ClientStatus {
+  name: string;
+  state: "connected" | "restarting" | "failed";
+  lastError?: string;
+  restartAttempts: number;
+  updatedAt: number;
+}
+
+// Sent by the server before running a tool with the "confirm" approval policy
+export interface ToolApprovalRequest {
+  toolCallId: string;
+  toolName: string;
+  clientName: string;
+  params: unknown;
+}
+
+export type ToolApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; arguments: Record<string, unknown> }
+  | { action: "reject"; reason?: string };
+
 export interface GenerateAnswerRequest {
   messages: ConversationMessage[];
   ragQueries: string[];
   conversationId?: string;
 }
 
+// Tokens consumed and estimated cost (USD) of the LLM calls
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+// Summary and status given by the agent when it ended its work with task_complete
+export interface TaskCompletion {
+  summary: string;
+  status: "success" | "partial" | "failed";
+}
+
+// Location of a knowledge base chunk in its source
+export interface ChunkMetadata {
+  page?: number;
+  headingPath?: string[];
+  startChar?: number;
+  endChar?: number;
+  startLine?: number;
+  endLine?: number;
+}
+
+// Knowledge base chunk given to the agent, cited as [number] in its answer
+export interface Citation {
+  id: number;
+  number: number;
+  // Path of the file, or "memory:<id>" for memories
+  source: string;
+  sourceType: "file" | "memory";
+  label: string;
+  content: string;
+  score: number;
+  // Relevance given by the reranker, when enabled
+  rerankScore?: number;
+  metadata: ChunkMetadata;
+}
+
 export interface GenerateAnswerResponse {
   content: string;
   streamed: boolean;
+  cancelled: boolean;
+  completion?: TaskCompletion;
+  citations?: Citation[];
+  usage: TokenUsage;
 }
 
 // Memory types